@@ -1,60 +1,168 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { MapViewer } from './components/MapViewer';
 import { DataInput } from './components/DataInput';
 import { Header } from './components/Header';
-import { Toast, ToastType } from './components/Toast';
-import { PhotoCapture } from './components/PhotoCapture';
+import { Toast, ToastType, ToastAction } from './components/Toast';
+import { PhotoCapture, DeliveryProof } from './components/PhotoCapture';
 import { HistoryViewer } from './components/HistoryViewer';
-import { CustomerPoint, MapViewerHandle, DeliveryRecord } from './types';
-import { Navigation, Store, List, Loader2, History } from 'lucide-react';
+import { SettingsPanel } from './components/SettingsPanel';
+import { RestoreDialog } from './components/RestoreDialog';
+import { DuplicateReview } from './components/DuplicateReview';
+import { PinEditor } from './components/PinEditor';
+import { CustomerList } from './components/CustomerList';
+import { OutboxPanel } from './components/OutboxPanel';
+import { AppSettings, loadSettings, saveSettings } from './services/settingsService';
+import { loadAppData, savePoints, saveHistory, reloadPhotoUrls, isQuotaError, loadOutbox, saveOutbox } from './services/storageService';
+import { readPersisted, writePersisted, removePersisted } from './services/persistedState';
+import { fetchPendingOrders, mergeSyncedOrders, postSheetUpdate, buildStatusUpdate, buildStatusRevert, buildLocationUpdate } from './services/sheetService';
+import { createOutbox, OutboxItem } from './services/outboxService';
+import { getResolverUrl } from './services/coordinateParser';
+import { createBackup, downloadBackup, readBackupFile, applyBackup, BackupPreview, RestoreMode } from './services/backupService';
+import { findDuplicates, applyDuplicateDecisions, DuplicateMatch, DuplicateAction } from './services/duplicateDetector';
+import { createUndoStack, UndoEffects } from './services/undoStack';
+import { displayName } from './services/customerName';
+import { createGeocoder, GeocodeResult } from './services/geocoderService';
+import { LatLng, getDistanceMeters } from './services/geoService';
+import { stopSpeaking } from './services/voiceService';
+import { CustomerPoint, MapViewerHandle, DeliveryRecord, OrderDetails, DeliveryOutcome, DELIVERY_OUTCOME_LABELS, isFailedOutcome } from './types';
+import { Navigation, Store, List, Loader2, History, Route, Camera, X, MapPin, CloudUpload, CloudOff } from 'lucide-react';
 
 // ✅ ลิงก์ล่าสุดที่คุณให้มา (บังคับใช้ลิงก์นี้)
 export const DEFAULT_SCRIPT_URL = "https://script.google.com/macros/s/AKfycbwqfQlMXQ_LIBAD9Fx4yGsXz1eXWtKoOSxvyR9NOnw2Wi_Y4MkTllUYQBJFTWmDDzM7/exec";
 
-const App: React.FC = () => {
-  // 1. Initialize Points
-  const [points, setPoints] = useState<CustomerPoint[]>(() => {
-    try {
-      const saved = localStorage.getItem('customerPoints');
-      return saved ? JSON.parse(saved) : [];
-    } catch (e) { return []; }
-  });
+// แยกรายละเอียดออเดอร์ออกจากหมุด เพื่อเก็บลงประวัติการส่ง
+const extractOrderDetails = ({ orderNo, phone, orderTime, amountDue, paymentMethod, deliveryWindow, note }: CustomerPoint): OrderDetails | undefined => {
+  const order: OrderDetails = { orderNo, phone, orderTime, amountDue, paymentMethod, deliveryWindow, note };
+  (Object.keys(order) as (keyof OrderDetails)[]).forEach(key => order[key] === undefined && delete order[key]);
+  return Object.keys(order).length > 0 ? order : undefined;
+};
 
-  // 2. Initialize History
-  const [history, setHistory] = useState<DeliveryRecord[]>(() => {
-    try {
-      const saved = localStorage.getItem('deliveryHistory');
-      return saved ? JSON.parse(saved) : [];
-    } catch (e) { return []; }
-  });
+// ข้อมูลที่ "เลิกทำ" ได้ (หมุดที่ยังไม่ส่ง + ประวัติการส่ง)
+interface DataSnapshot {
+  points: CustomerPoint[];
+  history: DeliveryRecord[];
+}
+
+const App: React.FC = () => {
+  // 1. Points & History (โหลดจาก IndexedDB แบบ Async ตอนเปิดแอป)
+  const [points, setPoints] = useState<CustomerPoint[]>([]);
+  const [history, setHistory] = useState<DeliveryRecord[]>([]);
+  const [isDataLoaded, setIsDataLoaded] = useState(false);
 
   const [isDataInputOpen, setIsDataInputOpen] = useState(false);
+  // รายชื่อลูกค้า: เก็บตำแหน่งผู้ขับ ณ ตอนเปิด (null = ยังไม่เปิด GPS)
+  const [customerList, setCustomerList] = useState<{ riderPosition: LatLng | null } | null>(null);
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
   const [isTracking, setIsTracking] = useState(false);
-  const [toast, setToast] = useState<{message: string, type: ToastType} | null>(null);
+  const [toast, setToast] = useState<{message: string, type: ToastType, action?: ToastAction} | null>(null);
   
-  // State for Job Completion
-  const [finishingPoint, setFinishingPoint] = useState<CustomerPoint | null>(null);
+  // State for Job Completion (outcome = ผลที่เลือกไว้ตอนเปิดหน้าส่งงาน เปลี่ยนได้ในหน้านั้น)
+  const [finishingJob, setFinishingJob] = useState<{ point: CustomerPoint, outcome: DeliveryOutcome } | null>(null);
+
+  // เวลาที่ระบบตรวจพบว่าถึงจุดส่ง (pointId -> ISO) และหมุดที่กำลังแจ้งเตือนว่าถึงแล้ว
+  const [arrivals, setArrivals] = useState<Record<string, string>>({});
+  const [arrivalPrompt, setArrivalPrompt] = useState<CustomerPoint | null>(null);
+
+  // ไฟล์สำรองที่อ่านแล้ว รอผู้ใช้ยืนยันการกู้คืน
+  const [restorePreview, setRestorePreview] = useState<BackupPreview | null>(null);
+
+  // ข้อมูลที่นำเข้าแล้วพบหมุดซ้ำ รอผู้ใช้เลือกว่าจะข้าม/รวม/เก็บ
+  const [pendingImport, setPendingImport] = useState<{ append: boolean, unique: CustomerPoint[], duplicates: DuplicateMatch[] } | null>(null);
+
+  // หน้าปักหมุดเอง: point = null คือเพิ่มลูกค้าใหม่, มีค่าคือแก้ไขหมุดนั้น
+  const [pinEditor, setPinEditor] = useState<{ point: CustomerPoint | null } | null>(null);
 
   const mapRef = useRef<MapViewerHandle>(null);
 
-  // Auto-save
+  // ค่าล่าสุดสำหรับงานเบื้องหลัง (ดึงออเดอร์อัตโนมัติ) ที่ไม่อยากสร้าง Timer ใหม่ทุกครั้ง
+  const pointsRef = useRef(points);
+  pointsRef.current = points;
+  const historyRef = useRef(history);
+  historyRef.current = history;
+
+  // คิวส่งข้อมูลไป Google Sheet (เก็บในเครื่อง ส่งซ้ำจนกว่า Script จะตอบรับ)
+  const [outboxItems, setOutboxItems] = useState<OutboxItem[]>([]);
+  const [isOutboxOpen, setIsOutboxOpen] = useState(false);
+  const outboxRef = useRef(createOutbox({
+    send: (item) => postSheetUpdate(item.url, { ...item.payload, requestId: item.id }),
+    save: saveOutbox,
+    onChange: setOutboxItems,
+  }));
+
+  // เลิกทำ/ทำซ้ำ ได้ทุกการแก้ไขหมุดและประวัติ ตลอดรอบการใช้งานนี้
+  const undoStackRef = useRef(createUndoStack<DataSnapshot>());
+
+  // ค้นหาสถานที่ตอนปักหมุดเอง (โหมดออฟไลน์ค้นจากร้าน หมุด และประวัติการส่งในเครื่อง)
+  const geocoder = useMemo(() => createGeocoder(settings.geocoder, settings.shop, (): GeocodeResult[] => [
+    { lat: settings.shop.lat, lng: settings.shop.lng, label: 'ร้าน' },
+    ...pointsRef.current.map(p => ({ lat: p.lat, lng: p.lng, label: p.orderNo ? `${p.name} (${p.orderNo})` : p.name })),
+    ...historyRef.current.map(h => ({ lat: h.location.lat, lng: h.location.lng, label: `${h.customerName} (เคยส่ง)` })),
+  ]), [settings.geocoder, settings.shop]);
+
+  // Load from IndexedDB (ย้ายข้อมูลจาก LocalStorage เดิมให้อัตโนมัติครั้งแรก)
+  useEffect(() => {
+    loadAppData()
+      .then(({ points, history, quarantined }) => {
+        setPoints(points);
+        setHistory(history);
+        if (quarantined > 0) {
+          setToast({ message: `พบข้อมูลเสีย ${quarantined} รายการ ระบบแยกเก็บไว้แล้ว ข้อมูลที่เหลือใช้งานได้ปกติ`, type: "info" });
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to load data from IndexedDB:", error);
+        setToast({ message: "เปิดฐานข้อมูลในเครื่องไม่ได้ ข้อมูลใหม่อาจไม่ถูกบันทึก", type: "error" });
+      })
+      .finally(() => setIsDataLoaded(true));
+  }, []);
+
+  // โหลดคิวที่ค้างจากรอบก่อน แล้วเริ่มส่ง
+  useEffect(() => {
+    let cancelled = false;
+    const outbox = outboxRef.current;
+    loadOutbox()
+      .catch((error) => {
+        console.error("Failed to load outbox:", error);
+        return [];
+      })
+      .then((items) => !cancelled && outbox.start(items));
+    return () => {
+      cancelled = true;
+      outbox.stop();
+    };
+  }, []);
+
+  // แจ้งเตือนเมื่อบันทึกไม่สำเร็จ (โดยเฉพาะพื้นที่เต็ม) แทนการเงียบหายไป
+  const handleStorageError = useCallback((error: unknown) => {
+    console.error("Failed to save data:", error);
+    if (isQuotaError(error)) {
+      setToast({ message: "พื้นที่จัดเก็บในเครื่องเต็ม กรุณาลบประวัติเก่าเพื่อบันทึกต่อ", type: "error" });
+    } else {
+      setToast({ message: "บันทึกข้อมูลลงเครื่องไม่สำเร็จ", type: "error" });
+    }
+  }, []);
+
+  // Auto-save (รอโหลดเสร็จก่อน ไม่งั้นจะเขียนค่าว่างทับข้อมูลเดิม)
   useEffect(() => {
-    localStorage.setItem('customerPoints', JSON.stringify(points));
-  }, [points]);
+    if (!isDataLoaded) return;
+    savePoints(points).catch(handleStorageError);
+  }, [points, isDataLoaded, handleStorageError]);
 
   useEffect(() => {
-    localStorage.setItem('deliveryHistory', JSON.stringify(history));
-  }, [history]);
+    if (!isDataLoaded) return;
+    saveHistory(history).catch(handleStorageError);
+  }, [history, isDataLoaded, handleStorageError]);
 
   // 🔥 FORCE UPDATE SCRIPT URL 🔥
   // โค้ดส่วนนี้จะทำงานทุกครั้งที่เปิดแอป เพื่อบังคับให้ใช้ URL ใหม่ล่าสุดเสมอ แก้ปัญหาลิงก์เก่าค้าง
   useEffect(() => {
     if (DEFAULT_SCRIPT_URL) {
-       const currentSaved = localStorage.getItem('googleScriptUrl');
+       const currentSaved = readPersisted('googleScriptUrl');
        if (currentSaved !== DEFAULT_SCRIPT_URL) {
           console.log("Updating Script URL to latest version...");
-          localStorage.setItem('googleScriptUrl', DEFAULT_SCRIPT_URL);
+          writePersisted('googleScriptUrl', DEFAULT_SCRIPT_URL);
        }
     }
   }, []);
@@ -66,101 +174,400 @@ const App: React.FC = () => {
     setToast({ message, type });
   }, []);
 
+  const applySnapshot = (snapshot: DataSnapshot) => {
+    // อัปเดต Ref ทันที เผื่อมีการแก้ไขต่อเนื่องก่อนหน้าจอ Render ใหม่
+    pointsRef.current = snapshot.points;
+    historyRef.current = snapshot.history;
+    setPoints(snapshot.points);
+    setHistory(snapshot.history);
+  };
+
+  // ทุกการแก้ไขหมุด/ประวัติผ่านฟังก์ชันนี้ เพื่อให้กด "เลิกทำ" จาก Toast ได้
+  const changeData = (label: string, next: Partial<DataSnapshot>, message: string, type: ToastType = "success", effects?: UndoEffects) => {
+    const current: DataSnapshot = { points: pointsRef.current, history: historyRef.current };
+    undoStackRef.current.record(label, current, effects);
+    applySnapshot({ ...current, ...next });
+    setToast({ message, type, action: { label: "เลิกทำ", onClick: handleUndo } });
+  };
+
+  // ประวัติที่กลับมาจาก "เลิกทำ"/"ทำซ้ำ" ใช้ Object URL ที่คืนไปแล้ว ต้องอ่านรูปจากฐานข้อมูลใหม่
+  const reloadRestoredPhotos = () => {
+    reloadPhotoUrls(historyRef.current)
+      .then((reloaded) => {
+        if (reloaded.length === 0) return;
+        const byId = new Map(reloaded.map(record => [record.id, record]));
+        historyRef.current = historyRef.current.map(record => byId.get(record.id) || record);
+        setHistory(historyRef.current);
+      })
+      .catch((error) => console.error("Failed to reload photos:", error));
+  };
+
+  const handleUndo = () => {
+    const entry = undoStackRef.current.undo({ points: pointsRef.current, history: historyRef.current });
+    if (!entry) return;
+    applySnapshot(entry.snapshot);
+    reloadRestoredPhotos();
+    entry.effects?.undo();
+    setToast({ message: `เลิกทำแล้ว: ${entry.label}`, type: "info", action: { label: "ทำซ้ำ", onClick: handleRedo } });
+  };
+
+  const handleRedo = () => {
+    const entry = undoStackRef.current.redo({ points: pointsRef.current, history: historyRef.current });
+    if (!entry) return;
+    applySnapshot(entry.snapshot);
+    reloadRestoredPhotos();
+    entry.effects?.redo();
+    setToast({ message: `ทำซ้ำแล้ว: ${entry.label}`, type: "info", action: { label: "เลิกทำ", onClick: handleUndo } });
+  };
+
+  const undoShortcutRef = useRef({ handleUndo, handleRedo });
+  undoShortcutRef.current = { handleUndo, handleRedo };
+
+  // Ctrl+Z / Ctrl+Shift+Z (หรือ Ctrl+Y) บนคอมพิวเตอร์ ยกเว้นตอนพิมพ์ในช่องกรอกข้อมูล
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undoShortcutRef.current.handleUndo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        undoShortcutRef.current.handleRedo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
   const handleDataParsed = (newPoints: CustomerPoint[], append: boolean) => {
     if (newPoints.length === 0 && !append) {
       if (window.confirm("คุณต้องการลบข้อมูลหมุดทั้งหมดใช่หรือไม่?")) {
-        setPoints([]);
-        handleShowToast("ลบข้อมูลทั้งหมดเรียบร้อยแล้ว", "info");
+        changeData(`ล้างหมุดทั้งหมด ${pointsRef.current.length} หมุด`, { points: [] }, "ลบข้อมูลทั้งหมดเรียบร้อยแล้ว", "info");
       }
       return;
     }
+    // ตรวจหมุดซ้ำก่อน (ทั้งกับหมุดเดิม และซ้ำกันเองในชุดที่วาง) ถ้ามีให้ผู้ใช้ตัดสินใจทีละรายการ
+    const { unique, duplicates } = findDuplicates(append ? points : [], newPoints);
+    if (duplicates.length > 0) {
+      setPendingImport({ append, unique, duplicates });
+      return;
+    }
     if (append) {
-      setPoints((prev: CustomerPoint[]) => [...prev, ...newPoints]);
-      handleShowToast(`เพิ่มลูกค้าใหม่ ${newPoints.length} รายเรียบร้อย`, "success");
+      changeData(`เพิ่มลูกค้า ${newPoints.length} ราย`, { points: [...pointsRef.current, ...newPoints] }, `เพิ่มลูกค้าใหม่ ${newPoints.length} รายเรียบร้อย`);
     } else {
-      setPoints(newPoints);
-      handleShowToast(`นำเข้าข้อมูลลูกค้า ${newPoints.length} รายเรียบร้อย`, "success");
+      changeData(`นำเข้าแทนที่ด้วย ${newPoints.length} ราย`, { points: newPoints }, `นำเข้าข้อมูลลูกค้า ${newPoints.length} รายเรียบร้อย`);
     }
   };
 
+  const handleConfirmDuplicates = (decisions: DuplicateAction[]) => {
+    if (!pendingImport) return;
+    const { append, unique, duplicates } = pendingImport;
+    const base = append ? [...pointsRef.current, ...unique] : unique;
+    setPendingImport(null);
+
+    const kept = decisions.filter(a => a === 'keep').length;
+    const merged = decisions.filter(a => a === 'merge').length;
+    const skipped = decisions.filter(a => a === 'skip').length;
+    changeData(
+      append ? `เพิ่มลูกค้า ${unique.length + kept} ราย` : `นำเข้าแทนที่ด้วย ${unique.length + kept} ราย`,
+      { points: applyDuplicateDecisions(base, duplicates, decisions) },
+      `เพิ่มลูกค้า ${unique.length + kept} ราย${merged ? ` · รวมกับหมุดเดิม ${merged}` : ''}${skipped ? ` · ข้าม ${skipped}` : ''}`
+    );
+  };
+
   const handleDeletePoint = (id: string) => {
-    setPoints((prev: CustomerPoint[]) => prev.filter((p: CustomerPoint) => p.id !== id));
-    handleShowToast("ลบหมุดเรียบร้อย", "info");
+    const point = pointsRef.current.find(p => p.id === id);
+    changeData(`ลบหมุด ${point?.name || ''}`.trim(), { points: pointsRef.current.filter(p => p.id !== id) }, "ลบหมุดเรียบร้อย", "info");
+  };
+
+  const handleEditPoint = useCallback((point: CustomerPoint) => {
+    setPinEditor({ point });
+  }, []);
+
+  const handleSavePin = (saved: CustomerPoint, pushToSheet: boolean) => {
+    const previous = pointsRef.current.find(p => p.id === saved.id);
+    setPinEditor(null);
+    const effects = pushToSheet ? sheetLocationEffects(saved, previous) : undefined;
+    if (!previous) {
+      changeData(`เพิ่มหมุด ${saved.name}`, { points: [...pointsRef.current, saved] }, `เพิ่มหมุด ${saved.name} เรียบร้อย`, "success", effects);
+    } else {
+      changeData(
+        `แก้ไขหมุด ${saved.name}`,
+        { points: pointsRef.current.map(p => (p.id === saved.id ? saved : p)) },
+        `บันทึกหมุด ${saved.name} เรียบร้อย${pushToSheet ? ' · กำลังส่งพิกัดใหม่ไปที่ Sheet' : ''}`,
+        "success",
+        effects
+      );
+    }
   };
 
   // Triggered when user clicks "Finish Job" in Map Popup
-  const handleStartFinishJob = (point: CustomerPoint) => {
-    setFinishingPoint(point);
+  const handleStartFinishJob = (point: CustomerPoint, outcome: DeliveryOutcome = 'delivered') => {
+    setFinishingJob({ point, outcome });
   };
 
-  // Function to update Google Sheet Status via Web App
-  const updateGoogleSheetStatus = async (originalName: string) => {
-    // บังคับใช้ DEFAULT_SCRIPT_URL เพื่อความชัวร์
-    const scriptUrl = DEFAULT_SCRIPT_URL; 
-    
-    // 🛠️ Logic ช่วยเติมคำนำหน้า: เพิ่มโอกาสหาชื่อเจอใน Sheet
-    // เช่น ในแอปชื่อ "ต้น" แต่ใน Sheet ชื่อ "คุณต้น" -> ถ้าเราส่ง "คุณต้น" ไป Google Script จะหาเจอทั้งคู่
-    let nameToSend = originalName.trim();
-    const noPrefixNeeded = /^(ร้าน|บริษัท|หจก|โรงเรียน|วัด|ธนาคาร|คุณ|Mr\.|Ms\.|Mrs\.)/.test(nameToSend);
-    if (!noPrefixNeeded) {
-        nameToSend = `คุณ${nameToSend}`;
-    }
+  // Triggered by MapViewer geofence when rider stops near a customer pin
+  const handleArrive = useCallback((point: CustomerPoint, arrivedAt: string) => {
+    setArrivals((prev) => ({ ...prev, [point.id]: arrivedAt }));
+    setArrivalPrompt(point);
+  }, []);
 
-    console.log(`Sending update for: "${nameToSend}" to ${scriptUrl}`);
+  const handleArrivalPhoto = () => {
+    if (!arrivalPrompt) return;
+    setFinishingJob({ point: arrivalPrompt, outcome: 'delivered' });
+    setArrivalPrompt(null);
+  };
 
-    try {
-      const payload = {
-        name: nameToSend, 
-        status: 'DELIVERED',
-        timestamp: new Date().toLocaleString('th-TH')
-      };
+  // Function to update Google Sheet Status via Web App (เข้าคิว Outbox ส่งเองเมื่อมีสัญญาณ)
+  const updateGoogleSheetStatus = (point: CustomerPoint, outcome: DeliveryOutcome, reason?: string) =>
+    // บังคับใช้ DEFAULT_SCRIPT_URL เพื่อความชัวร์
+    outboxRef.current.enqueue({
+      kind: 'status',
+      label: `${DELIVERY_OUTCOME_LABELS[outcome]}: ${point.name}${point.orderNo ? ` (${point.orderNo})` : ''}`,
+      url: DEFAULT_SCRIPT_URL,
+      payload: buildStatusUpdate(point, outcome, reason),
+    });
+
+  // "เลิกทำ" การส่งงาน: ยังไม่ถึง Sheet ถอนออกจากคิว / ถึงแล้วส่งสถานะเดิมกลับไปแทน
+  // "ทำซ้ำ" ส่งสถานะเดิมอีกครั้ง (สถานะใหม่แทนที่สถานะที่ยังค้างในคิวของออเดอร์เดียวกัน)
+  const sheetStatusEffects = (point: CustomerPoint, outcome: DeliveryOutcome, reason?: string): UndoEffects => {
+    let statusId = updateGoogleSheetStatus(point, outcome, reason);
+    return {
+      undo: () => {
+        if (outboxRef.current.cancel(statusId)) return;
+        outboxRef.current.enqueue({
+          kind: 'status',
+          label: `ย้อนสถานะ: ${point.name}${point.orderNo ? ` (${point.orderNo})` : ''}`,
+          url: DEFAULT_SCRIPT_URL,
+          payload: buildStatusRevert(point),
+        });
+      },
+      redo: () => {
+        statusId = updateGoogleSheetStatus(point, outcome, reason);
+      },
+    };
+  };
 
-      await fetch(scriptUrl, {
-        method: 'POST',
-        mode: 'no-cors', 
-        headers: {
-          'Content-Type': 'text/plain;charset=utf-8', 
-        },
-        body: JSON.stringify(payload)
-      });
-      
-      console.log(`Successfully sent signal to Google Sheet`);
-      
-    } catch (error) {
-      console.error("Failed to update Google Sheet:", error);
-      handleShowToast("ไม่สามารถอัปเดต Google Sheet ได้ (โปรดเช็คอินเทอร์เน็ต)", "error");
-    }
+  const updateGoogleSheetLocation = (point: CustomerPoint, label: string) =>
+    outboxRef.current.enqueue({
+      kind: 'location',
+      label: `${label} ${point.name}${point.orderNo ? ` (${point.orderNo})` : ''}`,
+      url: settings.sync.ordersUrl.trim() || readPersisted('googleScriptUrl') || DEFAULT_SCRIPT_URL,
+      payload: buildLocationUpdate(point),
+    });
+
+  // "เลิกทำ" การย้ายหมุด: ยังไม่ถึง Sheet ถอนออกจากคิว / ถึงแล้วส่งพิกัดเดิมกลับไปแทน
+  // (previous ไม่มี = หมุดใหม่ ไม่มีพิกัดเดิมให้ส่งกลับ)
+  const sheetLocationEffects = (saved: CustomerPoint, previous?: CustomerPoint): UndoEffects => {
+    let locationId = updateGoogleSheetLocation(saved, 'ย้ายหมุด');
+    return {
+      undo: () => {
+        if (outboxRef.current.cancel(locationId) || !previous) return;
+        updateGoogleSheetLocation(previous, 'ย้อนพิกัด:');
+      },
+      redo: () => {
+        locationId = updateGoogleSheetLocation(saved, 'ย้ายหมุด');
+      },
+    };
+  };
+
+  const openOutbox = () => {
+    const password = prompt("ใส่รหัส Admin เพื่อดูคิวส่งข้อมูล:");
+    if (password === '198') setIsOutboxOpen(true);
+    else if (password !== null) alert("รหัสไม่ถูกต้อง");
   };
 
-  // Triggered when photo is captured and confirmed
-  const handleConfirmFinishJob = (photoDataUrl: string) => {
-    if (!finishingPoint) return;
+  // Triggered when photo is captured and confirmed (หรือบันทึกว่าส่งไม่สำเร็จ)
+  const handleConfirmFinishJob = ({ outcome, reason, note, photos, recipientName, signatureDataUrl, devicePosition }: DeliveryProof) => {
+    if (!finishingJob) return;
+    const { point } = finishingJob;
+    const failed = isFailedOutcome(outcome);
+    const arrivedAt = arrivals[point.id];
 
     // 1. Update Google Sheet
-    updateGoogleSheetStatus(finishingPoint.name);
+    const sheetEffects = sheetStatusEffects(point, outcome, reason);
 
+    const now = new Date().toISOString();
     const record: DeliveryRecord = {
       id: `history-${Date.now()}`,
-      customerName: finishingPoint.name,
-      timestamp: new Date().toISOString(),
-      photoUrl: photoDataUrl,
-      location: { lat: finishingPoint.lat, lng: finishingPoint.lng }
+      customerName: point.name,
+      timestamp: now,
+      photos,
+      location: { lat: point.lat, lng: point.lng },
+      // ตำแหน่งจริงของผู้ส่งตอนกดยืนยัน เทียบกับหมุด (ไว้ตรวจงานที่กดส่งจากที่อื่น)
+      ...(devicePosition && {
+        deviceLocation: devicePosition,
+        distanceFromPin: getDistanceMeters(devicePosition.lat, devicePosition.lng, point.lat, point.lng),
+      }),
+      arrivedAt,
+      order: extractOrderDetails(point),
+      ...(recipientName && { recipientName }),
+      ...(signatureDataUrl && { signatureUrl: signatureDataUrl }),
+      ...(outcome !== 'delivered' && { outcome }),
+      ...(reason && { reason }),
+      ...(note && { note }),
     };
 
-    // Save to history
-    setHistory((prev: DeliveryRecord[]) => [...prev, record]);
-    
-    // Remove from active points
-    setPoints((prev: CustomerPoint[]) => prev.filter((p: CustomerPoint) => p.id !== finishingPoint.id));
+    // Save to history + Remove from active points
+    // ส่งไม่สำเร็จ: หมุดยังอยู่บนแผนที่ (เข้าคิวส่งซ้ำ) พร้อมเหตุผลล่าสุด
+    if (failed) {
+      const retried: CustomerPoint = {
+        ...point,
+        lastAttempt: { outcome, reason: reason || '', at: now },
+        attemptCount: (point.attemptCount || 0) + 1,
+      };
+      changeData(
+        `ส่งไม่สำเร็จ ${point.name}`,
+        {
+          history: [...historyRef.current, record],
+          points: pointsRef.current.map(p => p.id === point.id ? retried : p),
+        },
+        `บันทึกแล้ว: ${DELIVERY_OUTCOME_LABELS[outcome]} (รอส่งซ้ำ)`,
+        "info",
+        sheetEffects
+      );
+      // รอบหน้าต้องจับเวลาถึงใหม่ ไม่ใช้เวลาถึงของรอบที่ส่งไม่สำเร็จ
+      mapRef.current?.resetArrival(point.id);
+    } else {
+      changeData(
+        `ส่งงาน ${point.name}`,
+        {
+          history: [...historyRef.current, record],
+          points: pointsRef.current.filter(p => p.id !== point.id),
+        },
+        outcome === 'delivered' ? "🎉 ส่งงานสำเร็จ! บันทึกรูปภาพแล้ว" : `🎉 ${DELIVERY_OUTCOME_LABELS[outcome]} บันทึกรูปภาพแล้ว`,
+        "success",
+        sheetEffects
+      );
+    }
 
-    setFinishingPoint(null);
-    handleShowToast("🎉 ส่งงานสำเร็จ! บันทึกรูปภาพแล้ว", "success");
+    setArrivals((prev) => {
+      const { [point.id]: _finished, ...rest } = prev;
+      return rest;
+    });
+    setFinishingJob(null);
   };
 
   // ฟังก์ชันลบประวัติ (รองรับทั้งลบตัวเดียว และลบหลายตัว)
   const handleDeleteHistory = (ids: string[]) => {
-    setHistory((prev) => prev.filter((item) => !ids.includes(item.id)));
-    handleShowToast(`ลบประวัติ ${ids.length} รายการเรียบร้อย`, "info");
+    changeData(
+      `ลบประวัติ ${ids.length} รายการ`,
+      { history: historyRef.current.filter(item => !ids.includes(item.id)) },
+      `ลบประวัติ ${ids.length} รายการเรียบร้อย`,
+      "info"
+    );
+  };
+
+  const handleSaveSettings = (next: AppSettings) => {
+    setSettings(next);
+    saveSettings(next);
+    setIsSettingsOpen(false);
+    handleShowToast("บันทึกการตั้งค่าเรียบร้อย", "success");
+  };
+
+  const handleToggleMute = () => {
+    const next = { ...settings, voice: { ...settings.voice, muted: !settings.voice.muted } };
+    setSettings(next);
+    saveSettings(next);
+    // ตัดประโยคที่กำลังพูดอยู่ทันที ไม่ต้องรอพูดจบ
+    if (next.voice.muted) stopSpeaking();
+    handleShowToast(next.voice.muted ? "ปิดเสียงนำทาง" : "เปิดเสียงนำทาง", "info");
+  };
+
+  // ดึงออเดอร์ที่ยังไม่ส่งจาก Sheet (silent = ดึงอัตโนมัติ ไม่ต้องแจ้งถ้าไม่มีอะไรใหม่)
+  const handleSyncOrders = async (silent = false) => {
+    const url = settings.sync.ordersUrl.trim() || readPersisted('googleScriptUrl') || DEFAULT_SCRIPT_URL;
+    try {
+      const { points: incoming, skipped } = await fetchPendingOrders(url, settings.shop, getResolverUrl(settings.sync));
+      const { added, duplicates } = mergeSyncedOrders(pointsRef.current, historyRef.current, incoming);
+
+      if (added.length > 0) {
+        changeData(
+          `ดึงออเดอร์ใหม่ ${added.length} รายการ`,
+          { points: [...pointsRef.current, ...added] },
+          `ดึงออเดอร์ใหม่ ${added.length} รายการ${skipped.length ? ` (ข้าม ${skipped.length} รายการที่หาพิกัดไม่ได้)` : ''}`
+        );
+      } else if (!silent) {
+        handleShowToast(
+          skipped.length
+            ? `ไม่มีออเดอร์ใหม่ (ข้าม ${skipped.length} รายการที่หาพิกัดไม่ได้: ${skipped.map(s => `${s.label} - ${s.reason}`).join(', ')})`
+            : `ไม่มีออเดอร์ใหม่${duplicates ? ` (มีหมุดอยู่แล้ว ${duplicates} รายการ)` : ''}`,
+          "info"
+        );
+      }
+    } catch (error) {
+      console.error("Failed to sync orders:", error);
+      if (!silent) handleShowToast("ดึงออเดอร์จาก Sheet ไม่สำเร็จ (โปรดเช็คอินเทอร์เน็ตหรือลิงก์ Script)", "error");
+    }
+  };
+
+  const syncOrdersRef = useRef(handleSyncOrders);
+  syncOrdersRef.current = handleSyncOrders;
+
+  // ดึงออเดอร์อัตโนมัติทุก N นาทีขณะเปิดแอปอยู่
+  useEffect(() => {
+    if (!isDataLoaded || settings.sync.pollMinutes <= 0) return;
+    const timer = setInterval(() => {
+      if (document.visibilityState === 'visible') syncOrdersRef.current(true);
+    }, settings.sync.pollMinutes * 60 * 1000);
+    return () => clearInterval(timer);
+  }, [isDataLoaded, settings.sync.pollMinutes]);
+
+  const handleBackup = async () => {
+    try {
+      const blob = await createBackup(points, history, settings, readPersisted('googleScriptUrl'), readPersisted('seoulgood_logo'));
+      downloadBackup(blob);
+      handleShowToast(`สำรองข้อมูลแล้ว (${points.length} หมุด, ${history.length} ประวัติ)`, "success");
+    } catch (error) {
+      console.error("Backup failed:", error);
+      handleShowToast("สำรองข้อมูลไม่สำเร็จ", "error");
+    }
+  };
+
+  const handleRestoreFile = async (file: File) => {
+    try {
+      setRestorePreview(await readBackupFile(file, { points, history }));
+    } catch (error) {
+      handleShowToast(error instanceof Error ? error.message : "อ่านไฟล์สำรองไม่สำเร็จ", "error");
+    }
+  };
+
+  const handleConfirmRestore = async (mode: RestoreMode, includeSettings: boolean) => {
+    if (!restorePreview) return;
+    if (mode === 'replace') {
+      const password = prompt("การแทนที่จะลบหมุดและประวัติในเครื่องนี้ทั้งหมด\nกรุณาใส่รหัสผ่านเพื่อยืนยัน:");
+      if (password === null) return;
+      if (password !== '198') {
+        alert("รหัสผ่านไม่ถูกต้อง");
+        return;
+      }
+    }
+
+    const { data } = restorePreview;
+    const restored = applyBackup({ points, history }, data, mode);
+    try {
+      // เขียนลงฐานข้อมูลให้เสร็จก่อน แล้วโหลดแอปใหม่ให้ทุกส่วน (Logo, หมุดร้าน) ใช้ค่าใหม่
+      await savePoints(restored.points);
+      await saveHistory(restored.history, mode === 'replace');
+      if (includeSettings) {
+        // ไฟล์สำรองไม่มี API Key (ตรวจค่าแล้วตอนอ่านไฟล์) ใช้ Key ที่ตั้งไว้ในเครื่องนี้ต่อ
+        const apiKey = data.settings.routing.apiKey ?? settings.routing.apiKey;
+        saveSettings({ ...data.settings, routing: { ...data.settings.routing, ...(apiKey && { apiKey }) } });
+        if (data.googleScriptUrl) writePersisted('googleScriptUrl', data.googleScriptUrl);
+        if (data.logo) writePersisted('seoulgood_logo', data.logo);
+        else removePersisted('seoulgood_logo');
+      }
+    } catch (error) {
+      handleStorageError(error);
+      return;
+    }
+
+    setRestorePreview(null);
+    alert(`กู้คืนข้อมูลเรียบร้อย (${restored.points.length} หมุด, ${restored.history.length} ประวัติ)\nแอปจะโหลดใหม่`);
+    window.location.reload();
   };
 
   const toggleTracking = () => {
@@ -171,27 +578,79 @@ const App: React.FC = () => {
     if (mapRef.current) mapRef.current.resetToShop();
   };
 
+  const openCustomerList = () => {
+    setCustomerList({ riderPosition: mapRef.current?.getUserPosition() ?? null });
+  };
+
+  const focusPoint = (id: string) => {
+    setCustomerList(null);
+    mapRef.current?.focusPoint(id);
+  };
+
+  const navigateToPoint = (id: string) => {
+    setCustomerList(null);
+    mapRef.current?.navigateToPoint(id);
+  };
+
+  const planTrip = () => {
+    if (!mapRef.current) return;
+    const returnToShop = window.confirm("ส่งครบทุกจุดแล้วกลับมาที่ร้านด้วยหรือไม่?");
+    mapRef.current.planTrip(returnToShop);
+  };
+
+  // เติม "คุณ" ให้ชื่อลูกค้าบนแถบแจ้งเตือนถึงแล้ว (เหมือนใน Popup)
+  const arrivalDisplayName = arrivalPrompt ? displayName(arrivalPrompt.name) : '';
+
+  const outboxFailedCount = outboxItems.filter(item => item.status === 'failed').length;
+
   return (
     <div className="relative w-screen h-screen overflow-hidden bg-slate-100 flex flex-col">
       
-      {toast && <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} />}
+      {toast && <Toast message={toast.message} type={toast.type} action={toast.action} onClose={() => setToast(null)} />}
 
-      <Header />
+      <Header onOpenSettings={() => setIsSettingsOpen(true)} />
+
+      {!isDataLoaded && (
+        <div className="fixed inset-0 z-[3000] bg-slate-100/90 flex flex-col items-center justify-center gap-3 text-slate-600">
+          <Loader2 className="w-10 h-10 animate-spin text-blue-600" />
+          <span className="font-bold">กำลังโหลดข้อมูล...</span>
+        </div>
+      )}
 
       <div className="flex-1 w-full relative pb-20">
          <MapViewer 
             ref={mapRef} 
             points={points} 
             onDeletePoint={handleDeletePoint} 
+            onEditPoint={handleEditPoint}
             onFinishJob={handleStartFinishJob}
             onTrackingChange={setIsTracking}
             onShowToast={handleShowToast}
+            routingSettings={settings.routing}
+            voiceSettings={settings.voice}
+            onToggleMute={handleToggleMute}
+            gpsSettings={settings.gps}
+            onArrive={handleArrive}
+            shopLocation={settings.shop}
          />
       </div>
 
       <div className="fixed bottom-0 left-0 w-full bg-white shadow-[0_-4px_15px_-3px_rgba(0,0,0,0.1)] border-t border-slate-100 z-[1100] px-4 py-3 pb-6 flex items-center justify-between gap-3">
+        {/* คิวส่งข้อมูลไป Sheet ที่ยังค้าง (แตะเพื่อตรวจ/ส่งใหม่ สำหรับ Admin) */}
+        {outboxItems.length > 0 && (
+          <button
+            onClick={openOutbox}
+            className={`absolute -top-4 left-1/2 -translate-x-1/2 flex items-center gap-1 px-3 py-1 rounded-full text-[11px] font-bold shadow-md border ${
+              outboxFailedCount > 0 ? 'bg-red-50 text-red-700 border-red-200' : 'bg-amber-50 text-amber-800 border-amber-200'
+            }`}
+          >
+            {outboxFailedCount > 0 ? <CloudOff className="w-3.5 h-3.5" /> : <CloudUpload className="w-3.5 h-3.5 animate-pulse" />}
+            รอส่ง Sheet {outboxItems.length - outboxFailedCount}
+            {outboxFailedCount > 0 && ` · ล้มเหลว ${outboxFailedCount}`}
+          </button>
+        )}
         <button
-          onClick={() => setIsDataInputOpen(true)}
+          onClick={openCustomerList}
           className="flex flex-col items-center justify-center p-2 rounded-xl text-slate-500 hover:bg-slate-50 active:scale-95 transition-all w-20"
         >
           <div className="bg-slate-100 p-2 rounded-full mb-1 relative">
@@ -235,30 +694,140 @@ const App: React.FC = () => {
         </button>
       </div>
 
+      {/* Arrival Prompt (Geofence) */}
+      {arrivalPrompt && !finishingJob && (
+        <div className="fixed bottom-28 left-4 right-4 z-[1150] flex items-stretch gap-2 animate-in slide-in-from-bottom-4">
+          <button
+            onClick={handleArrivalPhoto}
+            className="flex-1 flex items-center gap-4 p-4 bg-emerald-600 text-white rounded-2xl shadow-2xl ring-4 ring-emerald-100 active:scale-95 transition-all text-left"
+          >
+            <div className="bg-white/20 p-3 rounded-full flex-shrink-0">
+              <Camera className="w-8 h-8" />
+            </div>
+            <div>
+              <p className="text-xl font-black leading-tight">ถึงแล้ว — ถ่ายรูปส่งงาน</p>
+              <p className="text-sm font-bold opacity-90">
+                {arrivalDisplayName}
+              </p>
+            </div>
+          </button>
+          <button
+            onClick={() => setArrivalPrompt(null)}
+            className="px-3 bg-white text-slate-500 rounded-2xl shadow-2xl border border-slate-200 active:scale-95 transition-all"
+            title="ปิด"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+      )}
+
       {/* Modals */}
+      {customerList && (
+        <CustomerList
+          points={points}
+          arrivals={arrivals}
+          riderPosition={customerList.riderPosition}
+          shopLocation={settings.shop}
+          routingSettings={settings.routing}
+          onFocus={focusPoint}
+          onNavigate={navigateToPoint}
+          onOpenDataInput={() => { setCustomerList(null); setIsDataInputOpen(true); }}
+          onClose={() => setCustomerList(null)}
+        />
+      )}
+
       <DataInput 
         onDataParsed={handleDataParsed} 
         points={points} 
         isOpen={isDataInputOpen}
         onClose={() => setIsDataInputOpen(false)}
+        onSyncOrders={() => handleSyncOrders()}
+        getPlannedRoute={() => mapRef.current?.getPlannedRoute() ?? null}
       />
 
+      {pendingImport && (
+        <DuplicateReview
+          duplicates={pendingImport.duplicates}
+          uniqueCount={pendingImport.unique.length}
+          onConfirm={handleConfirmDuplicates}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
       {isHistoryOpen && (
-        <HistoryViewer 
+        <HistoryViewer
           history={history} 
+          farFromPinMeters={settings.gps.farFromPinMeters}
           onDeleteHistory={handleDeleteHistory}
           onClose={() => setIsHistoryOpen(false)} 
         />
       )}
 
-      {finishingPoint && (
+      {isSettingsOpen && (
+        <SettingsPanel
+          settings={settings}
+          onSave={handleSaveSettings}
+          onClose={() => setIsSettingsOpen(false)}
+          onBackup={handleBackup}
+          onRestoreFile={handleRestoreFile}
+        />
+      )}
+
+      {restorePreview && (
+        <RestoreDialog
+          preview={restorePreview}
+          onConfirm={handleConfirmRestore}
+          onCancel={() => setRestorePreview(null)}
+        />
+      )}
+
+      {pinEditor && (
+        <PinEditor
+          point={pinEditor.point}
+          shopLocation={settings.shop}
+          geocoder={geocoder}
+          onSave={handleSavePin}
+          onCancel={() => setPinEditor(null)}
+        />
+      )}
+
+      {isOutboxOpen && (
+        <OutboxPanel
+          items={outboxItems}
+          onResend={(id) => outboxRef.current.resend(id)}
+          onResendAll={() => outboxRef.current.resendAll()}
+          onRemove={(id) => outboxRef.current.remove(id)}
+          onClose={() => setIsOutboxOpen(false)}
+        />
+      )}
+
+      {finishingJob && (
         <PhotoCapture 
-          point={finishingPoint} 
+          point={finishingJob.point} 
+          initialOutcome={finishingJob.outcome}
           onConfirm={handleConfirmFinishJob} 
-          onCancel={() => setFinishingPoint(null)} 
+          onCancel={() => setFinishingJob(null)} 
         />
       )}
 
+      {/* Add Customer Manually Button (Floating) */}
+      <button
+        onClick={() => setPinEditor({ point: null })}
+        className="fixed bottom-[17rem] right-4 bg-white p-3 rounded-full shadow-lg border border-slate-200 text-emerald-600 z-[1000] hover:bg-emerald-50 active:scale-90 transition-all"
+        title="เพิ่มลูกค้าเอง (ปักหมุด)"
+      >
+        <MapPin className="w-6 h-6" />
+      </button>
+
+      {/* Plan Trip Button (Floating) */}
+      <button
+        onClick={planTrip}
+        className="fixed bottom-52 right-4 bg-white p-3 rounded-full shadow-lg border border-slate-200 text-blue-600 z-[1000] hover:bg-blue-50 active:scale-90 transition-all"
+        title="วางแผนทริปส่งทุกจุด"
+      >
+        <Route className="w-6 h-6" />
+      </button>
+
       {/* Quick Return Button (Floating) */}
       <button
         onClick={resetToShop}
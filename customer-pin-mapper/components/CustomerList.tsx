@@ -0,0 +1,221 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Search, Navigation, MapPin, Loader2, Upload, Route, Ruler } from 'lucide-react';
+import { CustomerPoint, PAYMENT_METHOD_LABELS, DELIVERY_OUTCOME_LABELS } from '../types';
+import { RoutingSettings } from '../services/settingsService';
+import { createRoutingProvider, getDistancesFrom } from '../services/routingService';
+import { LatLng, sortByDistance, formatDistance } from '../services/geoService';
+import { displayName } from '../services/customerName';
+
+interface CustomerListProps {
+  points: CustomerPoint[];
+  arrivals: Record<string, string>; // pointId -> เวลาที่ถึงจุดส่ง
+  riderPosition: LatLng | null;     // null = ยังไม่เปิด GPS ใช้ระยะจากร้านแทน
+  shopLocation: LatLng;
+  routingSettings: RoutingSettings;
+  onFocus: (id: string) => void;
+  onNavigate: (id: string) => void;
+  onOpenDataInput: () => void;
+  onClose: () => void;
+}
+
+type SortMode = 'straight' | 'road';
+type StatusFilter = 'all' | 'retry' | 'arrived' | 'window' | 'collect';
+
+const STATUS_FILTER_LABELS: Record<StatusFilter, string> = {
+  all: 'ทั้งหมด',
+  retry: 'รอส่งซ้ำ',
+  arrived: 'ถึงแล้ว',
+  window: 'มีนัดเวลา',
+  collect: 'เก็บเงิน',
+};
+
+const nowHHmm = () => new Date().toTimeString().slice(0, 5);
+
+const needsCollection = (p: CustomerPoint) => p.amountDue != null && p.paymentMethod !== 'paid';
+
+const matchesStatus = (p: CustomerPoint, filter: StatusFilter, arrivals: Record<string, string>) => {
+  switch (filter) {
+    case 'retry': return Boolean(p.lastAttempt);
+    case 'arrived': return Boolean(arrivals[p.id]);
+    case 'window': return Boolean(p.deliveryWindow);
+    case 'collect': return needsCollection(p);
+    default: return true;
+  }
+};
+
+export const CustomerList: React.FC<CustomerListProps> = ({
+  points, arrivals, riderPosition, shopLocation, routingSettings, onFocus, onNavigate, onOpenDataInput, onClose
+}) => {
+  const [query, setQuery] = useState('');
+  const [sortMode, setSortMode] = useState<SortMode>('straight');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  // ระยะทางถนน (pointId -> เมตร) คำนวณเมื่อเลือกเรียงตามระยะถนน
+  const [roadDistances, setRoadDistances] = useState<Record<string, number> | null>(null);
+  const [isRoadFallback, setIsRoadFallback] = useState(false);
+  const [isLoadingRoad, setIsLoadingRoad] = useState(false);
+
+  const origin = riderPosition || shopLocation;
+
+  useEffect(() => {
+    if (sortMode !== 'road' || points.length === 0) return;
+    let cancelled = false;
+    setIsLoadingRoad(true);
+    getDistancesFrom(createRoutingProvider(routingSettings), origin, points)
+      .then(({ distances, isRoad }) => {
+        if (cancelled) return;
+        setRoadDistances(Object.fromEntries(points.map((p, i) => [p.id, distances[i]])));
+        setIsRoadFallback(!isRoad);
+      })
+      .finally(() => !cancelled && setIsLoadingRoad(false));
+    return () => { cancelled = true; };
+    // คำนวณใหม่เมื่อรายชื่อเปลี่ยน (ไม่ใช่ทุกครั้งที่ GPS ขยับ)
+  }, [sortMode, points, routingSettings]);
+
+  const rows = useMemo(() => {
+    const keyword = query.trim().toLowerCase().replace(/^#\s*/, '');
+    const filtered = points.filter(p =>
+      matchesStatus(p, statusFilter, arrivals) &&
+      (!keyword ||
+        p.name.toLowerCase().includes(keyword) ||
+        (p.orderNo || '').toLowerCase().replace(/^#\s*/, '').includes(keyword) ||
+        (p.phone || '').includes(keyword))
+    );
+    const sorted = sortByDistance(origin, filtered);
+    if (sortMode !== 'road' || !roadDistances) return sorted;
+    return sorted
+      .map(p => ({ ...p, distance: roadDistances[p.id] ?? p.distance }))
+      .sort((a, b) => a.distance - b.distance);
+  }, [points, query, statusFilter, arrivals, origin, sortMode, roadDistances]);
+
+  const now = nowHHmm();
+
+  return (
+    <div className="fixed inset-0 z-[2000] bg-black/50 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-slate-50">
+          <div>
+            <h2 className="text-xl font-bold text-slate-800">รายชื่อลูกค้า</h2>
+            <p className="text-sm text-slate-500">
+              รอส่ง {points.length} ราย · ระยะจาก{riderPosition ? 'ตำแหน่งของคุณ' : 'ร้าน (ยังไม่เปิด GPS)'}
+            </p>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={onOpenDataInput}
+              className="flex items-center gap-1 text-xs font-bold text-blue-600 bg-blue-50 hover:bg-blue-100 px-3 py-2 rounded-lg"
+            >
+              <Upload className="w-4 h-4" />
+              นำเข้า/ส่งออก
+            </button>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-2">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        {/* Search & Sort */}
+        <div className="px-4 py-3 border-b border-gray-100 space-y-2">
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="ค้นหาชื่อ / เลขออเดอร์ / เบอร์โทร"
+                className="w-full pl-9 pr-2 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+              <Search className="absolute left-2.5 top-2.5 text-gray-400 w-4 h-4" />
+            </div>
+            <div className="flex rounded-lg overflow-hidden border border-slate-200">
+              <button
+                onClick={() => setSortMode('straight')}
+                className={`px-3 text-xs font-bold flex items-center gap-1 ${sortMode === 'straight' ? 'bg-blue-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+                title="เรียงตามระยะเส้นตรง"
+              >
+                <Ruler className="w-3.5 h-3.5" /> เส้นตรง
+              </button>
+              <button
+                onClick={() => setSortMode('road')}
+                className={`px-3 text-xs font-bold flex items-center gap-1 ${sortMode === 'road' ? 'bg-blue-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+                title="เรียงตามระยะทางถนน"
+              >
+                {isLoadingRoad ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Route className="w-3.5 h-3.5" />} ถนน
+              </button>
+            </div>
+          </div>
+          <div className="flex items-center gap-2 text-xs flex-wrap">
+            {(Object.keys(STATUS_FILTER_LABELS) as StatusFilter[]).map(filter => (
+              <button
+                key={filter}
+                onClick={() => setStatusFilter(filter)}
+                className={`px-3 py-1 rounded-full border font-bold transition-colors ${
+                  statusFilter === filter ? 'bg-slate-800 text-white border-slate-800' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-100'
+                }`}
+              >
+                {STATUS_FILTER_LABELS[filter]}
+              </button>
+            ))}
+            {sortMode === 'road' && isRoadFallback && (
+              <span className="text-amber-600 font-bold">คำนวณระยะถนนไม่ได้ ใช้ระยะเส้นตรงแทน</span>
+            )}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 bg-slate-100 space-y-2">
+          {rows.length === 0 && (
+            <p className="text-center text-slate-400 py-10">
+              {points.length === 0 ? 'ยังไม่มีหมุดลูกค้า' : 'ไม่พบลูกค้าที่ตรงกับการค้นหา'}
+            </p>
+          )}
+          {rows.map(point => {
+            const isLate = point.deliveryWindow && point.deliveryWindow.end < now;
+            return (
+              <div key={point.id} className="bg-white rounded-xl border border-slate-200 p-3 flex items-center gap-3">
+                <button onClick={() => onFocus(point.id)} className="flex-1 min-w-0 text-left">
+                  <div className="flex items-baseline gap-2">
+                    <p className="font-bold text-slate-800 truncate">{displayName(point.name)}</p>
+                    <span className="text-xs font-bold text-blue-600 flex-shrink-0">{formatDistance(point.distance)}</span>
+                  </div>
+                  <div className="flex flex-wrap gap-1 mt-1 text-[10px] font-bold">
+                    {point.orderNo && <span className="bg-slate-100 text-slate-700 px-2 py-0.5 rounded-md">{point.orderNo}</span>}
+                    {point.lastAttempt && (
+                      <span className="bg-red-100 text-red-700 px-2 py-0.5 rounded-md">
+                        ส่งไม่สำเร็จ{point.attemptCount && point.attemptCount > 1 ? ` ${point.attemptCount} ครั้ง` : ''}: {DELIVERY_OUTCOME_LABELS[point.lastAttempt.outcome]} — {point.lastAttempt.reason}
+                      </span>
+                    )}
+                    {arrivals[point.id] && <span className="bg-emerald-100 text-emerald-800 px-2 py-0.5 rounded-md">ถึงแล้ว</span>}
+                    {point.deliveryWindow && (
+                      <span className={`px-2 py-0.5 rounded-md ${isLate ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-800'}`}>
+                        {isLate ? 'เลยเวลา ' : 'ส่ง '}{point.deliveryWindow.start}-{point.deliveryWindow.end}
+                      </span>
+                    )}
+                    {needsCollection(point) && (
+                      <span className="bg-red-50 text-red-600 px-2 py-0.5 rounded-md">
+                        เก็บ ฿{point.amountDue!.toLocaleString('th-TH')}{point.paymentMethod ? ` (${PAYMENT_METHOD_LABELS[point.paymentMethod]})` : ''}
+                      </span>
+                    )}
+                    {point.paymentMethod === 'paid' && <span className="bg-emerald-50 text-emerald-700 px-2 py-0.5 rounded-md">จ่ายแล้ว</span>}
+                  </div>
+                </button>
+                <button
+                  onClick={() => onFocus(point.id)}
+                  className="p-2 rounded-lg text-slate-500 hover:bg-slate-100"
+                  title="ดูบนแผนที่"
+                >
+                  <MapPin className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={() => onNavigate(point.id)}
+                  className="p-2 rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 shadow-sm"
+                  title="นำทาง (ในแอป)"
+                >
+                  <Navigation className="w-5 h-5" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
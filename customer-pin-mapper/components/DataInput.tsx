@@ -1,6 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { CustomerPoint } from '../types';
-import { Plus, Trash2, HelpCircle, Download, FileText, ExternalLink, X, Settings, Link as LinkIcon } from 'lucide-react';
+import { CustomerPoint, PlannedRoute } from '../types';
+import { Plus, Trash2, HelpCircle, Download, FileText, ExternalLink, X, Settings, Link as LinkIcon, RefreshCw, Upload, Route } from 'lucide-react';
+import { readPersisted, writePersisted } from '../services/persistedState';
+import { splitRows } from '../services/sheetImport';
+import { GeoFormat, GEO_FORMAT_LABELS, GEO_FILE_ACCEPT, pointsToDocument, routeToDocument, downloadGeoFile, parseGeoFile } from '../services/geoFormats';
+import { ImportWizard } from './ImportWizard';
 import { DEFAULT_SCRIPT_URL } from '../App'; // Import ค่า Default มาแสดง
 
 interface DataInputProps {
@@ -8,6 +12,8 @@ interface DataInputProps {
   points: CustomerPoint[];
   isOpen: boolean;        // ควบคุมการเปิดปิดจาก App.tsx
   onClose: () => void;    // ฟังก์ชันปิดจาก App.tsx
+  onSyncOrders: () => Promise<void>; // ดึงออเดอร์ที่ยังไม่ส่งจาก Apps Script
+  getPlannedRoute: () => PlannedRoute | null; // ทริปที่วางแผนไว้บนแผนที่ (ไว้ส่งออกเส้นทาง)
 }
 
 // ลิงก์ Google Sheet ของลูกค้า
@@ -18,9 +24,12 @@ const SAMPLE_DATA = `2025-12-14	06:34:59	#01	คุณต้น	...	...	...	http
 2025-12-14	06:40:00	#02	คุณหญิง	...	...	...	https://www.google.com/maps?q=16.435000,103.500000
 2025-12-14	07:00:23	#03	ร้านกาแฟ A	...	...	...	https://www.google.com/maps?q=16.445000,103.490000`;
 
-export const DataInput: React.FC<DataInputProps> = ({ onDataParsed, points, isOpen, onClose }) => {
+export const DataInput: React.FC<DataInputProps> = ({ onDataParsed, points, isOpen, onClose, onSyncOrders, getPlannedRoute }) => {
   const [inputText, setInputText] = useState('');
+  const [geoFormat, setGeoFormat] = useState<GeoFormat>('geojson');
   const [appendMode, setAppendMode] = useState(true);
+  const [wizardRows, setWizardRows] = useState<string[][] | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
   
   // State สำหรับ Web App URL
   const [showScriptConfig, setShowScriptConfig] = useState(false);
@@ -28,7 +37,7 @@ export const DataInput: React.FC<DataInputProps> = ({ onDataParsed, points, isOp
 
   // โหลด URL จาก LocalStorage เมื่อ component ถูก mount
   useEffect(() => {
-    const savedUrl = localStorage.getItem('googleScriptUrl');
+    const savedUrl = readPersisted('googleScriptUrl');
     // ถ้ามีค่าที่ Save ไว้ให้ใช้ท่านั้น ถ้าไม่มีให้ใช้ค่า Default ที่เราฝังไว้
     setScriptUrl(savedUrl || DEFAULT_SCRIPT_URL);
   }, []);
@@ -37,88 +46,33 @@ export const DataInput: React.FC<DataInputProps> = ({ onDataParsed, points, isOp
   const handleScriptUrlChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const url = e.target.value;
     setScriptUrl(url);
-    localStorage.setItem('googleScriptUrl', url);
+    // เก็บเฉพาะลิงก์ที่ถูกต้อง ระหว่างพิมพ์ยังไม่ครบจะยังไม่บันทึก
+    if (/^https?:\/\//.test(url.trim())) writePersisted('googleScriptUrl', url.trim());
   };
 
-  const extractCoordsFromUrl = (url: string): { lat: number, lng: number } | null => {
-    try {
-      const qMatch = url.match(/q=([-+]?\d+\.\d+),([-+]?\d+\.\d+)/);
-      if (qMatch) return { lat: parseFloat(qMatch[1]), lng: parseFloat(qMatch[2]) };
-
-      const atMatch = url.match(/@([-+]?\d+\.\d+),([-+]?\d+\.\d+)/);
-      if (atMatch) return { lat: parseFloat(atMatch[1]), lng: parseFloat(atMatch[2]) };
-
-      return null;
-    } catch (e) {
-      return null;
+  // แยกแถว/คอลัมน์ แล้วเปิดหน้าตรวจสอบคอลัมน์ก่อนเพิ่มหมุดจริง
+  const handleParse = () => {
+    const rows = splitRows(inputText);
+    if (rows.length === 0) {
+      alert('กรุณาวางข้อมูลจาก Sheet ก่อน');
+      return;
     }
+    setWizardRows(rows);
   };
 
-  const handleParse = () => {
-    const lines = inputText.trim().split('\n');
-    const parsedPoints: CustomerPoint[] = [];
-
-    lines.forEach((line, index) => {
-      if (!line.trim()) return;
-
-      // แยกข้อมูลด้วย Tab (Sheet) หรือ Comma (CSV)
-      let parts = line.split('\t');
-      if (parts.length <= 1) parts = line.split(',');
-      
-      // ลบช่องว่างและกรองข้อมูลเปล่าทิ้ง
-      parts = parts.map(p => p.trim());
-
-      let lat: number | null = null;
-      let lng: number | null = null;
-      let name = `Customer ${index + 1}`;
-
-      // 1. หาตำแหน่งของ Link Map
-      const mapLinkIndex = parts.findIndex(p => p.includes('google.com/maps') || p.includes('maps.app.goo.gl'));
-
-      if (mapLinkIndex !== -1) {
-        const coords = extractCoordsFromUrl(parts[mapLinkIndex]);
-        if (coords) {
-          lat = coords.lat;
-          lng = coords.lng;
-
-          // 2. Logic การหาชื่อ
-          if (parts.length > 6) {
-             if (parts[3]) name = parts[3];
-          } else if (parts.length === 2) {
-             name = parts[mapLinkIndex === 0 ? 1 : 0];
-          } else if (parts.length >= 3 && parts.length <= 6) {
-             name = parts[0];
-          }
-        }
-      } else {
-        // Fallback: รองรับ CSV แบบเก่า
-        if (parts.length >= 2) {
-           const tryLat = parseFloat(parts[0]);
-           const tryLng = parseFloat(parts[1]);
-           if (!isNaN(tryLat) && !isNaN(tryLng)) {
-              lat = tryLat;
-              lng = tryLng;
-              if (parts[2]) name = parts[2];
-           }
-        }
-      }
-
-      if (lat !== null && lng !== null) {
-        parsedPoints.push({
-          id: `p-${Date.now()}-${index}`,
-          name,
-          lat,
-          lng,
-        });
-      }
-    });
+  const handleWizardConfirm = (parsedPoints: CustomerPoint[]) => {
+    onDataParsed(parsedPoints, appendMode);
+    setWizardRows(null);
+    setInputText('');
+    onClose(); // ปิด Modal เมื่อสำเร็จ
+  };
 
-    if (parsedPoints.length > 0) {
-      onDataParsed(parsedPoints, appendMode);
-      setInputText('');
-      onClose(); // ปิด Modal เมื่อสำเร็จ
-    } else {
-      alert('ไม่พบข้อมูลพิกัดแผนที่ที่ถูกต้อง\nกรุณาตรวจสอบว่า Copy ลิงก์ Google Maps มาด้วยหรือไม่');
+  const handleSync = async () => {
+    setIsSyncing(true);
+    try {
+      await onSyncOrders();
+    } finally {
+      setIsSyncing(false);
     }
   };
 
@@ -145,6 +99,42 @@ export const DataInput: React.FC<DataInputProps> = ({ onDataParsed, points, isOp
     document.body.removeChild(link);
   };
 
+  const handleExportGeo = () => {
+    if (points.length === 0) {
+      alert("ไม่มีข้อมูลให้ดาวน์โหลด");
+      return;
+    }
+    downloadGeoFile(pointsToDocument(points), geoFormat, 'customer_locations');
+  };
+
+  const handleExportRoute = () => {
+    const route = getPlannedRoute();
+    if (!route || route.stops.length === 0) {
+      alert("ยังไม่ได้วางแผนทริป กรุณากดปุ่มวางแผนทริปบนแผนที่ก่อน");
+      return;
+    }
+    downloadGeoFile(routeToDocument(route), geoFormat, 'delivery_route');
+  };
+
+  // นำเข้าหมุดจากไฟล์ GPX / KML / GeoJSON (ผ่านการตรวจหมุดซ้ำเหมือนการวางจาก Sheet)
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { format, points: imported, skipped } = parseGeoFile(file.name, await file.text());
+      if (imported.length === 0) {
+        alert(`ไม่พบหมุดในไฟล์ ${GEO_FORMAT_LABELS[format]} นี้`);
+        return;
+      }
+      if (skipped > 0) alert(`ข้ามรายการที่ไม่ใช่หมุดหรือพิกัดไม่ถูกต้อง ${skipped} รายการ`);
+      onDataParsed(imported, appendMode);
+      onClose();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "อ่านไฟล์ไม่สำเร็จ");
+    }
+  };
+
   const loadSample = () => {
     setInputText(SAMPLE_DATA);
   };
@@ -191,6 +181,29 @@ export const DataInput: React.FC<DataInputProps> = ({ onDataParsed, points, isOp
             </div>
           </div>
 
+          {/* GPX / KML / GeoJSON (Google My Maps, OsmAnd) */}
+          <div className="mb-6 -mt-4 flex flex-wrap items-center gap-2 px-4 py-3 bg-slate-50 rounded-xl border border-slate-200 text-sm">
+            <select
+              value={geoFormat}
+              onChange={(e) => setGeoFormat(e.target.value as GeoFormat)}
+              className="px-2 py-2 border border-slate-200 rounded-lg bg-white font-bold text-slate-700 outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(GEO_FORMAT_LABELS) as GeoFormat[]).map(format => (
+                <option key={format} value={format}>{GEO_FORMAT_LABELS[format]}</option>
+              ))}
+            </select>
+            <button onClick={handleExportGeo} disabled={points.length === 0} className="px-3 py-2 rounded-lg font-bold flex items-center gap-1 border bg-white text-slate-700 border-slate-200 hover:bg-slate-100 disabled:opacity-50">
+              <Download className="w-4 h-4" /> หมุด
+            </button>
+            <button onClick={handleExportRoute} className="px-3 py-2 rounded-lg font-bold flex items-center gap-1 border bg-white text-slate-700 border-slate-200 hover:bg-slate-100">
+              <Route className="w-4 h-4" /> เส้นทาง
+            </button>
+            <label className="ml-auto px-3 py-2 rounded-lg font-bold flex items-center gap-1 border bg-blue-50 text-blue-700 border-blue-200 hover:bg-blue-100 cursor-pointer">
+              <Upload className="w-4 h-4" /> นำเข้าไฟล์
+              <input type="file" accept={GEO_FILE_ACCEPT} onChange={handleImportFile} className="hidden" />
+            </label>
+          </div>
+
           <div className="mb-4 bg-indigo-50 p-4 rounded-lg border border-indigo-100 flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
             <div className="flex gap-3">
               <HelpCircle className="w-5 h-5 text-indigo-600 flex-shrink-0 mt-0.5" />
@@ -203,15 +216,25 @@ export const DataInput: React.FC<DataInputProps> = ({ onDataParsed, points, isOp
                 </ol>
               </div>
             </div>
-            <a 
-              href={USER_SHEET_URL} 
-              target="_blank" 
-              rel="noreferrer"
-              className="whitespace-nowrap flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-bold shadow-sm transition-all text-sm"
-            >
-              <ExternalLink className="w-4 h-4" />
-              เปิด Google Sheet
-            </a>
+            <div className="flex flex-col gap-2 w-full sm:w-auto">
+              <button
+                onClick={handleSync}
+                disabled={isSyncing}
+                className="whitespace-nowrap flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-bold shadow-sm transition-all text-sm disabled:opacity-60"
+              >
+                <RefreshCw className={`w-4 h-4 ${isSyncing ? 'animate-spin' : ''}`} />
+                {isSyncing ? 'กำลังดึงออเดอร์...' : 'ดึงออเดอร์จาก Sheet'}
+              </button>
+              <a 
+                href={USER_SHEET_URL} 
+                target="_blank" 
+                rel="noreferrer"
+                className="whitespace-nowrap flex items-center justify-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-bold shadow-sm transition-all text-sm"
+              >
+                <ExternalLink className="w-4 h-4" />
+                เปิด Google Sheet
+              </a>
+            </div>
           </div>
 
           <textarea
@@ -274,6 +297,15 @@ export const DataInput: React.FC<DataInputProps> = ({ onDataParsed, points, isOp
           </div>
         </div>
       </div>
+
+      {wizardRows && (
+        <ImportWizard
+          rows={wizardRows}
+          appendMode={appendMode}
+          onConfirm={handleWizardConfirm}
+          onBack={() => setWizardRows(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { X, Check, Copy } from 'lucide-react';
+import { DuplicateMatch, DuplicateAction, DUPLICATE_REASON_LABELS, DEFAULT_ACTIONS } from '../services/duplicateDetector';
+import { formatDistance } from '../services/geoService';
+
+interface DuplicateReviewProps {
+  duplicates: DuplicateMatch[];
+  uniqueCount: number;
+  onConfirm: (decisions: DuplicateAction[]) => void;
+  onCancel: () => void;
+}
+
+const ACTION_LABELS: Record<DuplicateAction, string> = {
+  skip: 'ข้าม',
+  merge: 'รวม',
+  keep: 'เก็บทั้งคู่',
+};
+
+export const DuplicateReview: React.FC<DuplicateReviewProps> = ({ duplicates, uniqueCount, onConfirm, onCancel }) => {
+  const [decisions, setDecisions] = useState<DuplicateAction[]>(() => duplicates.map(d => DEFAULT_ACTIONS[d.reason]));
+
+  const setDecision = (index: number, action: DuplicateAction) => {
+    setDecisions(prev => prev.map((a, i) => (i === index ? action : a)));
+  };
+
+  const setAll = (action: DuplicateAction) => setDecisions(duplicates.map(() => action));
+
+  const addedCount = uniqueCount + decisions.filter(a => a === 'keep').length;
+  const mergedCount = decisions.filter(a => a === 'merge').length;
+
+  return (
+    <div className="fixed inset-0 z-[2100] bg-black/50 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-slate-50">
+          <div>
+            <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+              <Copy className="w-5 h-5 text-amber-500" />
+              พบหมุดที่อาจซ้ำ {duplicates.length} รายการ
+            </h2>
+            <p className="text-xs text-slate-500">เลือกว่าจะข้าม รวมข้อมูลเข้าหมุดเดิม หรือเก็บเป็นหมุดใหม่</p>
+          </div>
+          <button onClick={onCancel} className="text-gray-400 hover:text-gray-600 p-2">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="px-4 py-2 border-b border-gray-100 flex items-center gap-2 text-xs">
+          <span className="text-slate-500 font-bold">ทั้งหมด:</span>
+          {(Object.keys(ACTION_LABELS) as DuplicateAction[]).map(action => (
+            <button
+              key={action}
+              onClick={() => setAll(action)}
+              className="px-2 py-1 rounded-md border border-slate-200 text-slate-600 hover:bg-slate-100 font-bold"
+            >
+              {ACTION_LABELS[action]}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 bg-slate-100 space-y-3">
+          {duplicates.map((match, index) => (
+            <div key={`${match.incoming.id}-${index}`} className="bg-white rounded-xl border border-slate-200 p-3">
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <span className="text-[10px] font-bold bg-amber-100 text-amber-800 px-2 py-0.5 rounded-md">
+                  {DUPLICATE_REASON_LABELS[match.reason]} · ห่าง {formatDistance(match.distance)}
+                </span>
+                <div className="flex rounded-lg overflow-hidden border border-slate-200">
+                  {(Object.keys(ACTION_LABELS) as DuplicateAction[]).map(action => (
+                    <button
+                      key={action}
+                      onClick={() => setDecision(index, action)}
+                      className={`px-3 py-1 text-xs font-bold transition-colors ${
+                        decisions[index] === action ? 'bg-blue-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'
+                      }`}
+                    >
+                      {ACTION_LABELS[action]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2 text-xs">
+                <div className="bg-slate-50 rounded-lg p-2">
+                  <p className="text-[10px] text-slate-400 font-bold mb-0.5">หมุดเดิม</p>
+                  <p className="font-bold text-slate-800">{match.existing.name}</p>
+                  {match.existing.orderNo && <p className="text-slate-500">{match.existing.orderNo}</p>}
+                </div>
+                <div className="bg-blue-50 rounded-lg p-2">
+                  <p className="text-[10px] text-blue-400 font-bold mb-0.5">นำเข้าใหม่</p>
+                  <p className="font-bold text-slate-800">{match.incoming.name}</p>
+                  {match.incoming.orderNo && <p className="text-slate-500">{match.incoming.orderNo}</p>}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 bg-white border-t flex gap-3">
+          <button onClick={onCancel} className="flex-1 py-2.5 bg-slate-100 text-slate-700 font-bold rounded-xl hover:bg-slate-200 transition-colors">
+            ยกเลิก
+          </button>
+          <button
+            onClick={() => onConfirm(decisions)}
+            className="flex-[2] py-2.5 bg-blue-600 text-white font-bold rounded-xl hover:bg-blue-700 shadow-lg shadow-blue-200 flex items-center justify-center gap-2 transition-all"
+          >
+            <Check className="w-4 h-4" />
+            เพิ่ม {addedCount} หมุด{mergedCount > 0 && ` · รวม ${mergedCount}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
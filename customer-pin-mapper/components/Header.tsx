@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { Store, Edit, X, Save, Trash2, Image as ImageIcon, Lock, ArrowRight, Loader2 } from 'lucide-react';
+import { Store, Edit, X, Save, Trash2, Image as ImageIcon, Lock, ArrowRight, Loader2, Settings } from 'lucide-react';
+import { readPersisted, writePersisted, removePersisted } from '../services/persistedState';
 
 // ==================================================================================
 // 🔴 การตั้งค่า: ใส่ลิงก์รูป Logo ของร้านที่นี่ เพื่อให้แสดงผลเหมือนกันทุกเครื่อง 🔴
@@ -7,12 +8,16 @@ import { Store, Edit, X, Save, Trash2, Image as ImageIcon, Lock, ArrowRight, Loa
 // ==================================================================================
 const GLOBAL_LOGO_URL = "https://i.postimg.cc/QMdZ76mG/Logo_Branch1.webp"; // <--- วางลิงก์รูปภาพที่นี่ เช่น "https://example.com/logo.png"
 
-export const Header: React.FC = () => {
+interface HeaderProps {
+  onOpenSettings: () => void;
+}
+
+export const Header: React.FC<HeaderProps> = ({ onOpenSettings }) => {
   // ใช้ Lazy Initialization เพื่อโหลดค่าจาก LocalStorage หรือใช้ค่าถาวรจาก GLOBAL_LOGO_URL
   const [logo, setLogo] = useState<string | null>(() => {
     try {
       // 1. ลองดึงจาก LocalStorage (การตั้งค่าส่วนตัวของเครื่องนั้นๆ)
-      const local = localStorage.getItem('seoulgood_logo');
+      const local = readPersisted('seoulgood_logo');
       if (local) return local;
 
       // 2. ถ้าไม่มี ให้ใช้ค่าถาวรที่ตั้งไว้ในโค้ด (เพื่อให้ทุกคนเห็นเหมือนกัน)
@@ -49,7 +54,7 @@ export const Header: React.FC = () => {
       
       // โหลดค่า Logo ปัจจุบันมารอไว้ใน Input
       // ถ้าเป็นค่า Default จาก Code (GLOBAL_LOGO_URL) ก็ให้แสดงใน Input ด้วยเพื่อให้แก้ได้ง่าย
-      const currentLogo = localStorage.getItem('seoulgood_logo') || logo || '';
+      const currentLogo = readPersisted('seoulgood_logo') || logo || '';
       
       // ถ้าเป็น Base64 (ยาวๆ) ไม่ต้องแสดงใน input ให้รก
       if (currentLogo.startsWith('data:')) {
@@ -67,7 +72,7 @@ export const Header: React.FC = () => {
   // ฟังก์ชันช่วยบันทึก URL ตรงๆ
   const saveUrlDirectly = (url: string) => {
     try {
-      localStorage.setItem('seoulgood_logo', url);
+      writePersisted('seoulgood_logo', url);
       setLogo(url);
       setIsEditModalOpen(false);
     } catch (error) {
@@ -103,7 +108,7 @@ export const Header: React.FC = () => {
           reader.onloadend = () => {
             const base64data = reader.result as string;
             try {
-              localStorage.setItem('seoulgood_logo', base64data);
+              writePersisted('seoulgood_logo', base64data);
               setLogo(base64data);
               setIsEditModalOpen(false);
             } catch (e) {
@@ -133,7 +138,7 @@ export const Header: React.FC = () => {
   const handleDelete = () => {
     if (window.confirm('ยืนยันที่จะรีเซ็ต Logo?')) {
       try {
-        localStorage.removeItem('seoulgood_logo');
+        removePersisted('seoulgood_logo');
         // เมื่อลบจาก LocalStorage ให้กลับไปใช้ค่า Global (ถ้ามี)
         setLogo(GLOBAL_LOGO_URL || null);
         setIsEditModalOpen(false);
@@ -177,6 +182,14 @@ export const Header: React.FC = () => {
             SeoulGood <span className="text-blue-600">routeline</span>
           </h1>
         </div>
+
+        <button
+          onClick={onOpenSettings}
+          className="p-2 rounded-full text-slate-500 hover:bg-slate-100 hover:text-slate-800 transition-colors"
+          title="ตั้งค่า"
+        >
+          <Settings className="w-6 h-6" />
+        </button>
       </header>
 
       {/* --- Password Modal --- */}
@@ -1,15 +1,44 @@
-import React, { useState } from 'react';
-import { DeliveryRecord } from '../types';
-import { Clock, MapPin, Trash2, X, CheckSquare, Square } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { DeliveryRecord, PAYMENT_METHOD_LABELS, DELIVERY_OUTCOME_LABELS, isFailedOutcome } from '../types';
+import { getStorageUsage, formatBytes } from '../services/storageService';
+import { GeoFormat, GEO_FORMAT_LABELS, historyToDocument, downloadGeoFile } from '../services/geoFormats';
+import { verifyDeliveryPhotos, StampVerification } from '../services/photoStamp';
+import { isFarFromPin, hasWeakGps, downloadHistoryCsv } from '../services/deliveryReport';
+import { formatDistance } from '../services/geoService';
+import { Clock, MapPin, Trash2, X, CheckSquare, Square, Navigation, HardDrive, Banknote, Phone, Download, ShieldCheck, ShieldAlert, Crosshair, AlertTriangle, FileSpreadsheet, ImageOff, MessageSquare, Images, PenLine, SignalLow } from 'lucide-react';
 
 interface HistoryViewerProps {
   history: DeliveryRecord[];
+  farFromPinMeters: number;
   onDeleteHistory: (ids: string[]) => void;
   onClose: () => void;
 }
 
-export const HistoryViewer: React.FC<HistoryViewerProps> = ({ history, onDeleteHistory, onClose }) => {
+export const HistoryViewer: React.FC<HistoryViewerProps> = ({ history, farFromPinMeters, onDeleteHistory, onClose }) => {
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [storageUsage, setStorageUsage] = useState<{ usage: number, quota: number } | null>(null);
+  const [geoFormat, setGeoFormat] = useState<GeoFormat>('geojson');
+  // ผลตรวจรูปหลักฐาน (id -> ผล) ตรวจทีละรายการเบื้องหลัง
+  const [verifications, setVerifications] = useState<Record<string, StampVerification>>({});
+
+  // พื้นที่จัดเก็บที่ใช้ไป (อัปเดตเมื่อประวัติเปลี่ยน เช่น หลังลบรายการ)
+  useEffect(() => {
+    getStorageUsage().then(setStorageUsage).catch(() => setStorageUsage(null));
+  }, [history]);
+
+  // ตรวจว่ารูปและข้อมูลประทับตรงกับ SHA-256 ที่บันทึกไว้ตอนถ่าย
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      for (const record of history) {
+        if (cancelled) return;
+        if (!record.photos.some(photo => photo.stamp)) continue;
+        const result = await verifyDeliveryPhotos(record).catch((): StampVerification => 'photo-changed');
+        if (!cancelled) setVerifications(prev => ({ ...prev, [record.id]: result }));
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [history]);
 
   // Toggle การเลือกรายการเดียว
   const toggleSelection = (id: string) => {
@@ -44,6 +73,21 @@ export const HistoryViewer: React.FC<HistoryViewerProps> = ({ history, onDeleteH
     }
   };
 
+  // ส่งออกตำแหน่งที่ส่งแล้ว (เฉพาะที่เลือก ถ้าไม่ได้เลือกส่งออกทั้งหมด)
+  const handleExportLocations = () => {
+    const records = selectedIds.size > 0 ? history.filter(h => selectedIds.has(h.id)) : history;
+    downloadGeoFile(historyToDocument(records), geoFormat, 'delivery_history');
+  };
+
+  const handleExportReport = () => {
+    const records = selectedIds.size > 0 ? history.filter(h => selectedIds.has(h.id)) : history;
+    downloadHistoryCsv(records, farFromPinMeters);
+  };
+
+  const farCount = history.filter(h => isFarFromPin(h, farFromPinMeters)).length;
+  const weakGpsCount = history.filter(h => !isFarFromPin(h, farFromPinMeters) && hasWeakGps(h, farFromPinMeters)).length;
+  const failedCount = history.filter(h => h.outcome && isFailedOutcome(h.outcome)).length;
+
   // ลบรายตัว (กดที่ถังขยะเล็ก)
   const handleDeleteSingle = (id: string) => {
      const password = prompt("ต้องการลบรายการนี้?\nกรุณาใส่รหัสผ่านเพื่อยืนยัน:");
@@ -60,7 +104,18 @@ export const HistoryViewer: React.FC<HistoryViewerProps> = ({ history, onDeleteH
         <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-slate-50">
           <div>
             <h2 className="text-xl font-bold text-slate-800">ประวัติการส่งงาน</h2>
-            <p className="text-sm text-slate-500">ทั้งหมด {history.length} รายการ</p>
+            <p className="text-sm text-slate-500">
+              ทั้งหมด {history.length} รายการ
+              {failedCount > 0 && <span className="text-amber-600 font-bold"> · ส่งไม่สำเร็จ {failedCount} รายการ</span>}
+              {farCount > 0 && <span className="text-red-600 font-bold"> · ส่งไกลจากหมุด {farCount} รายการ</span>}
+              {weakGpsCount > 0 && <span className="text-amber-600 font-bold"> · ตรวจระยะไม่ได้ {weakGpsCount} รายการ</span>}
+            </p>
+            {storageUsage && storageUsage.quota > 0 && (
+              <p className={`text-xs flex items-center gap-1 mt-0.5 ${storageUsage.usage / storageUsage.quota > 0.8 ? 'text-red-600 font-bold' : 'text-slate-400'}`}>
+                <HardDrive className="w-3 h-3" />
+                ใช้พื้นที่ {formatBytes(storageUsage.usage)} จาก {formatBytes(storageUsage.quota)}
+              </p>
+            )}
           </div>
           <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-2">
             <X className="w-6 h-6" />
@@ -82,11 +137,36 @@ export const HistoryViewer: React.FC<HistoryViewerProps> = ({ history, onDeleteH
                     เลือกทั้งหมด
                 </button>
                 
-                {selectedIds.size > 0 && (
-                    <span className="text-xs font-bold text-blue-600 bg-blue-50 px-2 py-1 rounded-md">
-                        เลือกอยู่ {selectedIds.size} รายการ
-                    </span>
-                )}
+                <div className="flex items-center gap-2">
+                    {selectedIds.size > 0 && (
+                        <span className="text-xs font-bold text-blue-600 bg-blue-50 px-2 py-1 rounded-md">
+                            เลือกอยู่ {selectedIds.size} รายการ
+                        </span>
+                    )}
+                    <select
+                        value={geoFormat}
+                        onChange={(e) => setGeoFormat(e.target.value as GeoFormat)}
+                        className="text-xs font-bold text-slate-600 border border-slate-200 rounded-md px-1 py-1 bg-white outline-none"
+                    >
+                        {(Object.keys(GEO_FORMAT_LABELS) as GeoFormat[]).map(format => (
+                            <option key={format} value={format}>{GEO_FORMAT_LABELS[format]}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={handleExportLocations}
+                        className="flex items-center gap-1 text-xs font-bold text-emerald-700 bg-emerald-50 border border-emerald-200 hover:bg-emerald-100 px-2 py-1 rounded-md"
+                        title="ส่งออกตำแหน่งที่ส่งแล้ว"
+                    >
+                        <Download className="w-3 h-3" /> ตำแหน่ง
+                    </button>
+                    <button
+                        onClick={handleExportReport}
+                        className="flex items-center gap-1 text-xs font-bold text-blue-700 bg-blue-50 border border-blue-200 hover:bg-blue-100 px-2 py-1 rounded-md"
+                        title="รายงานการส่ง (CSV)"
+                    >
+                        <FileSpreadsheet className="w-3 h-3" /> รายงาน
+                    </button>
+                </div>
             </div>
         )}
 
@@ -100,6 +180,7 @@ export const HistoryViewer: React.FC<HistoryViewerProps> = ({ history, onDeleteH
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
               {history.slice().reverse().map((record) => {
                 const isSelected = selectedIds.has(record.id);
+                const outcome = record.outcome || 'delivered';
                 return (
                     <div 
                         key={record.id} 
@@ -128,9 +209,29 @@ export const HistoryViewer: React.FC<HistoryViewerProps> = ({ history, onDeleteH
                         </button>
 
                         <div className="relative h-48 bg-slate-200" onClick={() => toggleSelection(record.id)}>
-                            <img src={record.photoUrl} alt="Proof" className="w-full h-full object-cover" />
+                            {record.photos[0]?.url ? (
+                                <img src={record.photos[0].url} alt="Proof" className="w-full h-full object-cover" />
+                            ) : (
+                                <div className="w-full h-full flex flex-col items-center justify-center text-slate-400 text-xs gap-1 pb-8">
+                                    <ImageOff className="w-8 h-8 opacity-50" />
+                                    ไม่มีรูป
+                                </div>
+                            )}
+                            <span className={`absolute top-2 left-10 text-[10px] font-bold px-2 py-1 rounded-full shadow-sm ${
+                                isFailedOutcome(outcome) ? 'bg-red-600 text-white' : outcome === 'delivered' ? 'bg-emerald-600 text-white' : 'bg-amber-500 text-white'
+                            }`}>
+                                {DELIVERY_OUTCOME_LABELS[outcome]}
+                            </span>
+                            {record.photos.length > 1 && (
+                                <span className="absolute bottom-3 right-3 z-10 flex items-center gap-1 text-[10px] font-bold text-white bg-black/60 px-2 py-1 rounded-full">
+                                    <Images className="w-3 h-3" /> {record.photos.length} รูป
+                                </span>
+                            )}
                             <div className="absolute bottom-0 left-0 w-full bg-gradient-to-t from-black/70 to-transparent p-3 pt-8">
                                 <p className="text-white font-bold text-lg leading-none">{record.customerName}</p>
+                                {record.order?.orderNo && (
+                                    <p className="text-white/80 text-xs font-bold mt-1">{record.order.orderNo}</p>
+                                )}
                             </div>
                         </div>
                         <div className="p-3 bg-white cursor-pointer" onClick={() => toggleSelection(record.id)}>
@@ -138,10 +239,110 @@ export const HistoryViewer: React.FC<HistoryViewerProps> = ({ history, onDeleteH
                                 <Clock className="w-3 h-3" />
                                 {new Date(record.timestamp).toLocaleString('th-TH')}
                             </div>
+                            {record.photos.length > 1 && (
+                                <div className="flex gap-1 mb-2 overflow-x-auto">
+                                    {record.photos.map((photo, i) => photo.url && (
+                                        <a
+                                            key={i}
+                                            href={photo.url}
+                                            target="_blank"
+                                            rel="noreferrer"
+                                            onClick={(e) => e.stopPropagation()}
+                                            className="flex-shrink-0"
+                                        >
+                                            <img src={photo.url} alt={`Proof ${i + 1}`} className="w-12 h-12 object-cover rounded-md border border-slate-200" />
+                                        </a>
+                                    ))}
+                                </div>
+                            )}
+                            {(record.recipientName || record.signatureUrl) && (
+                                <div className="flex items-center gap-2 text-xs text-slate-700 mb-1">
+                                    <PenLine className="w-3 h-3 flex-shrink-0" />
+                                    <span className="font-bold">ผู้รับ: {record.recipientName || '-'}</span>
+                                    {record.signatureUrl && (
+                                        <img src={record.signatureUrl} alt="Signature" className="h-8 max-w-[8rem] object-contain bg-white border border-slate-200 rounded" />
+                                    )}
+                                </div>
+                            )}
+                            {record.reason && (
+                                <div className="flex items-center gap-2 text-xs text-red-600 font-bold mb-1">
+                                    <AlertTriangle className="w-3 h-3" />
+                                    {record.reason}
+                                </div>
+                            )}
+                            {record.note && (
+                                <div className="flex items-start gap-2 text-xs text-slate-600 mb-1">
+                                    <MessageSquare className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                                    {record.note}
+                                </div>
+                            )}
+                            {record.arrivedAt && (
+                                <div className="flex items-center gap-2 text-xs text-emerald-600 mb-1">
+                                    <Navigation className="w-3 h-3" />
+                                    ถึงจุดส่ง {new Date(record.arrivedAt).toLocaleTimeString('th-TH')}
+                                </div>
+                            )}
+                            {record.order?.amountDue != null && (
+                                <div className="flex items-center gap-2 text-xs text-slate-700 font-bold mb-1">
+                                    <Banknote className="w-3 h-3" />
+                                    ฿{record.order.amountDue.toLocaleString('th-TH')}
+                                    {record.order.paymentMethod && (
+                                        <span className="font-normal text-slate-500">({PAYMENT_METHOD_LABELS[record.order.paymentMethod]})</span>
+                                    )}
+                                </div>
+                            )}
+                            {record.order?.phone && (
+                                <a
+                                    href={`tel:${record.order.phone.replace(/[^\d+]/g, '')}`}
+                                    onClick={(e) => e.stopPropagation()}
+                                    className="flex items-center gap-2 text-xs text-sky-600 mb-1"
+                                >
+                                    <Phone className="w-3 h-3" />
+                                    {record.order.phone}
+                                </a>
+                            )}
                             <div className="flex items-center gap-2 text-xs text-slate-400 font-mono">
                                 <MapPin className="w-3 h-3" />
                                 {record.location.lat.toFixed(5)}, {record.location.lng.toFixed(5)}
                             </div>
+                            {record.deviceLocation && (
+                                <div className="flex items-center gap-2 text-xs text-slate-400 font-mono mt-1" title="ตำแหน่ง GPS ของเครื่องตอนกดยืนยันส่งงาน">
+                                    <Crosshair className="w-3 h-3" />
+                                    {record.deviceLocation.lat.toFixed(5)}, {record.deviceLocation.lng.toFixed(5)} (±{Math.round(record.deviceLocation.accuracy)} ม.)
+                                </div>
+                            )}
+                            {record.distanceFromPin != null && (
+                                isFarFromPin(record, farFromPinMeters) ? (
+                                    <div className="flex items-center gap-2 text-xs text-red-600 font-bold bg-red-50 rounded-md px-2 py-1 mt-1">
+                                        <AlertTriangle className="w-3 h-3" />
+                                        กดส่งห่างจากหมุด {formatDistance(record.distanceFromPin)}
+                                    </div>
+                                ) : (
+                                    <div className="text-xs text-slate-400 mt-1 pl-5">
+                                        ห่างจากหมุด {formatDistance(record.distanceFromPin)}
+                                    </div>
+                                )
+                            )}
+                            {!isFarFromPin(record, farFromPinMeters) && hasWeakGps(record, farFromPinMeters) && (
+                                <div className="flex items-center gap-2 text-xs text-amber-700 font-bold bg-amber-50 rounded-md px-2 py-1 mt-1">
+                                    <SignalLow className="w-3 h-3" />
+                                    {record.deviceLocation
+                                        ? `GPS คลาดเคลื่อน ±${Math.round(record.deviceLocation.accuracy)} ม. ตรวจระยะจากหมุดไม่ได้`
+                                        : 'ไม่มี GPS ตอนกดส่ง ตรวจระยะจากหมุดไม่ได้'}
+                                </div>
+                            )}
+                            {verifications[record.id] === 'valid' && (
+                                <div className="flex items-center gap-2 text-xs text-emerald-600 font-bold mt-1">
+                                    <ShieldCheck className="w-3 h-3" />
+                                    รูปตรงกับต้นฉบับตอนถ่าย
+                                </div>
+                            )}
+                            {(verifications[record.id] === 'photo-changed' || verifications[record.id] === 'data-changed') && (
+                                <div className="flex items-center gap-2 text-xs text-red-600 font-bold mt-1">
+                                    <ShieldAlert className="w-3 h-3" />
+                                    {verifications[record.id] === 'photo-changed' ? 'รูปถูกเปลี่ยนหลังถ่าย' : 'ข้อมูลการส่งถูกแก้หลังถ่าย'}
+                                </div>
+                            )}
                         </div>
                     </div>
                 );
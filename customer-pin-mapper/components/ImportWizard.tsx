@@ -0,0 +1,234 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { ArrowLeft, Check, AlertTriangle, Table, Loader2, RefreshCw } from 'lucide-react';
+import { CustomerPoint } from '../types';
+import {
+  ColumnField, COLUMN_LABELS, detectColumns, detectHeaderRow, parseRows,
+  sourceSignature, loadSavedMapping, saveMapping,
+} from '../services/sheetImport';
+import { extractShortLink, resolveShortLinks, getResolverUrl } from '../services/coordinateParser';
+import { loadSettings } from '../services/settingsService';
+import { LatLng } from '../services/geoService';
+
+interface ImportWizardProps {
+  rows: string[][];
+  appendMode: boolean;
+  onConfirm: (points: CustomerPoint[]) => void;
+  onBack: () => void;
+}
+
+// จำนวนแถวที่แสดงในตารางตัวอย่าง (ข้อผิดพลาดแสดงครบทุกแถว)
+const PREVIEW_ROWS = 30;
+
+const initialMapping = (rows: string[][], hasHeader: boolean): ColumnField[] => {
+  const columnCount = Math.max(0, ...rows.map(r => r.length));
+  const saved = loadSavedMapping(sourceSignature(rows, hasHeader));
+  if (saved && saved.length === columnCount) return saved;
+  return detectColumns(rows, hasHeader);
+};
+
+export const ImportWizard: React.FC<ImportWizardProps> = ({ rows, appendMode, onConfirm, onBack }) => {
+  const [hasHeader, setHasHeader] = useState(() => rows.length > 0 && detectHeaderRow(rows[0]));
+  const [mapping, setMapping] = useState<ColumnField[]>(() => initialMapping(rows, hasHeader));
+
+  // ลิงก์ย่อ (maps.app.goo.gl) ที่แปลงเป็นพิกัดแล้ว / แปลงไม่สำเร็จ
+  const [resolved, setResolved] = useState<Record<string, LatLng>>({});
+  const [failedLinks, setFailedLinks] = useState<Set<string>>(new Set());
+  const [isResolving, setIsResolving] = useState(false);
+
+  const { points, errors } = useMemo(() => parseRows(rows, mapping, hasHeader, resolved), [rows, mapping, hasHeader, resolved]);
+  const errorByRow = useMemo(() => new Map(errors.map(e => [e.row, e.message])), [errors]);
+  const unresolvedRows = useMemo(() => errors.filter(e => e.location !== undefined), [errors]);
+
+  // ลิงก์ย่อในแถวที่ยังหาพิกัดไม่ได้ และยังไม่เคยลองแปลง
+  const pendingLinks = useMemo(
+    () => Array.from(new Set(
+      unresolvedRows
+        .map(e => extractShortLink(e.location || ''))
+        .filter((link): link is string => link !== null && !failedLinks.has(link))
+    )),
+    [unresolvedRows, failedLinks]
+  );
+
+  // แปลงลิงก์ย่ออัตโนมัติเมื่อเปิดหน้านี้หรือเปลี่ยนคอลัมน์ลิงก์แผนที่
+  useEffect(() => {
+    if (pendingLinks.length === 0 || isResolving) return;
+    setIsResolving(true);
+    resolveShortLinks(pendingLinks, getResolverUrl(loadSettings().sync))
+      .then(result => {
+        setResolved(prev => ({ ...prev, ...result.resolved }));
+        setFailedLinks(prev => new Set([...Array.from(prev), ...result.failed]));
+      })
+      .finally(() => setIsResolving(false));
+  }, [pendingLinks, isResolving]);
+
+  const handleHeaderToggle = (checked: boolean) => {
+    setHasHeader(checked);
+    setMapping(initialMapping(rows, checked));
+  };
+
+  // แต่ละชนิดใช้ได้คอลัมน์เดียว เลือกซ้ำแล้วคอลัมน์เดิมจะกลายเป็น "ไม่ใช้"
+  const handleFieldChange = (col: number, field: ColumnField) => {
+    setMapping(prev => prev.map((f, i) => {
+      if (i === col) return field;
+      if (field !== 'ignore' && f === field) return 'ignore';
+      return f;
+    }));
+  };
+
+  const handleConfirm = () => {
+    saveMapping(sourceSignature(rows, hasHeader), mapping);
+    onConfirm(points);
+  };
+
+  const dataRows = rows.map((row, index) => ({ row, rowNumber: index + 1 })).filter((_, i) => !(hasHeader && i === 0));
+  const globalError = errorByRow.get(0);
+
+  return (
+    <div className="fixed inset-0 z-[2100] bg-black/50 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-gray-100 flex items-center gap-3 bg-gray-50">
+          <button onClick={onBack} className="text-gray-500 hover:bg-gray-200 p-2 rounded-full transition-colors" title="กลับไปแก้ข้อมูล">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h2 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+              <Table className="w-5 h-5 text-blue-600" />
+              ตรวจสอบคอลัมน์ก่อนนำเข้า
+            </h2>
+            <p className="text-xs text-gray-500">ระบบเดาชนิดคอลัมน์ให้แล้ว แก้ได้จากช่องเลือกด้านบนของแต่ละคอลัมน์</p>
+          </div>
+        </div>
+
+        <div className="px-4 py-2 border-b border-gray-100 flex items-center justify-between gap-3 text-sm">
+          <label className="flex items-center gap-2 text-gray-700 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={hasHeader}
+              onChange={(e) => handleHeaderToggle(e.target.checked)}
+              className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+            />
+            แถวแรกเป็นหัวตาราง
+          </label>
+          <div className="flex gap-2 text-xs font-bold">
+            <span className="bg-emerald-50 text-emerald-700 px-2 py-1 rounded-md">พร้อมนำเข้า {points.length}</span>
+            {isResolving && (
+              <span className="bg-blue-50 text-blue-600 px-2 py-1 rounded-md flex items-center gap-1">
+                <Loader2 className="w-3 h-3 animate-spin" /> กำลังแปลงลิงก์ย่อ...
+              </span>
+            )}
+            {errors.length > 0 && !globalError && (
+              <span className="bg-red-50 text-red-600 px-2 py-1 rounded-md">ผิดพลาด {errors.length}</span>
+            )}
+          </div>
+        </div>
+
+        {globalError && (
+          <div className="mx-4 mt-3 flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            {globalError}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-auto p-4">
+          {/* แถวที่หาพิกัดไม่ได้ทั้งหมด (ลิงก์ย่อที่แปลงไม่สำเร็จ / รูปแบบที่อ่านไม่ออก) */}
+          {unresolvedRows.length > 0 && !isResolving && (
+            <div className="mb-3 p-3 bg-amber-50 border border-amber-200 rounded-xl text-xs text-amber-800">
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <p className="font-bold flex items-center gap-1">
+                  <AlertTriangle className="w-4 h-4" /> หาพิกัดไม่ได้ {unresolvedRows.length} แถว (แก้ใน Sheet แล้ววางใหม่ หรือข้ามไป)
+                </p>
+                {failedLinks.size > 0 && (
+                  <button
+                    onClick={() => setFailedLinks(new Set())}
+                    className="flex items-center gap-1 px-2 py-1 bg-white border border-amber-200 rounded-md font-bold hover:bg-amber-100"
+                  >
+                    <RefreshCw className="w-3 h-3" /> ลองแปลงลิงก์ย่ออีกครั้ง
+                  </button>
+                )}
+              </div>
+              <div className="max-h-24 overflow-y-auto space-y-0.5">
+                {unresolvedRows.map(e => (
+                  <p key={e.row} className="truncate">แถว {e.row}: <span className="font-mono">{e.location}</span></p>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <table className="text-xs border-collapse min-w-full">
+            <thead>
+              <tr>
+                <th className="p-1 text-gray-400 font-normal">#</th>
+                {mapping.map((field, col) => (
+                  <th key={col} className="p-1 min-w-[110px]">
+                    <select
+                      value={field}
+                      onChange={(e) => handleFieldChange(col, e.target.value as ColumnField)}
+                      className={`w-full p-1.5 rounded-lg border text-xs font-bold outline-none ${
+                        field === 'ignore' ? 'bg-gray-50 text-gray-400 border-gray-200' : 'bg-blue-50 text-blue-700 border-blue-200'
+                      }`}
+                    >
+                      {(Object.keys(COLUMN_LABELS) as ColumnField[]).map(f => (
+                        <option key={f} value={f}>{COLUMN_LABELS[f]}</option>
+                      ))}
+                    </select>
+                    {hasHeader && <div className="text-[10px] text-gray-400 font-normal truncate mt-1">{rows[0][col]}</div>}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {dataRows.slice(0, PREVIEW_ROWS).map(({ row, rowNumber }) => {
+                const error = errorByRow.get(rowNumber);
+                return (
+                  <React.Fragment key={rowNumber}>
+                    <tr className={error ? 'bg-red-50' : 'odd:bg-white even:bg-slate-50'}>
+                      <td className="p-1 text-gray-400 text-center">{rowNumber}</td>
+                      {mapping.map((field, col) => (
+                        <td key={col} className={`p-1 max-w-[200px] truncate ${field === 'ignore' ? 'text-gray-300' : 'text-gray-700'}`}>
+                          {row[col]}
+                        </td>
+                      ))}
+                    </tr>
+                    {error && (
+                      <tr className="bg-red-50">
+                        <td />
+                        <td colSpan={mapping.length} className="px-1 pb-1 text-red-600 font-bold">⚠ {error}</td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+          {dataRows.length > PREVIEW_ROWS && (
+            <p className="text-xs text-gray-400 mt-2">แสดง {PREVIEW_ROWS} แถวแรกจาก {dataRows.length} แถว</p>
+          )}
+
+          {/* ข้อผิดพลาดของแถวที่อยู่นอกตารางตัวอย่าง */}
+          {errors.some(e => e.row > PREVIEW_ROWS) && (
+            <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-xl text-xs text-red-700 space-y-1">
+              {errors.filter(e => e.row > PREVIEW_ROWS).map(e => (
+                <p key={e.row}>แถว {e.row}: {e.message}</p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 bg-white border-t flex gap-3">
+          <button onClick={onBack} className="flex-1 py-2.5 bg-slate-100 text-slate-700 font-bold rounded-xl hover:bg-slate-200 transition-colors">
+            กลับ
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={points.length === 0}
+            className="flex-[2] py-2.5 bg-blue-600 text-white font-bold rounded-xl hover:bg-blue-700 shadow-lg shadow-blue-200 flex items-center justify-center gap-2 transition-all disabled:opacity-50 disabled:shadow-none"
+          >
+            <Check className="w-4 h-4" />
+            {appendMode ? `เพิ่ม ${points.length} หมุด` : `สร้างใหม่ ${points.length} หมุด`}
+            {errors.length > 0 && !globalError && <span className="font-normal opacity-80">(ข้าม {errors.length} แถว)</span>}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,209 +1,210 @@
-
-import React, { useEffect, useState } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, useMapEvents, useMap } from 'react-leaflet';
-import L from 'leaflet';
-import { Search, Store, Crosshair } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Search, Crosshair, Loader2, MapPin } from 'lucide-react';
 import { LocationState } from '../types';
-
-// --- Custom Colored Icons ---
-// Using leaflet-color-markers hosted on GitHub for reliability
-const shadowUrl = 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/0.7.7/images/marker-shadow.png';
-
-const RedIcon = new L.Icon({
-  iconUrl: 'https://raw.githubusercontent.com/pointhi/leaflet-color-markers/master/img/marker-icon-2x-red.png',
-  shadowUrl: shadowUrl,
-  iconSize: [25, 41],
-  iconAnchor: [12, 41],
-  popupAnchor: [1, -34],
-  shadowSize: [41, 41]
-});
-
-const GreenIcon = new L.Icon({
-  iconUrl: 'https://raw.githubusercontent.com/pointhi/leaflet-color-markers/master/img/marker-icon-2x-green.png',
-  shadowUrl: shadowUrl,
-  iconSize: [25, 41],
-  iconAnchor: [12, 41],
-  popupAnchor: [1, -34],
-  shadowSize: [41, 41]
-});
+import { LatLng } from '../services/geoService';
+import { Geocoder, GeocodeResult } from '../services/geocoderService';
 
 interface MapPickerProps {
   onLocationSelect: (loc: LocationState) => void;
   initialLocation?: LocationState | null;
+  shopLocation: LatLng;
+  geocoder: Geocoder;
 }
 
-// Convert 16°26'10.5"N 103°30'07.3"E to Decimal
-const STORE_LAT = 16.43625;
-const STORE_LNG = 103.502028;
-const STORE_LOCATION: [number, number] = [STORE_LAT, STORE_LNG];
-
-// Component to handle map movement programmatically
-const MapController = ({ center, locateTrigger }: { center: L.LatLngExpression | null, locateTrigger: number }) => {
-  const map = useMap();
-  
-  // FIX: แก้ไขปัญหาแผนที่โหลดไม่สมบูรณ์ (เป็นสีเทาหรือขาดๆหายๆ) เมื่อแสดงใน Modal
-  // เหตุผล: Leaflet คำนวณขนาดผิดตอนที่ Modal กำลังเลื่อนขึ้นมา (Animation)
-  // วิธีแก้: สั่งให้คำนวณขนาดใหม่ (invalidateSize) หลังจากเวลาผ่านไปเล็กน้อย
-  useEffect(() => {
-    const timer = setTimeout(() => {
-        map.invalidateSize();
-    }, 500); // รอ 0.5 วินาทีเพื่อให้ Modal แสดงผลเสร็จสมบูรณ์
-    return () => clearTimeout(timer);
-  }, [map]);
-
-  // Handle Search Center
-  useEffect(() => {
-    if (center) {
-      map.flyTo(center, 16);
-    }
-  }, [center, map]);
-
-  // Handle GPS Locate Trigger
-  useEffect(() => {
-    if (locateTrigger > 0) {
-      map.locate({ setView: true, maxZoom: 16 });
-    }
-  }, [locateTrigger, map]);
+// หมุดร้าน (แดง) และหมุดจุดส่ง (เขียว ลากย้ายได้) ใช้ divIcon เพื่อไม่ต้องโหลดรูปจากภายนอก
+const pinIcon = (L: any, color: string, emoji: string) => L.divIcon({
+  className: 'map-picker-icon',
+  html: `<div style="background-color: ${color}; width: 34px; height: 34px; border-radius: 50% 50% 50% 0; transform: rotate(-45deg); border: 3px solid white; box-shadow: 0 4px 6px rgba(0,0,0,0.3); display: flex; align-items: center; justify-content: center;"><span style="transform: rotate(45deg); font-size: 15px;">${emoji}</span></div>`,
+  iconSize: [34, 34],
+  iconAnchor: [17, 34],
+  popupAnchor: [0, -34]
+});
 
-  return null;
-};
+const formatCoords = (lat: number, lng: number) => `${lat.toFixed(6)}, ${lng.toFixed(6)}`;
 
-const LocationMarker: React.FC<{ onSelect: (lat: number, lng: number) => void, position: L.LatLng | null }> = ({ onSelect, position }) => {
-  const map = useMapEvents({
-    click(e) {
-      onSelect(e.latlng.lat, e.latlng.lng);
-      map.flyTo(e.latlng, map.getZoom());
-    },
-    locationfound(e) {
-      onSelect(e.latlng.lat, e.latlng.lng);
-      map.flyTo(e.latlng, 16);
-    },
-  });
-
-  // Locate user on first load if no initial position
-  useEffect(() => {
-    if (!position) {
-      map.locate();
-    }
-  }, [map, position]);
+export const MapPicker: React.FC<MapPickerProps> = ({ onLocationSelect, initialLocation, shopLocation, geocoder }) => {
+  const mapContainerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<any>(null);
+  const markerRef = useRef<any>(null);
+  // ชื่อสถานที่ที่ขอไปล่าสุด (ถ้าผู้ใช้ย้ายหมุดระหว่างรอ ให้ทิ้งผลเก่า)
+  const reverseRequestRef = useRef(0);
 
-  return position === null ? null : (
-    <Marker position={position} icon={GreenIcon}>
-       <Popup>จุดส่งอาหาร (Delivery Point)</Popup>
-    </Marker>
-  );
-};
+  // ค่าล่าสุดที่ใช้ใน Event ของ Leaflet (ผูกครั้งเดียวตอนสร้างแผนที่)
+  const onLocationSelectRef = useRef(onLocationSelect);
+  onLocationSelectRef.current = onLocationSelect;
+  const geocoderRef = useRef(geocoder);
+  geocoderRef.current = geocoder;
 
-export const MapPicker: React.FC<MapPickerProps> = ({ onLocationSelect, initialLocation }) => {
-  const [position, setPosition] = useState<L.LatLng | null>(
-    initialLocation ? new L.LatLng(initialLocation.lat, initialLocation.lng) : null
-  );
+  const [position, setPosition] = useState<LocationState | null>(initialLocation || null);
 
   // Search State
   const [searchText, setSearchText] = useState('');
-  const [mapCenter, setMapCenter] = useState<L.LatLngExpression | null>(null);
+  const [results, setResults] = useState<GeocodeResult[]>([]);
   const [isSearching, setIsSearching] = useState(false);
-  const [locateTrigger, setLocateTrigger] = useState(0); // Counter to trigger location
 
-  const handleSelect = (lat: number, lng: number) => {
-    const newPos = new L.LatLng(lat, lng);
-    setPosition(newPos);
-    onLocationSelect({ lat, lng, address: `Lat: ${lat.toFixed(4)}, Lng: ${lng.toFixed(4)}` });
+  const selectLocation = (lat: number, lng: number, address?: string) => {
+    const requestId = ++reverseRequestRef.current;
+    const loc = { lat, lng, address: address || formatCoords(lat, lng) };
+    setPosition(loc);
+    onLocationSelectRef.current(loc);
+    if (address) return;
+
+    // เติมชื่อสถานที่ให้ทีหลัง (ถ้าหาไม่ได้ก็ใช้พิกัดตามเดิม)
+    geocoderRef.current.reverse(lat, lng)
+      .then(name => {
+        if (!name || requestId !== reverseRequestRef.current) return;
+        const named = { lat, lng, address: name };
+        setPosition(named);
+        onLocationSelectRef.current(named);
+      })
+      .catch(e => console.warn("Reverse geocode failed", e));
+  };
+
+  const selectLocationRef = useRef(selectLocation);
+  selectLocationRef.current = selectLocation;
+
+  // สร้างแผนที่ครั้งเดียว
+  useEffect(() => {
+    if (!mapContainerRef.current || !window.L) return;
+    const L = window.L;
+    const start = initialLocation || shopLocation;
+
+    const map = L.map(mapContainerRef.current, { zoomControl: false }).setView([start.lat, start.lng], initialLocation ? 17 : 14);
+    L.control.zoom({ position: 'bottomleft' }).addTo(map);
+    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', { attribution: '&copy; OpenStreetMap contributors' }).addTo(map);
+    L.marker([shopLocation.lat, shopLocation.lng], { icon: pinIcon(L, '#dc2626', '🏪'), interactive: false }).addTo(map);
+
+    map.on('click', (e: any) => selectLocationRef.current(e.latlng.lat, e.latlng.lng));
+    map.on('locationfound', (e: any) => {
+      selectLocationRef.current(e.latlng.lat, e.latlng.lng);
+      map.flyTo(e.latlng, 17);
+    });
+    map.on('locationerror', () => alert("หาตำแหน่งปัจจุบันไม่ได้"));
+    mapRef.current = map;
+
+    // FIX: แก้ไขปัญหาแผนที่โหลดไม่สมบูรณ์ (เป็นสีเทาหรือขาดๆหายๆ) เมื่อแสดงใน Modal
+    // เหตุผล: Leaflet คำนวณขนาดผิดตอนที่ Modal กำลังเลื่อนขึ้นมา (Animation)
+    // วิธีแก้: สั่งให้คำนวณขนาดใหม่ (invalidateSize) หลังจากเวลาผ่านไปเล็กน้อย
+    const timer = setTimeout(() => map.invalidateSize(), 500);
+
+    return () => {
+      clearTimeout(timer);
+      map.remove();
+      mapRef.current = null;
+      markerRef.current = null;
+    };
+  }, []);
+
+  // หมุดจุดส่ง: แตะแผนที่เพื่อปัก หรือลากหมุดเพื่อย้าย
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !window.L) return;
+    const L = window.L;
+
+    if (!position) {
+      markerRef.current?.remove();
+      markerRef.current = null;
+      return;
+    }
+    if (markerRef.current) {
+      markerRef.current.setLatLng([position.lat, position.lng]);
+      return;
+    }
+    markerRef.current = L.marker([position.lat, position.lng], { icon: pinIcon(L, '#16a34a', '📦'), draggable: true }).addTo(map);
+    markerRef.current.on('dragend', () => {
+      const { lat, lng } = markerRef.current.getLatLng();
+      selectLocationRef.current(lat, lng);
+    });
+  }, [position]);
+
+  const chooseResult = (result: GeocodeResult) => {
+    setResults([]);
+    selectLocation(result.lat, result.lng, result.label);
+    mapRef.current?.flyTo([result.lat, result.lng], 17);
   };
 
   const performSearch = async () => {
     if (!searchText.trim()) return;
     setIsSearching(true);
     try {
-        // Use OpenStreetMap Nominatim API for search
-        const response = await fetch(`https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(searchText)}&limit=1`);
-        const data = await response.json();
-        if (data && data.length > 0) {
-            const lat = parseFloat(data[0].lat);
-            const lon = parseFloat(data[0].lon);
-            setMapCenter([lat, lon]);
-        } else {
-            alert('ไม่พบสถานที่ (Location not found)');
-        }
+      const found = await geocoder.search(searchText);
+      if (found.length === 0) {
+        alert('ไม่พบสถานที่');
+      } else if (found.length === 1) {
+        chooseResult(found[0]);
+      } else {
+        setResults(found);
+      }
     } catch (e) {
-        console.error("Search error", e);
-        alert('เกิดข้อผิดพลาดในการค้นหา');
+      console.error("Search error", e);
+      alert('เกิดข้อผิดพลาดในการค้นหา (ลองเปลี่ยนระบบค้นหาเป็นแบบในเครื่องในหน้าตั้งค่า)');
     } finally {
-        setIsSearching(false);
+      setIsSearching(false);
     }
   };
 
   const handleLocateMe = () => {
-      setLocateTrigger(prev => prev + 1);
+    mapRef.current?.locate({ enableHighAccuracy: true });
   };
 
   return (
-    <div className="h-full w-full rounded-lg overflow-hidden border-2 border-orange-200 shadow-inner z-0 relative flex flex-col bg-gray-100">
-      
+    <div className="h-full w-full rounded-lg overflow-hidden border-2 border-slate-200 shadow-inner z-0 relative flex flex-col bg-gray-100">
+
       {/* Search Bar Overlay */}
-      <div className="absolute top-2 left-2 right-2 z-[500] flex gap-2 p-1.5 bg-white/95 backdrop-blur-sm rounded-lg shadow-md border border-gray-200">
-         <div className="relative flex-1">
-            <input 
-                type="text" 
-                placeholder="ค้นหาสถานที่ / Search Location..." 
-                className="w-full pl-9 pr-2 py-2 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-400 bg-gray-50"
-                value={searchText}
-                onChange={(e) => setSearchText(e.target.value)}
-                onKeyDown={(e) => e.key === 'Enter' && performSearch()}
+      <div className="absolute top-2 left-2 right-2 z-[500] bg-white/95 backdrop-blur-sm rounded-lg shadow-md border border-gray-200">
+        <div className="flex gap-2 p-1.5">
+          <div className="relative flex-1">
+            <input
+              type="text"
+              placeholder="ค้นหาสถานที่ / วางพิกัดหรือลิงก์แผนที่..."
+              className="w-full pl-9 pr-2 py-2 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-400 bg-gray-50"
+              value={searchText}
+              onChange={(e) => setSearchText(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && performSearch()}
             />
             <Search className="absolute left-2.5 top-2.5 text-gray-400" size={16} />
-         </div>
-         <button 
+          </div>
+          <button
             onClick={performSearch}
-            className="bg-orange-500 hover:bg-orange-600 text-white px-4 rounded-md transition flex items-center justify-center min-w-[3rem]"
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 rounded-md transition flex items-center justify-center min-w-[3rem] text-sm font-bold"
             disabled={isSearching}
-         >
-            {isSearching ? <span className="animate-spin text-xs">⌛</span> : "ค้นหา"}
-         </button>
+          >
+            {isSearching ? <Loader2 className="w-4 h-4 animate-spin" /> : "ค้นหา"}
+          </button>
+        </div>
+
+        {results.length > 0 && (
+          <ul className="border-t border-gray-100 max-h-48 overflow-y-auto">
+            {results.map((result, i) => (
+              <li key={i}>
+                <button
+                  onClick={() => chooseResult(result)}
+                  className="w-full text-left px-3 py-2 text-xs text-slate-700 hover:bg-blue-50 flex items-start gap-2"
+                >
+                  <MapPin className="w-3.5 h-3.5 mt-0.5 text-blue-500 flex-shrink-0" />
+                  <span className="line-clamp-2">{result.label}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
 
       {/* Locate Me Button */}
       <button
-          onClick={handleLocateMe}
-          className="absolute bottom-8 right-2 z-[500] bg-white p-2 rounded-full shadow-md border border-gray-300 text-gray-700 hover:text-blue-600 hover:border-blue-500 active:scale-95 transition"
-          title="ตำแหน่งปัจจุบัน (Current Location)"
+        onClick={handleLocateMe}
+        className="absolute bottom-8 right-2 z-[500] bg-white p-2 rounded-full shadow-md border border-gray-300 text-gray-700 hover:text-blue-600 hover:border-blue-500 active:scale-95 transition"
+        title="ตำแหน่งปัจจุบัน"
       >
-          <Crosshair size={24} />
+        <Crosshair size={24} />
       </button>
 
-      <MapContainer 
-        center={STORE_LOCATION} // Default center to store
-        zoom={13} 
-        scrollWheelZoom={true} 
-        style={{ height: '100%', width: '100%' }}
-      >
-        <TileLayer
-          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-        />
-        
-        {/* Controllers */}
-        <MapController center={mapCenter} locateTrigger={locateTrigger} />
-        
-        {/* User Selection Marker (Green) */}
-        <LocationMarker onSelect={handleSelect} position={position} />
-        
-        {/* Fixed Store Marker (Red) */}
-        <Marker position={STORE_LOCATION} icon={RedIcon}>
-           <Popup autoPan={false}>
-              <div className="text-center min-w-[120px]">
-                 <strong className="text-orange-600 flex items-center gap-1 justify-center mb-1">
-                    <Store size={16}/> ร้านอาหารด่วน
-                 </strong>
-                 <p className="text-xs text-gray-500 m-0">จุดเริ่มต้นส่งอาหาร</p>
-                 <p className="text-[10px] text-gray-400 mt-1">{STORE_LAT.toFixed(5)}, {STORE_LNG.toFixed(5)}</p>
-              </div>
-           </Popup>
-        </Marker>
-      </MapContainer>
-      
-      <div className="absolute bottom-0 left-0 right-0 bg-white/90 text-[10px] text-center text-gray-500 py-1 z-[400] border-t border-gray-200">
-        *แตะที่แผนที่ หรือกดปุ่มเป้าหมาย เพื่อปักหมุดจุดส่งอาหาร
+      <div ref={mapContainerRef} className="flex-1 w-full" />
+
+      <div className="absolute bottom-0 left-0 right-0 bg-white/90 text-[10px] text-center text-gray-500 py-1 z-[400] border-t border-gray-200 truncate px-2">
+        {position
+          ? `📦 ${position.address || formatCoords(position.lat, position.lng)} · ลากหมุดเพื่อปรับตำแหน่ง`
+          : '*แตะที่แผนที่ หรือกดปุ่มเป้าหมาย เพื่อปักหมุดจุดส่ง'}
       </div>
     </div>
   );
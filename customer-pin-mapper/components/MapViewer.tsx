@@ -1,13 +1,30 @@
 import React, { useEffect, useRef, useState, useImperativeHandle, forwardRef } from 'react';
-import { CustomerPoint, MapViewerHandle } from '../types';
-import { Navigation, Clock, Box, Layers, ArrowRight, ArrowLeft, ArrowUp, MapPin, AlertTriangle, ExternalLink } from 'lucide-react';
+import { CustomerPoint, MapViewerHandle, PAYMENT_METHOD_LABELS, DeliveryOutcome, DELIVERY_OUTCOME_LABELS } from '../types';
+import { RoutingSettings, VoiceSettings, GpsSettings, ShopSettings } from '../services/settingsService';
+import { createPositionFilter } from '../services/positionFilter';
+import { speak, stopSpeaking } from '../services/voiceService';
+import { buildInstruction, ManeuverIcon } from '../services/navInstructions';
+import { createRoutingProvider, getDistanceMatrix, RouteStep } from '../services/routingService';
+import { getDistanceMeters, sortByDistance, formatDistance, formatDuration, projectOntoPolyline, pointOnPolyline, LatLng, PolylineProjection } from '../services/geoService';
+import { optimizeTour } from '../services/routeOptimizer';
+import { readPersisted } from '../services/persistedState';
+import { displayName } from '../services/customerName';
+import { groupSharedBuildings } from '../services/duplicateDetector';
+import { Navigation, Clock, Box, Layers, ArrowRight, ArrowLeft, ArrowUp, ArrowUpLeft, ArrowUpRight, CornerUpLeft, CornerUpRight, Undo2, RotateCw, Split, Merge, MapPin, ExternalLink, Flag, Loader2, Volume2, VolumeX } from 'lucide-react';
 
 interface MapViewerProps {
   points: CustomerPoint[];
   onDeletePoint: (id: string) => void;
-  onFinishJob: (point: CustomerPoint) => void;
+  onEditPoint: (point: CustomerPoint) => void; // เปิดหน้าแก้ไข/ย้ายหมุด
+  onFinishJob: (point: CustomerPoint, outcome?: DeliveryOutcome) => void; // outcome = ผลที่เลือกไว้ก่อนเปิดหน้าส่งงาน
   onTrackingChange?: (isTracking: boolean) => void;
   onShowToast: (message: string, type: 'success' | 'error' | 'info') => void;
+  routingSettings: RoutingSettings;
+  voiceSettings: VoiceSettings;
+  onToggleMute: () => void;
+  gpsSettings: GpsSettings;
+  onArrive: (point: CustomerPoint, arrivedAt: string) => void;
+  shopLocation: ShopSettings;
 }
 
 declare global {
@@ -16,16 +33,100 @@ declare global {
   }
 }
 
-// พิกัดร้านของคุณ
-const SHOP_LOCATION = { lat: 16.43624, lng: 103.5020 };
 // Logo สำรอง
 const DEFAULT_LOGO = "https://i.postimg.cc/QMdZ76mG/Logo_Branch1.webp";
+// ข้อมูลจาก Sheet แสดงใน Popup (innerHTML) ต้อง Escape ก่อน
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c] as string));
+
+// รายละเอียดออเดอร์ใน Popup: เลขออเดอร์, ช่วงเวลาส่ง, ยอดเก็บเงิน, ปุ่มโทร, หมายเหตุ
+const buildOrderDetailsHtml = (point: CustomerPoint) => {
+  const badges: string[] = [];
+  if (point.orderNo) badges.push(`<span class="bg-slate-100 text-slate-700 px-2 py-0.5 rounded-md">${escapeHtml(point.orderNo)}</span>`);
+  if (point.orderTime) {
+    const time = new Date(point.orderTime).toLocaleTimeString('th-TH', { hour: '2-digit', minute: '2-digit' });
+    badges.push(`<span class="text-slate-500">สั่ง ${time} น.</span>`);
+  }
+  if (point.deliveryWindow) {
+    badges.push(`<span class="bg-amber-100 text-amber-800 px-2 py-0.5 rounded-md">ส่ง ${point.deliveryWindow.start}-${point.deliveryWindow.end}</span>`);
+  }
+
+  let amountHtml = '';
+  if (point.paymentMethod === 'paid') {
+    amountHtml = `<div class="text-emerald-600 font-bold text-lg">${PAYMENT_METHOD_LABELS.paid}</div>`;
+  } else if (point.amountDue != null) {
+    const method = point.paymentMethod ? ` <span class="text-sm font-bold text-slate-500">(${PAYMENT_METHOD_LABELS[point.paymentMethod]})</span>` : '';
+    amountHtml = `<div class="text-2xl font-black text-red-600">เก็บ ฿${point.amountDue.toLocaleString('th-TH')}${method}</div>`;
+  }
+
+  const phoneHtml = point.phone
+    ? `<a href="tel:${point.phone.replace(/[^\d+]/g, '')}" class="block w-full bg-sky-500 hover:bg-sky-600 text-white text-lg font-bold py-3 px-4 rounded-xl transition-all shadow-md mb-1" style="color: white;">📞 โทร ${escapeHtml(point.phone)}</a>`
+    : '';
+  const noteHtml = point.note ? `<p class="text-sm text-slate-600 bg-yellow-50 border border-yellow-100 rounded-lg px-3 py-2 mt-1">📝 ${escapeHtml(point.note)}</p>` : '';
+
+  if (!badges.length && !amountHtml && !phoneHtml && !noteHtml) return '';
+  return `
+    <div class="flex flex-wrap justify-center items-center gap-2 text-xs font-bold mt-1">${badges.join('')}</div>
+    ${amountHtml}
+    ${noteHtml}
+    ${phoneHtml ? `<div class="mt-2">${phoneHtml}</div>` : ''}
+  `;
+};
+
+// หมุดที่เคยไปส่งแล้วไม่สำเร็จ: แสดงเหตุผลล่าสุดและจำนวนครั้ง
+const buildFailedAttemptHtml = (point: CustomerPoint) => {
+  if (!point.lastAttempt) return '';
+  const { outcome, reason, at } = point.lastAttempt;
+  const time = new Date(at).toLocaleTimeString('th-TH', { hour: '2-digit', minute: '2-digit' });
+  return `<p class="text-sm font-bold text-red-700 bg-red-50 border border-red-100 rounded-lg px-3 py-2 mt-1">❌ ส่งไม่สำเร็จ: ${DELIVERY_OUTCOME_LABELS[outcome]} — ${escapeHtml(reason)} (ครั้งที่ ${point.attemptCount || 1}, ${time} น.)</p>`;
+};
+
+// ความเร็วเฉลี่ยโดยประมาณ (มอเตอร์ไซค์ในเมือง) ใช้ประเมินเวลาตอน Offline
+const FALLBACK_SPEED_MPS = 25 * 1000 / 3600;
+// เกณฑ์ตรวจจับการออกนอกเส้นทาง
+const OFF_ROUTE_THRESHOLD_METERS = 40;   // ห่างจากเส้นทางเกินนี้ถือว่าหลุด
+const OFF_ROUTE_FIX_COUNT = 3;           // ต้องหลุดติดกันกี่ครั้ง (กัน GPS กระโดด)
+const REROUTE_MIN_INTERVAL_MS = 15000;   // เว้นระยะการเรียก OSRM อย่างน้อย 15 วินาที
+// อยู่ใกล้จุด arrive เท่านี้ถือว่าถึงจุดส่งแล้ว (เสียงนำทาง)
+const ARRIVAL_ANNOUNCE_METERS = 50;
+// ความเร็วต่ำกว่านี้ถือว่าหยุดรถแล้ว (ใช้ตรวจจับการถึงจุดส่ง)
+const STOPPED_SPEED_MPS = 1.5;
+// จำนวนหมุดใกล้ที่สุดที่ลากเส้นประจากตำแหน่งผู้ขับ
+const NEAREST_LINES_COUNT = 5;
+
+// ลูกศรของแต่ละ Maneuver ใน Overlay
+const renderManeuverIcon = (icon: ManeuverIcon) => {
+  const className = "w-8 h-8 text-white";
+  switch (icon) {
+    case 'left': return <ArrowLeft className={className} />;
+    case 'right': return <ArrowRight className={className} />;
+    case 'slight-left': return <ArrowUpLeft className={className} />;
+    case 'slight-right': return <ArrowUpRight className={className} />;
+    case 'sharp-left': return <CornerUpLeft className={className} />;
+    case 'sharp-right': return <CornerUpRight className={className} />;
+    case 'uturn': return <Undo2 className={className} />;
+    case 'roundabout': return <RotateCw className={className} />;
+    case 'fork': return <Split className={className} />;
+    case 'merge': return <Merge className={className} />;
+    case 'depart': return <Navigation className={className} />;
+    case 'arrive': return <MapPin className={className} />;
+    case 'straight':
+    default:
+      return <ArrowUp className={className} />;
+  }
+};
+
+interface TripStop extends LatLng {
+  id: string;
+}
 
-export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(({ points, onDeletePoint, onFinishJob, onTrackingChange, onShowToast }, ref) => {
+export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(({ points, onDeletePoint, onEditPoint, onFinishJob, onTrackingChange, onShowToast, routingSettings, voiceSettings, onToggleMute, gpsSettings, onArrive, shopLocation }, ref) => {
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<any>(null);
   const markersRef = useRef<any[]>([]);
+  const markerByIdRef = useRef<Map<string, any>>(new Map()); // ไว้เปิด Popup จากรายชื่อลูกค้า
   const routeLayerRef = useRef<any>(null); 
+  const drivenLayerRef = useRef<any>(null); // ช่วงเส้นทางที่ขับผ่านแล้ว
   const directionLinesRef = useRef<any[]>([]); 
   
   // State สำหรับ Tracking
@@ -33,30 +134,77 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(({ points,
   const [is3DMode, setIs3DMode] = useState(false);
   
   // State สำหรับข้อมูลเส้นทาง (ระยะทาง/เวลา)
-  const [routeStats, setRouteStats] = useState<{ distance: string, duration: string } | null>(null);
+  const [routeStats, setRouteStats] = useState<{ distance: string, duration: string, stops?: number } | null>(null);
+
+  // ระยะทาง/เวลาที่เหลือ ระหว่างขับ (คำนวณใหม่ทุกครั้งที่ได้ตำแหน่ง GPS)
+  const [liveStats, setLiveStats] = useState<{ distance: string, duration: string, eta: string } | null>(null);
+
+  // ลำดับการส่ง (id ของลูกค้า) เมื่ออยู่ในโหมดวางแผนทริป
+  const [tripOrder, setTripOrder] = useState<string[]>([]);
 
   // State สำหรับ Turn-by-Turn Navigation
   const [navInstruction, setNavInstruction] = useState<{
     text: string;
     distance: number;
-    modifier?: string; // left, right, straight
+    icon: ManeuverIcon; // ลูกศรที่แสดงใน Overlay
     type?: string;
     urgency: 'normal' | 'warning' | 'critical'; // ระดับความเร่งด่วน
   } | null>(null);
 
   const userMarkerRef = useRef<any>(null);
+  const userPositionRef = useRef<LatLng | null>(null); // ตำแหน่งล่าสุดที่ผ่านตัวกรองแล้ว
   const accuracyCircleRef = useRef<any>(null); 
   const watchIdRef = useRef<number | null>(null);
   const fallbackTimeoutRef = useRef<any>(null); 
   const wakeLockRef = useRef<any>(null);
   
   // Ref เก็บข้อมูลเส้นทาง (Steps) เพื่อใช้คำนวณ Real-time
-  const routeStepsRef = useRef<any[]>([]);
+  const routeStepsRef = useRef<RouteStep[]>([]);
   const activeDestinationRef = useRef<{lat: number, lng: number} | null>(null);
   const lastRouteCalcPosRef = useRef<{lat: number, lng: number} | null>(null);
+  const activeTripRef = useRef<{ stops: TripStop[], returnToShop: boolean } | null>(null);
+  const routeCoordsRef = useRef<number[][]>([]); // เส้นทางปัจจุบัน [lng, lat]
+
+  // State สำหรับการคำนวณเส้นทางใหม่อัตโนมัติ
+  const [isRerouting, setIsRerouting] = useState(false);
+  const isReroutingRef = useRef(false);
+  const offRouteCountRef = useRef(0);
+  const lastRerouteAtRef = useRef(0);
+
+  // points ล่าสุด สำหรับ callback ของ GPS ที่ถูกสร้างไว้ตั้งแต่เริ่มนำทาง
+  const pointsRef = useRef(points);
+  pointsRef.current = points;
 
   const shouldAutoPanRef = useRef(false);
 
+  // เสียงนำทาง: ใช้ Ref เพื่อให้ callback ของ GPS เห็นค่าล่าสุดเสมอ
+  const voiceSettingsRef = useRef(voiceSettings);
+  voiceSettingsRef.current = voiceSettings;
+  const announcedRef = useRef<Set<string>>(new Set());
+  // Step ล่าสุดที่ขับผ่านมาแล้ว (ดู updateNavigationInstruction)
+  const stepProgressRef = useRef(0);
+
+  // Geofence ถึงจุดส่ง: เวลาที่เริ่มหยุดในรัศมี และหมุดที่แจ้งไปแล้ว
+  const geofenceEnteredRef = useRef<Map<string, number>>(new Map());
+  const arrivedIdsRef = useRef<Set<string>>(new Set());
+
+  // ตัวกรองตำแหน่ง GPS และการตั้งค่าที่เกี่ยวข้อง
+  const positionFilterRef = useRef(createPositionFilter());
+  const gpsSettingsRef = useRef(gpsSettings);
+  gpsSettingsRef.current = gpsSettings;
+  const is3DModeRef = useRef(is3DMode);
+  is3DModeRef.current = is3DMode;
+  // พิกัดร้าน (แก้ได้จากหน้าตั้งค่า)
+  const shopLocationRef = useRef(shopLocation);
+  shopLocationRef.current = shopLocation;
+  const shopMarkerRef = useRef<any>(null);
+
+  // ผู้ให้บริการเส้นทาง (เปลี่ยนได้จากหน้าตั้งค่า)
+  const routingProviderRef = useRef(createRoutingProvider(routingSettings));
+  useEffect(() => {
+    routingProviderRef.current = createRoutingProvider(routingSettings);
+  }, [routingSettings]);
+
   // ฟังก์ชันขอ Wake Lock
   const requestWakeLock = async () => {
     if ('wakeLock' in navigator) {
@@ -75,92 +223,100 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(({ points,
     }
   };
 
-  const fetchWithRetry = async (url: string, retries = 3, delay = 1000): Promise<Response> => {
-    try {
-      const response = await fetch(url);
-      if (!response.ok) throw new Error(`Status: ${response.status}`);
-      return response;
-    } catch (error) {
-      if (retries > 0) {
-        await new Promise(resolve => setTimeout(resolve, delay));
-        return fetchWithRetry(url, retries - 1, delay);
-      } else {
-        throw error;
-      }
-    }
+  // พูดคำสั่งนำทาง โดยแต่ละ key (step + ระดับความเร่งด่วน) จะพูดเพียงครั้งเดียว
+  const announce = (key: string, text: string) => {
+    if (announcedRef.current.has(key)) return;
+    announcedRef.current.add(key);
+    speak(text, voiceSettingsRef.current);
   };
 
-  const getDistanceMeters = (lat1: number, lon1: number, lat2: number, lon2: number) => {
-    const R = 6371e3; 
-    const φ1 = lat1 * Math.PI / 180;
-    const φ2 = lat2 * Math.PI / 180;
-    const Δφ = (lat2 - lat1) * Math.PI / 180;
-    const Δλ = (lon2 - lon1) * Math.PI / 180;
-    const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
+  // เปลี่ยนเส้นทางใหม่: เริ่มนับความคืบหน้าจาก Step แรก และพูดคำสั่งใหม่ได้ทั้งหมด
+  const setRouteSteps = (steps: RouteStep[]) => {
+    routeStepsRef.current = steps;
+    stepProgressRef.current = 0;
+    announcedRef.current.clear();
   };
 
   // Logic อัปเดตคำสั่งนำทาง (Turn-by-Turn)
+  // ค้นหาเฉพาะช่วงที่กำลังขับ (ตั้งแต่ Step ที่ผ่านมาแล้ว ถึง arrive ของจุดส่งถัดไป) และเดินหน้าอย่างเดียว
+  // ไม่งั้นทริปที่ขากลับร้านใช้ถนนเดิม คำสั่งจะกระโดดไปเป็น Step ของช่วงหลัง
   const updateNavigationInstruction = (userLat: number, userLng: number) => {
-    if (routeStepsRef.current.length === 0) return;
+    const steps = routeStepsRef.current;
+    if (steps.length === 0) return;
+    const distanceTo = (step: RouteStep) => getDistanceMeters(userLat, userLng, step.maneuver.location[1], step.maneuver.location[0]);
 
-    let closestStepIndex = -1;
-    let minDistance = Infinity;
+    const fromIndex = Math.min(stepProgressRef.current, steps.length - 1);
+    let legEnd = steps.findIndex((step, i) => i >= fromIndex && step.maneuver.type === 'arrive');
+    if (legEnd === -1) legEnd = steps.length - 1;
 
-    // หาจุดบนเส้นทางที่ใกล้ที่สุด
-    for (let i = 0; i < routeStepsRef.current.length; i++) {
-        const step = routeStepsRef.current[i];
-        const dist = getDistanceMeters(userLat, userLng, step.maneuver.location[1], step.maneuver.location[0]);
+    let closestStepIndex = fromIndex;
+    let minDistance = Infinity;
+    for (let i = fromIndex; i <= legEnd; i++) {
+        const dist = distanceTo(steps[i]);
         if (dist < minDistance) {
             minDistance = dist;
             closestStepIndex = i;
         }
     }
+    stepProgressRef.current = closestStepIndex;
 
-    if (closestStepIndex !== -1 && closestStepIndex < routeStepsRef.current.length - 1) {
+    if (closestStepIndex < legEnd) {
         let targetStepIndex = closestStepIndex + 1;
-        const targetStep = routeStepsRef.current[targetStepIndex];
-        const distToTarget = getDistanceMeters(userLat, userLng, targetStep.maneuver.location[1], targetStep.maneuver.location[0]);
+        const targetStep = steps[targetStepIndex];
+        const distToTarget = distanceTo(targetStep);
 
-        let instruction = targetStep.maneuver.modifier || targetStep.maneuver.type;
-        // แปลงเป็นไทยง่ายๆ
-        let text = "";
-        const mod = targetStep.maneuver.modifier;
-        
-        if (mod?.includes('left')) text = "เลี้ยวซ้าย";
-        else if (mod?.includes('right')) text = "เลี้ยวขวา";
-        else if (mod?.includes('slight left')) text = "เบี่ยงซ้าย";
-        else if (mod?.includes('slight right')) text = "เบี่ยงขวา";
-        else if (mod?.includes('uturn')) text = "กลับรถ";
-        else if (targetStep.maneuver.type === 'arrive') text = "ถึงจุดหมาย";
-        else text = "ตรงไป"; 
+        // แปลง Maneuver เป็นคำสั่งภาษาไทยพร้อมชื่อถนน
+        const { text: baseText, icon } = buildInstruction(targetStep);
+        let text = baseText;
+        const isArrival = icon === 'arrive';
 
         // 🚨 Logic ความเร่งด่วน (Urgency) 🚨
         let urgency: 'normal' | 'warning' | 'critical' = 'normal';
         const finalDist = Math.round(distToTarget);
+        const spokenText = text;
 
         if (finalDist <= 40) { // ระยะ 40 เมตร (เผื่อ GPS ดีเลย์ = 20 เมตรจริง) -> เตือนวิกฤต
             urgency = 'critical';
-            if (!text.includes("ถึง")) text = `! ${text} ทันที !`;
+            if (!isArrival) text = `! ${text} ทันที !`;
         } else if (finalDist <= 100) { // ระยะ 100 เมตร -> เตือนให้เตรียมตัว
             urgency = 'warning';
-            if (!text.includes("ถึง")) text = `เตรียม ${text}`;
+            if (!isArrival) text = `เตรียม ${text}`;
+        }
+
+        if (urgency === 'critical') {
+            announce(`${targetStepIndex}:critical`, spokenText);
+        } else if (urgency === 'warning') {
+            announce(`${targetStepIndex}:warning`, `อีก ${Math.round(finalDist / 10) * 10} เมตร ${spokenText}`);
         }
 
         setNavInstruction({
             text: text,
             distance: finalDist,
-            modifier: mod,
+            icon: icon,
             type: targetStep.maneuver.type,
             urgency: urgency
         });
-    } else if (closestStepIndex === routeStepsRef.current.length - 1) {
+    } else {
+         // ถึงจุดส่งของช่วงนี้ (ทริปหลายจุด: แจ้งทุกจุด แล้วไปช่วงถัดไป)
+         const isFinal = legEnd === steps.length - 1;
+         const stopNumber = steps.slice(0, legEnd + 1).filter(step => step.maneuver.type === 'arrive').length;
+         const arrived = minDistance < ARRIVAL_ANNOUNCE_METERS;
+         if (arrived) announce(`${legEnd}:arrive`, isFinal ? "ถึงจุดหมายแล้ว" : `ถึงจุดส่งที่ ${stopNumber} แล้ว`);
+
+         // ขับผ่านจุดส่งไปแล้วโดยไม่เข้าใกล้พอ: ตำแหน่งเข้าใกล้ Step ถัดไปของช่วงหน้ามากกว่าตัวจุดส่ง
+         const nextStep = steps[legEnd + 2];
+         const passed = nextStep !== undefined && distanceTo(nextStep) < getDistanceMeters(
+             steps[legEnd].maneuver.location[1], steps[legEnd].maneuver.location[0],
+             nextStep.maneuver.location[1], nextStep.maneuver.location[0]
+         );
+         if (!isFinal && (arrived || passed)) stepProgressRef.current = legEnd + 1;
+
          setNavInstruction({
-            text: "กำลังจะถึงจุดหมาย",
+            text: isFinal ? "กำลังจะถึงจุดหมาย" : `กำลังจะถึงจุดส่งที่ ${stopNumber}`,
             distance: Math.round(minDistance),
+            icon: 'arrive',
             type: 'arrive',
-            urgency: minDistance < 50 ? 'critical' : 'warning'
+            urgency: arrived ? 'critical' : 'warning'
         });
     }
   };
@@ -171,11 +327,7 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(({ points,
     directionLinesRef.current.forEach(line => line.remove());
     directionLinesRef.current = [];
     if (points.length === 0) return;
-    const candidates = points.map(p => ({
-        ...p,
-        distance: getDistanceMeters(userLat, userLng, p.lat, p.lng)
-    }));
-    const nearestPoints = candidates.sort((a, b) => a.distance - b.distance).slice(0, 5);
+    const nearestPoints = sortByDistance({ lat: userLat, lng: userLng }, points, NEAREST_LINES_COUNT);
     nearestPoints.forEach(p => {
         const line = L.polyline([[userLat, userLng], [p.lat, p.lng]], {
             color: '#f97316', weight: 2, dashArray: '5, 10', opacity: 0.6, interactive: false
@@ -189,25 +341,48 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(({ points,
     if (!mapInstanceRef.current || !window.L) return;
     const L = window.L;
 
+    userPositionRef.current = { lat, lng };
     updateNearestLines(lat, lng);
     updateNavigationInstruction(lat, lng); 
 
-    // Auto Reroute Logic
-    if (activeDestinationRef.current && lastRouteCalcPosRef.current) {
-        const distFromLastCalc = getDistanceMeters(
-            lat, lng, 
-            lastRouteCalcPosRef.current.lat, lastRouteCalcPosRef.current.lng
-        );
-        if (distFromLastCalc > 50) { 
-             // TODO: Reroute logic
+    // Auto Reroute Logic: วัดระยะจากเส้นทางจริง ถ้าหลุดเส้นทางติดกันหลายครั้งให้คำนวณใหม่
+    if ((activeDestinationRef.current || activeTripRef.current) && routeCoordsRef.current.length >= 2 && !isReroutingRef.current) {
+        const projection = projectOntoPolyline(lat, lng, routeCoordsRef.current);
+        // ถ้า GPS คลาดเคลื่อนมากกว่าเกณฑ์ ให้ขยายเกณฑ์ตามเพื่อไม่ให้คำนวณใหม่ผิดพลาด
+        const threshold = Math.max(OFF_ROUTE_THRESHOLD_METERS, accuracy);
+        if (projection && projection.distance > threshold) {
+            offRouteCountRef.current += 1;
+        } else {
+            offRouteCountRef.current = 0;
+            // อยู่บนเส้นทาง: อัปเดตระยะทาง/เวลาที่เหลือ
+            if (projection) updateRouteProgress(projection);
+        }
+
+        const sinceLastReroute = Date.now() - lastRerouteAtRef.current;
+        if (offRouteCountRef.current >= OFF_ROUTE_FIX_COUNT && sinceLastReroute >= REROUTE_MIN_INTERVAL_MS) {
+            rerouteFromPosition(lat, lng);
         }
     }
 
-    // 🔴 ROTATION LOGIC
-    if (is3DMode && mapContainerRef.current) {
-        if (heading !== null && !isNaN(heading)) {
+    // 🔴 ROTATION LOGIC (heading มาจากตัวกรอง GPS ซึ่งคำนวณเองได้เมื่อเครื่องไม่ส่งมา)
+    if (heading !== null && !isNaN(heading)) {
+        if (is3DModeRef.current && mapContainerRef.current) {
             mapContainerRef.current.style.setProperty('--map-bearing', `-${heading}deg`);
         }
+        const arrow = document.getElementById('user-heading-arrow');
+        if (arrow) arrow.style.transform = `rotate(${heading}deg)`;
+    }
+
+    // ดึงหมุดให้อยู่บนเส้นทาง (เฉพาะการแสดงผล การนำทางยังใช้ตำแหน่งจริง)
+    let displayLat = lat;
+    let displayLng = lng;
+    if (gpsSettingsRef.current.snapToRoute && routeCoordsRef.current.length >= 2) {
+        const projection = projectOntoPolyline(lat, lng, routeCoordsRef.current);
+        if (projection && projection.distance <= Math.max(OFF_ROUTE_THRESHOLD_METERS, accuracy)) {
+            const snapped = pointOnPolyline(routeCoordsRef.current, projection);
+            displayLat = snapped.lat;
+            displayLng = snapped.lng;
+        }
     }
 
     if (!userMarkerRef.current) {
@@ -225,17 +400,17 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(({ points,
           popupAnchor: [0, -20]
         });
 
-        userMarkerRef.current = L.marker([lat, lng], { icon: userIcon, zIndexOffset: 9999 })
+        userMarkerRef.current = L.marker([displayLat, displayLng], { icon: userIcon, zIndexOffset: 9999 })
           .addTo(mapInstanceRef.current);
 
-        accuracyCircleRef.current = L.circle([lat, lng], { radius: accuracy, color: '#2563eb', fillOpacity: 0.1, weight: 1 })
+        accuracyCircleRef.current = L.circle([displayLat, displayLng], { radius: accuracy, color: '#2563eb', fillOpacity: 0.1, weight: 1 })
           .addTo(mapInstanceRef.current);
 
         shouldAutoPanRef.current = true;
-        mapInstanceRef.current.setView([lat, lng], 18, { animate: true }); 
+        mapInstanceRef.current.setView([displayLat, displayLng], 18, { animate: true }); 
 
     } else {
-        const newLatLng = new L.LatLng(lat, lng);
+        const newLatLng = new L.LatLng(displayLat, displayLng);
         userMarkerRef.current.setLatLng(newLatLng);
         
         if (accuracyCircleRef.current) {
@@ -249,19 +424,89 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(({ points,
     }
   };
 
+  const clearRouteLayers = () => {
+    if (!mapInstanceRef.current) return;
+    if (routeLayerRef.current) mapInstanceRef.current.removeLayer(routeLayerRef.current);
+    if (drivenLayerRef.current) mapInstanceRef.current.removeLayer(drivenLayerRef.current);
+    routeLayerRef.current = null;
+    drivenLayerRef.current = null;
+  };
+
+  // วาดเส้นทางถนนจริง แยกเป็นช่วงที่ขับผ่านแล้ว (สีเทา) กับช่วงที่เหลือ (สีน้ำเงิน)
+  const drawRouteLine = (coords: number[][]) => {
+    const L = window.L;
+    clearRouteLayers();
+    drivenLayerRef.current = L.polyline([], {
+      color: '#94a3b8', weight: 8, opacity: 0.7, lineCap: 'round', lineJoin: 'round', interactive: false
+    }).addTo(mapInstanceRef.current);
+    routeLayerRef.current = L.polyline(coords.map(c => [c[1], c[0]]), {
+      color: '#3b82f6', weight: 8, opacity: 0.8, lineCap: 'round', lineJoin: 'round'
+    }).addTo(mapInstanceRef.current);
+    setLiveStats(null);
+  };
+
+  // คำนวณระยะทาง/เวลาที่เหลือจากตำแหน่งบนเส้นทาง และตัดช่วงที่ขับผ่านแล้วเป็นสีเทา
+  const updateRouteProgress = (projection: PolylineProjection) => {
+    const coords = routeCoordsRef.current;
+    const steps = routeStepsRef.current;
+    if (coords.length < 2 || !routeLayerRef.current || !drivenLayerRef.current) return;
+
+    const a = coords[projection.segmentIndex];
+    const b = coords[projection.segmentIndex + 1];
+    const splitPoint = [a[1] + (b[1] - a[1]) * projection.t, a[0] + (b[0] - a[0]) * projection.t];
+    const driven = [...coords.slice(0, projection.segmentIndex + 1).map(c => [c[1], c[0]]), splitPoint];
+    const remaining = [splitPoint, ...coords.slice(projection.segmentIndex + 1).map(c => [c[1], c[0]])];
+    drivenLayerRef.current.setLatLngs(driven);
+    routeLayerRef.current.setLatLngs(remaining);
+
+    // ระยะตามเส้น (Geometry) อาจต่างจากผลรวมระยะของ Steps เล็กน้อย จึงเทียบเป็นสัดส่วน
+    let geometryLength = 0;
+    for (let i = 0; i < coords.length - 1; i++) {
+      geometryLength += getDistanceMeters(coords[i][1], coords[i][0], coords[i + 1][1], coords[i + 1][0]);
+    }
+    const stepsLength = steps.reduce((sum, step) => sum + step.distance, 0);
+    const remainingDistance = Math.max(0, geometryLength - projection.along);
+
+    let remainingDuration = remainingDistance / FALLBACK_SPEED_MPS;
+    if (stepsLength > 0 && geometryLength > 0) {
+      const alongSteps = projection.along * (stepsLength / geometryLength);
+      let cumulative = 0;
+      remainingDuration = 0;
+      for (const step of steps) {
+        const stepEnd = cumulative + step.distance;
+        if (alongSteps >= stepEnd) {
+          cumulative = stepEnd;
+          continue;
+        }
+        // Step ที่กำลังขับอยู่: คิดเวลาตามสัดส่วนที่เหลือ
+        const fractionLeft = step.distance > 0 ? Math.min(1, (stepEnd - alongSteps) / step.distance) : 1;
+        remainingDuration += step.duration * fractionLeft;
+        cumulative = stepEnd;
+      }
+    }
+
+    const arrival = new Date(Date.now() + remainingDuration * 1000);
+    setLiveStats({
+      distance: formatDistance(remainingDistance),
+      duration: formatDuration(remainingDuration),
+      eta: arrival.toLocaleTimeString('th-TH', { hour: '2-digit', minute: '2-digit' })
+    });
+  };
+
   const drawRoute = async (destLat: number, destLng: number, isBackgroundUpdate = false) => {
     if (!mapInstanceRef.current) return;
     const L = window.L;
 
     activeDestinationRef.current = { lat: destLat, lng: destLng };
+    activeTripRef.current = null;
 
     if (!isBackgroundUpdate) {
         document.body.style.cursor = 'wait';
         onShowToast("กำลังคำนวณเส้นทาง...", "info");
     }
 
-    let startLat = SHOP_LOCATION.lat;
-    let startLng = SHOP_LOCATION.lng;
+    let startLat = shopLocationRef.current.lat;
+    let startLng = shopLocationRef.current.lng;
     
     if (userMarkerRef.current) {
       const latlng = userMarkerRef.current.getLatLng();
@@ -283,23 +528,21 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(({ points,
     
     if (distanceMeters < 50) { 
         setRouteStats({ distance: `${Math.round(distanceMeters)} ม.`, duration: 'ถึงแล้ว' });
-        setNavInstruction({ text: "ถึงจุดหมายแล้ว", distance: 0, type: 'arrive', urgency: 'critical' });
+        setNavInstruction({ text: "ถึงจุดหมายแล้ว", distance: 0, icon: 'arrive', type: 'arrive', urgency: 'critical' });
         return; 
     }
 
     try {
-      const response = await fetchWithRetry(
-        `https://router.project-osrm.org/route/v1/driving/${startLng},${startLat};${destLng},${destLat}?overview=full&geometries=geojson&steps=true`,
-        1, 1000
-      );
+      const route = await routingProviderRef.current.route([
+        { lat: startLat, lng: startLng },
+        { lat: destLat, lng: destLng }
+      ]);
 
-      const data = await response.json();
-
-      if (data.code === 'Ok' && data.routes && data.routes.length > 0) {
-        const route = data.routes[0];
+      if (route.legs.length > 0) {
         const routeGeoJSON = route.geometry;
         
-        routeStepsRef.current = route.legs[0].steps;
+        setRouteSteps(route.legs[0].steps);
+        routeCoordsRef.current = routeGeoJSON.coordinates;
 
         const distKm = (route.distance / 1000).toFixed(1);
         const durMin = Math.ceil(route.duration / 60);
@@ -307,15 +550,7 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(({ points,
 
         updateNavigationInstruction(startLat, startLng);
 
-        if (routeLayerRef.current) {
-          mapInstanceRef.current.removeLayer(routeLayerRef.current);
-        }
-
-        routeLayerRef.current = L.geoJSON(routeGeoJSON, {
-          style: {
-            color: '#3b82f6', weight: 8, opacity: 0.8, lineCap: 'round', lineJoin: 'round'
-          }
-        }).addTo(mapInstanceRef.current);
+        drawRouteLine(routeGeoJSON.coordinates);
 
         if (!isBackgroundUpdate) {
             mapInstanceRef.current.fitBounds(routeLayerRef.current.getBounds(), { padding: [50, 50] });
@@ -325,7 +560,11 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(({ points,
         throw new Error("No route found");
       }
     } catch (error) {
-       if (routeLayerRef.current) mapInstanceRef.current.removeLayer(routeLayerRef.current);
+       // คำนวณใหม่ระหว่างขับไม่สำเร็จ (เช่น หลุดสัญญาณชั่วครู่): คงเส้นทางเดิมไว้ตรวจการออกนอกเส้นทางต่อ
+       // ยังหลุดเส้นทางอยู่จะลองคำนวณใหม่เองเมื่อครบ REROUTE_MIN_INTERVAL_MS
+       if (isBackgroundUpdate && routeCoordsRef.current.length >= 2) return;
+       clearRouteLayers();
+       routeCoordsRef.current = [];
        routeLayerRef.current = L.polyline([[startLat, startLng], [destLat, destLng]], {
          color: '#f97316', weight: 5, dashArray: '10, 10'
       }).addTo(mapInstanceRef.current);
@@ -334,6 +573,137 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(({ points,
     }
   };
 
+  // วาดเส้นทางต่อกันหลายจุด (ใช้ทั้งตอนวางแผนทริป และตอนคำนวณใหม่ระหว่างขับ)
+  const drawTripRoute = async (start: LatLng, stops: TripStop[], returnToShop: boolean, isRoad: boolean, isBackgroundUpdate = false) => {
+    if (!mapInstanceRef.current) return;
+    const L = window.L;
+
+    activeDestinationRef.current = null;
+    activeTripRef.current = { stops, returnToShop };
+    lastRouteCalcPosRef.current = start;
+
+    const waypoints: LatLng[] = [start, ...stops];
+    if (returnToShop) waypoints.push(shopLocationRef.current);
+
+    let drawn = false;
+    if (isRoad) {
+      try {
+        const route = await routingProviderRef.current.route(waypoints);
+        if (route.legs.length > 0) {
+          setRouteSteps(route.legs.flatMap(leg => leg.steps));
+          routeCoordsRef.current = route.geometry.coordinates;
+          setRouteStats({ distance: formatDistance(route.distance), duration: formatDuration(route.duration), stops: stops.length });
+          drawRouteLine(route.geometry.coordinates);
+          drawn = true;
+        }
+      } catch (e) {}
+    }
+
+    // คำนวณใหม่ระหว่างขับไม่สำเร็จ: คงเส้นทางเดิมไว้ (เหมือน drawRoute)
+    if (!drawn && isBackgroundUpdate && routeCoordsRef.current.length >= 2) return;
+
+    if (!drawn) {
+      // Offline: ลากเส้นตรงตามลำดับ และประเมินเวลาจากความเร็วเฉลี่ย
+      let total = 0;
+      for (let i = 0; i < waypoints.length - 1; i++) {
+        total += getDistanceMeters(waypoints[i].lat, waypoints[i].lng, waypoints[i + 1].lat, waypoints[i + 1].lng);
+      }
+      clearRouteLayers();
+      setRouteSteps([]);
+      // เส้นตรงไม่ใช่ถนนจริง จึงไม่ใช้ตรวจจับการออกนอกเส้นทาง
+      routeCoordsRef.current = [];
+      setRouteStats({ distance: formatDistance(total), duration: formatDuration(total / FALLBACK_SPEED_MPS), stops: stops.length });
+      routeLayerRef.current = L.polyline(waypoints.map(w => [w.lat, w.lng]), {
+        color: '#f97316', weight: 5, dashArray: '10, 10'
+      }).addTo(mapInstanceRef.current);
+      if (!isBackgroundUpdate) onShowToast("ไม่สามารถเชื่อมต่อระบบนำทางได้ ใช้ระยะทางเส้นตรงแทน", "info");
+    }
+
+    if (!isBackgroundUpdate) {
+      mapInstanceRef.current.fitBounds(routeLayerRef.current.getBounds(), { padding: [50, 50] });
+    }
+  };
+
+  // วางแผนทริป: จัดลำดับส่งทุกจุดโดยเริ่มจากร้าน แล้ววาดเส้นทางทั้งหมดต่อกัน
+  const planTrip = async (returnToShop: boolean) => {
+    if (!mapInstanceRef.current) return;
+
+    if (points.length === 0) {
+      onShowToast("ยังไม่มีหมุดลูกค้าให้วางแผน", "error");
+      return;
+    }
+
+    document.body.style.cursor = 'wait';
+    onShowToast(`กำลังจัดลำดับการส่ง ${points.length} จุด...`, "info");
+
+    try {
+      const locations: LatLng[] = [shopLocationRef.current, ...points.map(p => ({ lat: p.lat, lng: p.lng }))];
+      const { matrix, isRoad } = await getDistanceMatrix(routingProviderRef.current, locations);
+      const { order } = optimizeTour(matrix, returnToShop);
+      const orderedPoints = order.map(i => points[i - 1]);
+
+      setTripOrder(orderedPoints.map(p => p.id));
+      await drawTripRoute(
+        shopLocationRef.current,
+        orderedPoints.map(p => ({ id: p.id, lat: p.lat, lng: p.lng })),
+        returnToShop,
+        isRoad
+      );
+    } finally {
+      document.body.style.cursor = 'default';
+    }
+  };
+
+  // คำนวณเส้นทางใหม่จากตำแหน่งปัจจุบัน (เมื่อออกนอกเส้นทาง) แบบไม่รบกวนผู้ขับ
+  const rerouteFromPosition = async (lat: number, lng: number) => {
+    isReroutingRef.current = true;
+    setIsRerouting(true);
+    lastRerouteAtRef.current = Date.now();
+    offRouteCountRef.current = 0;
+
+    try {
+      if (activeTripRef.current) {
+        // ตัดจุดที่ส่งเสร็จแล้ว (ไม่อยู่ใน points) ออกจากทริป
+        const activeIds = new Set(pointsRef.current.map(p => p.id));
+        const remaining = activeTripRef.current.stops.filter(stop => activeIds.has(stop.id));
+        if (remaining.length > 0 || activeTripRef.current.returnToShop) {
+          await drawTripRoute({ lat, lng }, remaining, activeTripRef.current.returnToShop, true, true);
+        }
+      } else if (activeDestinationRef.current) {
+        await drawRoute(activeDestinationRef.current.lat, activeDestinationRef.current.lng, true);
+      }
+    } finally {
+      isReroutingRef.current = false;
+      setIsRerouting(false);
+    }
+  };
+
+  // Geofence: เมื่อหยุดอยู่ในรัศมีหมุดลูกค้านานพอ ให้แจ้งว่าถึงแล้ว (ครั้งเดียวต่อหมุด)
+  const checkArrivalGeofences = (lat: number, lng: number, speed: number) => {
+    const { arrivalRadius, arrivalDwellSeconds } = gpsSettingsRef.current;
+    const now = Date.now();
+    const isStopped = speed < STOPPED_SPEED_MPS;
+
+    pointsRef.current.forEach(point => {
+      if (arrivedIdsRef.current.has(point.id)) return;
+
+      const distance = getDistanceMeters(lat, lng, point.lat, point.lng);
+      if (distance > arrivalRadius || !isStopped) {
+        geofenceEnteredRef.current.delete(point.id);
+        return;
+      }
+
+      const since = geofenceEnteredRef.current.get(point.id);
+      if (since === undefined) {
+        geofenceEnteredRef.current.set(point.id, now);
+      } else if (now - since >= arrivalDwellSeconds * 1000) {
+        arrivedIdsRef.current.add(point.id);
+        geofenceEnteredRef.current.delete(point.id);
+        onArrive(point, new Date(since).toISOString());
+      }
+    });
+  };
+
   const startWatchingPosition = (enableHighAccuracy: boolean) => {
     if (!('geolocation' in navigator) || !mapInstanceRef.current) return;
     
@@ -352,8 +722,14 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(({ points,
     watchIdRef.current = navigator.geolocation.watchPosition(
       (position) => {
         if (fallbackTimeoutRef.current) clearTimeout(fallbackTimeoutRef.current);
-        const { latitude, longitude, accuracy, heading } = position.coords;
-        updateUserMarker(latitude, longitude, accuracy, heading);
+        const { latitude, longitude, accuracy, heading, speed } = position.coords;
+        const filtered = positionFilterRef.current.process({
+          lat: latitude, lng: longitude, accuracy, heading, speed, timestamp: position.timestamp
+        });
+        // ตำแหน่งที่ถูกตัดทิ้ง (แม่นยำต่ำ/กระโดด) ไม่ต้องอัปเดตอะไร
+        if (!filtered) return;
+        updateUserMarker(filtered.lat, filtered.lng, filtered.accuracy, filtered.heading);
+        checkArrivalGeofences(filtered.lat, filtered.lng, filtered.speed);
       },
       (error) => { /* Error Handling */ },
       { enableHighAccuracy: enableHighAccuracy, maximumAge: 0, timeout: 10000 } 
@@ -363,6 +739,9 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(({ points,
   const stopTrackingInternal = () => {
     if (watchIdRef.current !== null) navigator.geolocation.clearWatch(watchIdRef.current);
     releaseWakeLock();
+    stopSpeaking();
+    positionFilterRef.current.reset();
+    geofenceEnteredRef.current.clear();
     setIsTracking(false);
     setIs3DMode(false);
     shouldAutoPanRef.current = false;
@@ -408,21 +787,59 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(({ points,
         onShowToast("เปิดโหมดนำทาง 3D", "info");
       }
     },
+    planTrip: (returnToShop: boolean) => {
+      planTrip(returnToShop);
+    },
+    getPlannedRoute: () => {
+      if (tripOrder.length === 0) return null;
+      // จุดที่ส่งเสร็จแล้วจะหายไปจาก points เหลือเฉพาะจุดที่ยังต้องไป
+      const stops = tripOrder
+        .map(id => points.find(p => p.id === id))
+        .filter((p): p is CustomerPoint => p !== undefined);
+      const straightLine = [shopLocationRef.current, ...stops, ...(activeTripRef.current?.returnToShop ? [shopLocationRef.current] : [])];
+      const line = routeCoordsRef.current.length > 1
+        ? routeCoordsRef.current.map(c => ({ lat: c[1], lng: c[0] }))
+        : straightLine.map(({ lat, lng }) => ({ lat, lng }));
+      return { stops, line };
+    },
+    getUserPosition: () => userPositionRef.current,
+    focusPoint: (id: string) => {
+      const marker = markerByIdRef.current.get(id);
+      if (!marker || !mapInstanceRef.current) return;
+      shouldAutoPanRef.current = false;
+      mapInstanceRef.current.setView(marker.getLatLng(), Math.max(mapInstanceRef.current.getZoom(), 17), { animate: true });
+      marker.openPopup();
+    },
+    navigateToPoint: (id: string) => {
+      const point = points.find(p => p.id === id);
+      if (point) drawRoute(point.lat, point.lng);
+    },
+    resetArrival: (id: string) => {
+      arrivedIdsRef.current.delete(id);
+      geofenceEnteredRef.current.delete(id);
+    },
     resetToShop: () => {
       if (mapInstanceRef.current) {
-        mapInstanceRef.current.setView([SHOP_LOCATION.lat, SHOP_LOCATION.lng], 16, { animate: true });
-        if (routeLayerRef.current) {
-          mapInstanceRef.current.removeLayer(routeLayerRef.current);
-          routeLayerRef.current = null;
-        }
+        mapInstanceRef.current.setView([shopLocationRef.current.lat, shopLocationRef.current.lng], 16, { animate: true });
+        clearRouteLayers();
         activeDestinationRef.current = null;
+        activeTripRef.current = null;
+        routeCoordsRef.current = [];
+        offRouteCountRef.current = 0;
         setRouteStats(null);
+        setLiveStats(null);
         setNavInstruction(null);
-        routeStepsRef.current = [];
+        setTripOrder([]);
+        setRouteSteps([]);
       }
     }
   }));
 
+  // ย้ายหมุดร้านเมื่อแก้พิกัดร้านในหน้าตั้งค่า
+  useEffect(() => {
+    if (shopMarkerRef.current) shopMarkerRef.current.setLatLng([shopLocation.lat, shopLocation.lng]);
+  }, [shopLocation]);
+
   useEffect(() => {
     const handleVisibilityChange = () => {
       if (document.visibilityState === 'visible' && isTracking) requestWakeLock();
@@ -439,14 +856,14 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(({ points,
     const L = window.L;
 
     if (!mapInstanceRef.current) {
-      mapInstanceRef.current = L.map(mapContainerRef.current, { zoomControl: false }).setView([SHOP_LOCATION.lat, SHOP_LOCATION.lng], 13);
+      mapInstanceRef.current = L.map(mapContainerRef.current, { zoomControl: false }).setView([shopLocationRef.current.lat, shopLocationRef.current.lng], 13);
       L.control.zoom({ position: 'topleft' }).addTo(mapInstanceRef.current);
       L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', { attribution: '&copy; OpenStreetMap contributors' }).addTo(mapInstanceRef.current);
 
       mapInstanceRef.current.on('dragstart', () => { shouldAutoPanRef.current = false; });
       mapInstanceRef.current.on('zoomstart', () => { shouldAutoPanRef.current = false; });
 
-      const savedLogo = localStorage.getItem('seoulgood_logo');
+      const savedLogo = readPersisted('seoulgood_logo');
       const displayLogo = savedLogo || DEFAULT_LOGO;
       const shopIcon = L.divIcon({
         className: 'custom-shop-icon',
@@ -456,7 +873,7 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(({ points,
         popupAnchor: [0, -28]
       });
 
-      L.marker([SHOP_LOCATION.lat, SHOP_LOCATION.lng], { icon: shopIcon }).addTo(mapInstanceRef.current)
+      shopMarkerRef.current = L.marker([shopLocationRef.current.lat, shopLocationRef.current.lng], { icon: shopIcon }).addTo(mapInstanceRef.current)
         .bindPopup(`ร้าน`, { autoPan: true });
       
       setTimeout(() => { mapInstanceRef.current.invalidateSize(); }, 200);
@@ -466,18 +883,24 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(({ points,
     
     markersRef.current.forEach(marker => marker.remove());
     markersRef.current = [];
+    markerByIdRef.current.clear();
     const bounds = L.latLngBounds();
-    bounds.extend([SHOP_LOCATION.lat, SHOP_LOCATION.lng]);
+    bounds.extend([shopLocationRef.current.lat, shopLocationRef.current.lng]);
 
     if (points.length > 0) {
+      // ลูกค้าหลายรายในอาคารเดียวกัน (คอนโด/หอพัก) แสดงป้ายจำนวนบนหมุด และรายชื่อใน Popup
+      const sharedBuildings = groupSharedBuildings(points);
+
       points.forEach(point => {
-        const noPrefixNeeded = /^(ร้าน|บริษัท|หจก|โรงเรียน|วัด|ธนาคาร|คุณ|Mr\.|Ms\.|Mrs\.)/.test(point.name);
-        const displayName = noPrefixNeeded ? point.name : `คุณ${point.name}`;
+        const neighbours = sharedBuildings.get(point.id) || [];
 
         const popupContent = document.createElement('div');
         popupContent.className = "text-center font-sans p-3 min-w-[350px]";
         popupContent.innerHTML = `
-          <h3 class="font-extrabold text-2xl text-slate-900 mb-1 leading-tight tracking-tight">${displayName}</h3>
+          <h3 class="font-extrabold text-2xl text-slate-900 mb-1 leading-tight tracking-tight">${escapeHtml(displayName(point.name))}</h3>
+          ${buildFailedAttemptHtml(point)}
+          ${buildOrderDetailsHtml(point)}
+          ${neighbours.length > 0 ? `<p class="text-xs font-bold text-orange-700 bg-orange-50 border border-orange-100 rounded-lg px-3 py-2 mt-1">🏢 อาคารเดียวกับ: ${neighbours.map(n => escapeHtml(n.name)).join(', ')}</p>` : ''}
           <div class="flex flex-col gap-2 mt-2">
             <button class="btn-in-app-route block w-full bg-indigo-600 hover:bg-indigo-700 text-white text-lg font-bold py-3 px-4 rounded-xl transition-all shadow-md flex items-center justify-center gap-2 mb-1">
                นำทาง (ในแอป)
@@ -489,6 +912,12 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(({ points,
             <button class="btn-finish-job block w-full bg-emerald-500 hover:bg-emerald-600 text-white text-lg font-bold py-3 px-4 rounded-xl transition-all shadow-md flex items-center justify-center gap-2 mb-1">
                ✅ ส่งสำเร็จ (ถ่ายรูป)
             </button>
+            <button class="btn-failed-job block w-full bg-white hover:bg-red-50 text-red-600 text-base font-bold py-2.5 px-4 rounded-xl border border-red-200 transition-all mb-1">
+               ❌ ส่งไม่สำเร็จ
+            </button>
+            <button class="btn-edit-pin block w-full bg-white hover:bg-slate-50 text-slate-700 text-sm font-bold py-2 px-4 rounded-xl border border-slate-200 transition-all">
+               ✏️ แก้ไข / ย้ายหมุด
+            </button>
             <button class="btn-delete block w-full text-red-300 hover:text-red-500 text-xs font-bold py-2 px-4 mt-2">ลบหมุด (Admin)</button>
           </div>
         `;
@@ -509,6 +938,14 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(({ points,
         if (finishBtn) {
           finishBtn.addEventListener('click', () => { onFinishJob(point); map.closePopup(); });
         }
+        const failedBtn = popupContent.querySelector('.btn-failed-job');
+        if (failedBtn) {
+          failedBtn.addEventListener('click', () => { onFinishJob(point, 'not_reachable'); map.closePopup(); });
+        }
+        const editBtn = popupContent.querySelector('.btn-edit-pin');
+        if (editBtn) {
+          editBtn.addEventListener('click', () => { onEditPoint(point); map.closePopup(); });
+        }
         const deleteBtn = popupContent.querySelector('.btn-delete');
         if (deleteBtn) {
             deleteBtn.addEventListener('click', () => {
@@ -517,12 +954,43 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(({ points,
             });
         }
 
-        const marker = L.marker([point.lat, point.lng]).addTo(map).bindPopup(popupContent, { maxWidth: 500, minWidth: 350 }); 
+        // ในโหมดทริป แสดงหมายเลขลำดับการส่งแทนหมุดปกติ (หมุดที่รอส่งซ้ำเป็นสีส้ม)
+        // นอกทริป หมุดที่รอส่งซ้ำแสดงเป็นหมุดสีแดงมีเครื่องหมาย !
+        const tripIndex = tripOrder.indexOf(point.id);
+        const isRetry = Boolean(point.lastAttempt);
+        let markerOptions = {};
+        if (tripIndex !== -1) {
+          markerOptions = {
+            icon: L.divIcon({
+              className: 'trip-order-icon',
+              html: `<div style="background-color: ${isRetry ? '#d97706' : '#2563eb'}; color: white; width: 32px; height: 32px; border-radius: 50%; border: 3px solid white; box-shadow: 0 4px 6px rgba(0,0,0,0.3); display: flex; align-items: center; justify-content: center; font-weight: 800; font-size: 14px;">${tripIndex + 1}</div>`,
+              iconSize: [32, 32],
+              iconAnchor: [16, 16],
+              popupAnchor: [0, -16]
+            })
+          };
+        } else if (isRetry) {
+          markerOptions = {
+            icon: L.divIcon({
+              className: 'retry-point-icon',
+              html: `<div style="background-color: #dc2626; width: 30px; height: 30px; border-radius: 50% 50% 50% 0; transform: rotate(-45deg); border: 3px solid #fde68a; box-shadow: 0 4px 6px rgba(0,0,0,0.3); display: flex; align-items: center; justify-content: center;"><span style="transform: rotate(45deg); color: white; font-weight: 900; font-size: 15px;">!</span></div>`,
+              iconSize: [30, 30],
+              iconAnchor: [15, 30],
+              popupAnchor: [0, -30]
+            })
+          };
+        }
+
+        const marker = L.marker([point.lat, point.lng], markerOptions).addTo(map).bindPopup(popupContent, { maxWidth: 500, minWidth: 350 }); 
+        if (neighbours.length > 0) {
+          marker.bindTooltip(`🏢 ${neighbours.length + 1}`, { permanent: true, direction: 'right', offset: [10, 0], className: 'shared-building-badge' });
+        }
         markersRef.current.push(marker);
+        markerByIdRef.current.set(point.id, marker);
         bounds.extend([point.lat, point.lng]);
       });
     }
-  }, [points, onDeletePoint, onFinishJob, onShowToast]);
+  }, [points, tripOrder, onDeletePoint, onEditPoint, onFinishJob, onShowToast]);
 
   return (
     <div className="relative w-full h-full bg-slate-100">
@@ -535,8 +1003,26 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(({ points,
             {is3DMode ? <Layers className="w-6 h-6 text-blue-600" /> : <Box className="w-6 h-6" />}
         </button>
 
+        <button 
+          onClick={onToggleMute}
+          className="absolute top-48 left-3 z-[1000] bg-white p-2 rounded-lg shadow-md border border-gray-200 text-gray-700 hover:bg-gray-50 active:scale-95 transition-all"
+          title={voiceSettings.muted ? "เปิดเสียงนำทาง" : "ปิดเสียงนำทาง"}
+        >
+            {voiceSettings.muted ? <VolumeX className="w-6 h-6 text-red-500" /> : <Volume2 className="w-6 h-6 text-blue-600" />}
+        </button>
+
+        {/* 🔄 Rerouting Overlay 🔄 */}
+        {isRerouting && isTracking && (
+             <div className="absolute top-2 left-2 right-2 md:left-1/2 md:-translate-x-1/2 md:w-96 backdrop-blur-md rounded-2xl shadow-2xl border p-4 z-[1050] flex items-center gap-4 bg-blue-700/95 border-blue-600 text-white">
+                 <div className="p-3 rounded-full flex-shrink-0 bg-white/20">
+                    <Loader2 className="w-8 h-8 text-white animate-spin" />
+                 </div>
+                 <p className="flex-1 text-xl font-bold">กำลังคำนวณเส้นทางใหม่</p>
+             </div>
+        )}
+
         {/* 🟢 Turn-by-Turn Overlay 🟢 */}
-        {navInstruction && isTracking && (
+        {navInstruction && isTracking && !isRerouting && (
              <div 
                className={`absolute top-2 left-2 right-2 md:left-1/2 md:-translate-x-1/2 md:w-96 backdrop-blur-md rounded-2xl shadow-2xl border p-4 z-[1050] flex items-center gap-4 animate-in slide-in-from-top-4 transition-colors duration-300
                  ${navInstruction.urgency === 'critical' ? 'bg-emerald-600/95 border-emerald-500 text-white' : 
@@ -545,17 +1031,20 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(({ points,
                `}
              >
                  <div className={`p-3 rounded-full flex-shrink-0 bg-white/20 ${navInstruction.urgency === 'critical' ? 'animate-pulse' : ''}`}>
-                    {navInstruction.text.includes('ซ้าย') ? <ArrowLeft className="w-8 h-8 text-white" /> :
-                     navInstruction.text.includes('ขวา') ? <ArrowRight className="w-8 h-8 text-white" /> :
-                     navInstruction.text.includes('ถึง') ? <MapPin className="w-8 h-8 text-white" /> :
-                     navInstruction.text.includes('เตรียม') ? <AlertTriangle className="w-8 h-8 text-white" /> :
-                     <ArrowUp className="w-8 h-8 text-white" />}
+                    {renderManeuverIcon(navInstruction.icon)}
                  </div>
                  <div className="flex-1">
                      <p className="text-3xl font-black leading-none mb-1">{navInstruction.distance} <span className="text-sm font-normal opacity-80">เมตร</span></p>
                      <p className={`text-xl font-bold ${navInstruction.urgency === 'critical' ? 'text-white' : 'text-slate-100'}`}>
                        {navInstruction.text}
                      </p>
+                     {liveStats && (
+                         <p className="mt-2 pt-2 border-t border-white/20 text-sm font-bold flex items-center gap-3 opacity-90">
+                             <span>เหลือ {liveStats.distance}</span>
+                             <span>{liveStats.duration}</span>
+                             <span className="flex items-center gap-1"><Clock className="w-4 h-4" /> ถึง {liveStats.eta} น.</span>
+                         </p>
+                     )}
                  </div>
              </div>
         )}
@@ -571,6 +1060,12 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(({ points,
                     <Clock className="w-5 h-5 text-emerald-600" />
                     <p className="text-xl font-black text-slate-800">{routeStats.duration}</p>
                 </div>
+                {routeStats.stops !== undefined && (
+                    <div className="flex items-center gap-2 pl-4 border-l border-slate-200">
+                        <Flag className="w-5 h-5 text-orange-500" />
+                        <p className="text-xl font-black text-slate-800">{routeStats.stops} <span className="text-sm font-normal text-slate-500">จุด</span></p>
+                    </div>
+                )}
             </div>
         )}
     </div>
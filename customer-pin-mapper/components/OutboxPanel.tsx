@@ -0,0 +1,118 @@
+import React from 'react';
+import { X, RefreshCw, Trash2, CloudOff, CheckCircle2, Clock, AlertTriangle } from 'lucide-react';
+import { OutboxItem, OUTBOX_KIND_LABELS, targetOf } from '../services/outboxService';
+
+interface OutboxPanelProps {
+  items: OutboxItem[];
+  onResend: (id: string) => void;
+  onResendAll: () => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatTime = (ms: number) => new Date(ms).toLocaleTimeString('th-TH', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// หน้าตรวจคิวส่งข้อมูลไป Google Sheet (สำหรับ Admin)
+export const OutboxPanel: React.FC<OutboxPanelProps> = ({ items, onResend, onResendAll, onRemove, onClose }) => {
+  const failedCount = items.filter(item => item.status === 'failed').length;
+  // รายการที่ต่อคิวหลังรายการล้มเหลวของแถวเดียวกันใน Sheet (จะไม่ถูกส่งจนกว่ารายการนั้นจะส่งใหม่หรือถูกลบ)
+  const isWaitingBehindFailed = (index: number) =>
+    items.slice(0, index).some(earlier => earlier.status === 'failed' && targetOf(earlier) === targetOf(items[index]));
+
+  const handleRemove = (item: OutboxItem) => {
+    if (window.confirm(`ลบ "${item.label}" ออกจากคิว? ข้อมูลนี้จะไม่ถูกส่งไปที่ Sheet`)) onRemove(item.id);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[2000] bg-black/50 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-slate-50">
+          <div>
+            <h2 className="text-xl font-bold text-slate-800">คิวส่งข้อมูลไป Sheet</h2>
+            <p className="text-sm text-slate-500">
+              รอส่ง {items.length - failedCount} · ล้มเหลว {failedCount}
+              {!navigator.onLine && <span className="text-amber-600 font-bold"> · ออฟไลน์อยู่</span>}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-2">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 bg-slate-100 space-y-2">
+          {items.length === 0 && (
+            <div className="flex flex-col items-center justify-center text-slate-400 py-10">
+              <CheckCircle2 className="w-12 h-12 mb-3 opacity-40" />
+              <p>ส่งข้อมูลครบแล้ว ไม่มีรายการค้าง</p>
+            </div>
+          )}
+          {items.map((item, index) => (
+            <div key={item.id} className="bg-white rounded-xl border border-slate-200 p-3">
+              <div className="flex items-start gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 text-[10px] font-bold">
+                    {item.status === 'failed' ? (
+                      <span className="bg-red-100 text-red-700 px-2 py-0.5 rounded-md">ล้มเหลว</span>
+                    ) : (
+                      <span className="bg-amber-100 text-amber-800 px-2 py-0.5 rounded-md">รอส่ง</span>
+                    )}
+                    <span className="bg-slate-100 text-slate-600 px-2 py-0.5 rounded-md">{OUTBOX_KIND_LABELS[item.kind]}</span>
+                    {item.status === 'pending' && isWaitingBehindFailed(index) && (
+                      <span className="text-red-600">รอรายการก่อนหน้าที่ล้มเหลว</span>
+                    )}
+                  </div>
+                  <p className="font-bold text-slate-800 mt-1 truncate">{item.label}</p>
+                  <p className="text-xs text-slate-500 flex items-center gap-1">
+                    <Clock className="w-3 h-3" />
+                    เข้าคิว {new Date(item.createdAt).toLocaleString('th-TH')} · ลองแล้ว {item.attempts} ครั้ง
+                    {item.status === 'pending' && item.attempts > 0 && ` · ครั้งต่อไป ${formatTime(item.nextAttemptAt)}`}
+                  </p>
+                  {item.lastError && (
+                    <p className="text-xs text-red-600 font-bold flex items-center gap-1 mt-1">
+                      <AlertTriangle className="w-3 h-3 flex-shrink-0" /> {item.lastError}
+                    </p>
+                  )}
+                </div>
+                <button
+                  onClick={() => onResend(item.id)}
+                  className="p-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 shadow-sm"
+                  title="ส่งใหม่ตอนนี้"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleRemove(item)}
+                  className="p-2 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50"
+                  title="ลบออกจากคิว"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <details className="mt-2">
+                <summary className="text-[11px] text-slate-400 cursor-pointer select-none">ข้อมูลที่ส่ง</summary>
+                <pre className="mt-1 text-[10px] text-slate-600 bg-slate-50 rounded-md p-2 overflow-x-auto whitespace-pre-wrap break-all">
+                  {JSON.stringify({ ...item.payload, requestId: item.id }, null, 2)}
+                </pre>
+                <p className="text-[10px] text-slate-400 break-all">{item.url}</p>
+              </details>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 bg-white border-t flex gap-3">
+          <button onClick={onClose} className="flex-1 py-2.5 bg-slate-100 text-slate-700 font-bold rounded-xl hover:bg-slate-200 transition-colors">
+            ปิด
+          </button>
+          <button
+            onClick={onResendAll}
+            disabled={items.length === 0}
+            className="flex-[2] py-2.5 bg-blue-600 text-white font-bold rounded-xl hover:bg-blue-700 shadow-lg shadow-blue-200 flex items-center justify-center gap-2 transition-all disabled:opacity-50 disabled:shadow-none"
+          >
+            {navigator.onLine ? <RefreshCw className="w-4 h-4" /> : <CloudOff className="w-4 h-4" />}
+            ส่งทั้งหมดตอนนี้
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
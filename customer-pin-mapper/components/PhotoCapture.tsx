@@ -1,58 +1,154 @@
-import React, { useRef, useState } from 'react';
-import { Camera, X, Check, RotateCcw } from 'lucide-react';
-import { CustomerPoint } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, X, Check, Crosshair, AlertTriangle, Plus, PenLine } from 'lucide-react';
+import { CustomerPoint, DeliveryPhoto, DeliveryOutcome, DELIVERY_OUTCOME_LABELS, isFailedOutcome } from '../types';
+import { stampPhoto } from '../services/photoStamp';
+import { displayName, isCorporateName } from '../services/customerName';
+import { SignaturePad } from './SignaturePad';
 
 interface PhotoCaptureProps {
   point: CustomerPoint;
-  onConfirm: (photoDataUrl: string) => void;
+  initialOutcome?: DeliveryOutcome;
+  onConfirm: (proof: DeliveryProof) => void;
   onCancel: () => void;
 }
 
-export const PhotoCapture: React.FC<PhotoCaptureProps> = ({ point, onConfirm, onCancel }) => {
+export type DevicePosition = { lat: number, lng: number, accuracy: number };
+
+// หลักฐานการส่งจากหน้าส่งงาน (photos ว่าง = ไม่ได้ถ่ายรูป ใช้ได้เฉพาะกรณีส่งไม่สำเร็จ)
+export interface DeliveryProof {
+  outcome: DeliveryOutcome;
+  reason?: string;
+  note?: string;
+  photos: DeliveryPhoto[]; // url เป็น Data URL
+  recipientName?: string;
+  signatureDataUrl?: string;
+  devicePosition: DevicePosition | null; // GPS ของเครื่อง ณ ตอนกดยืนยัน (null = หาตำแหน่งไม่ได้)
+}
+
+// เหตุผลที่ใช้บ่อย แตะเพื่อเติมได้เลยไม่ต้องพิมพ์
+const REASON_PRESETS: Record<DeliveryOutcome, string[]> = {
+  delivered: [],
+  left_with_guard: ['ลูกค้าไม่อยู่ ฝากตามที่ลูกค้าแจ้ง', 'ลูกค้าให้ฝากไว้ที่ป้อม'],
+  partial: ['ของไม่ครบ', 'ลูกค้ารับบางรายการ'],
+  not_reachable: ['โทรไม่รับ', 'ปิดเครื่อง', 'ไม่มีคนอยู่'],
+  wrong_address: ['หาที่อยู่ไม่เจอ', 'หมุดผิดตำแหน่ง', 'ลูกค้าย้ายที่อยู่'],
+  refused: ['สินค้าเสียหาย', 'ลูกค้าไม่ได้สั่ง', 'ไม่มีเงินจ่าย'],
+};
+
+const MAX_PHOTOS = 5;
+
+// รอพิกัดแรกได้นานเท่าไหร่ ก่อนประทับรูปว่า "หาตำแหน่งไม่ได้"
+const GPS_WAIT_MS = 8000;
+
+export const PhotoCapture: React.FC<PhotoCaptureProps> = ({ point, initialOutcome = 'delivered', onConfirm, onCancel }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [outcome, setOutcome] = useState<DeliveryOutcome>(initialOutcome);
+  const [reason, setReason] = useState('');
+  const [note, setNote] = useState('');
+  const [photos, setPhotos] = useState<DeliveryPhoto[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [recipientName, setRecipientName] = useState('');
+  const [signature, setSignature] = useState<string | null>(null);
+  const isCorporate = isCorporateName(point.name);
+  const [showSignature, setShowSignature] = useState(isCorporate);
+
+  // ติดตาม GPS ของเครื่องตลอดที่เปิดหน้านี้ เพื่อประทับพิกัดจริงตอนถ่าย (ไม่ใช่พิกัดหมุด)
+  const [position, setPosition] = useState<DevicePosition | null>(null);
+  const positionRef = useRef<DevicePosition | null>(null);
+  const firstFixRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    if (!('geolocation' in navigator)) return;
+    const watchId = navigator.geolocation.watchPosition(
+      (pos) => {
+        const next = { lat: pos.coords.latitude, lng: pos.coords.longitude, accuracy: pos.coords.accuracy };
+        positionRef.current = next;
+        setPosition(next);
+        firstFixRef.current?.();
+      },
+      (error) => console.warn("GPS unavailable for photo stamp", error),
+      { enableHighAccuracy: true, maximumAge: 5000, timeout: 20000 }
+    );
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, []);
+
+  const waitForPosition = (): Promise<DevicePosition | null> => {
+    if (positionRef.current) return Promise.resolve(positionRef.current);
+    return new Promise(resolve => {
+      const timer = setTimeout(() => resolve(positionRef.current), GPS_WAIT_MS);
+      firstFixRef.current = () => {
+        clearTimeout(timer);
+        firstFixRef.current = null;
+        resolve(positionRef.current);
+      };
+    });
+  };
+
+  const customerName = displayName(point.name);
 
-  // Logic เพื่อเพิ่มความสุภาพ (เติม "คุณ" ถ้ายังไม่มี และไม่ใช่ร้านค้า)
-  const noPrefixNeeded = /^(ร้าน|บริษัท|หจก|โรงเรียน|วัด|ธนาคาร|คุณ|Mr\.|Ms\.|Mrs\.)/.test(point.name);
-  const displayName = noPrefixNeeded ? point.name : `คุณ${point.name}`;
+  // ส่งไม่สำเร็จ ไม่บังคับรูป (เช่น หาที่อยู่ไม่เจอ) แต่ต้องบอกเหตุผลทุกกรณีที่ไม่ใช่ส่งสำเร็จปกติ
+  const failed = isFailedOutcome(outcome);
+  const photoRequired = !failed;
+  const reasonRequired = outcome !== 'delivered';
+  const signatureRequired = isCorporate && !failed;
+
+  const handleConfirm = () => {
+    if (reasonRequired && !reason.trim()) {
+      alert("กรุณาระบุเหตุผล");
+      return;
+    }
+    if (photoRequired && photos.length === 0) {
+      alert("กรุณาถ่ายรูปยืนยันการส่ง");
+      return;
+    }
+    if (signatureRequired && (!recipientName.trim() || !signature)) {
+      alert("ลูกค้านิติบุคคล กรุณาใส่ชื่อผู้รับและให้ผู้รับเซ็นชื่อ");
+      return;
+    }
+    // ลายเซ็น/ชื่อผู้รับ ใช้เฉพาะเมื่อส่งของถึงมือ (ส่งไม่สำเร็จไม่มีผู้รับ)
+    const withRecipient = !failed && showSignature;
+    onConfirm({
+      outcome,
+      ...(reasonRequired && { reason: reason.trim() }),
+      ...(note.trim() && { note: note.trim() }),
+      photos,
+      ...(withRecipient && recipientName.trim() && { recipientName: recipientName.trim() }),
+      ...(withRecipient && signature && { signatureDataUrl: signature }),
+      devicePosition: positionRef.current,
+    });
+  };
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
+    const files = Array.from(event.target.files || []).slice(0, MAX_PHOTOS - photos.length);
+    // ล้างค่า เพื่อให้เลือกไฟล์เดิมซ้ำได้
+    event.target.value = '';
+    if (files.length > 0) {
       setIsProcessing(true);
-      processImage(file);
+      processImages(files);
     }
   };
 
-  // ลดขนาดรูปภาพก่อนบันทึกเพื่อประหยัดพื้นที่และให้ทำงานเร็ว
-  const processImage = (file: File) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = (e) => {
-      const img = new Image();
-      img.src = e.target?.result as string;
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        const MAX_WIDTH = 800; // จำกัดความกว้างไม่เกิน 800px
-        const scaleSize = MAX_WIDTH / img.width;
-        
-        // ถ้าปกติน้อยกว่า 800 ก็ไม่ต้องย่อมาก
-        const targetWidth = img.width > MAX_WIDTH ? MAX_WIDTH : img.width;
-        const targetHeight = img.width > MAX_WIDTH ? img.height * scaleSize : img.height;
+  // ลดขนาดรูปภาพก่อนบันทึกเพื่อประหยัดพื้นที่และให้ทำงานเร็ว พร้อมประทับข้อมูลการส่งลงรูป
+  const processImages = async (files: File[]) => {
+    for (const file of files) {
+      try {
+        const result = await stampPhoto(file, {
+          customerName: point.name,
+          displayName: customerName,
+          orderNo: point.orderNo,
+          position: await waitForPosition(),
+        });
+        setPhotos(prev => [...prev, { url: result.dataUrl, stamp: result.stamp }]);
+      } catch (e) {
+        console.error("Failed to process photo", e);
+        alert("ประมวลผลรูปไม่สำเร็จ กรุณาถ่ายใหม่");
+      }
+    }
+    setIsProcessing(false);
+  };
 
-        canvas.width = targetWidth;
-        canvas.height = targetHeight;
-        
-        const ctx = canvas.getContext('2d');
-        ctx?.drawImage(img, 0, 0, targetWidth, targetHeight);
-        
-        // Compress JPEG quality 0.7
-        const compressedBase64 = canvas.toDataURL('image/jpeg', 0.7);
-        setPreviewUrl(compressedBase64);
-        setIsProcessing(false);
-      };
-    };
+  const removePhoto = (index: number) => {
+    setPhotos(prev => prev.filter((_, i) => i !== index));
   };
 
   return (
@@ -61,69 +157,193 @@ export const PhotoCapture: React.FC<PhotoCaptureProps> = ({ point, onConfirm, on
         
         <div className="p-4 bg-slate-100 border-b flex justify-between items-center">
           <div>
-            <h3 className="font-bold text-lg text-slate-800">ส่งงาน: {displayName}</h3>
-            <p className="text-xs text-slate-500">ถ่ายรูปสินค้าหรือหน้าร้านเพื่อยืนยัน</p>
+            <h3 className="font-bold text-lg text-slate-800">ส่งงาน: {customerName}</h3>
+            <p className="text-xs text-slate-500">
+              {failed ? 'บันทึกเหตุผลที่ส่งไม่สำเร็จ หมุดจะยังอยู่ในคิวส่งซ้ำ' : 'ถ่ายรูปสินค้าหรือหน้าร้านเพื่อยืนยัน'}
+            </p>
           </div>
           <button onClick={onCancel} className="p-2 bg-white rounded-full text-slate-500 hover:text-red-500 transition-colors">
             <X className="w-5 h-5" />
           </button>
         </div>
 
-        <div className="flex-1 p-4 flex flex-col items-center justify-center bg-slate-50 relative min-h-[300px]">
-          {isProcessing ? (
-             <div className="text-blue-600 font-bold animate-pulse">กำลังประมวลผลรูปภาพ...</div>
-          ) : previewUrl ? (
-            <div className="relative w-full h-full flex items-center justify-center bg-black rounded-lg overflow-hidden border border-slate-200">
-              <img src={previewUrl} alt="Preview" className="max-w-full max-h-[50vh] object-contain" />
+        <div className="flex-1 overflow-y-auto">
+          {/* Outcome */}
+          <div className="p-4 pb-0 grid grid-cols-2 gap-2">
+            {(Object.keys(DELIVERY_OUTCOME_LABELS) as DeliveryOutcome[]).map(option => {
+              const selected = outcome === option;
+              const tone = isFailedOutcome(option)
+                ? (selected ? 'bg-red-600 text-white border-red-600' : 'bg-white text-red-700 border-red-200 hover:bg-red-50')
+                : (selected ? 'bg-green-600 text-white border-green-600' : 'bg-white text-green-700 border-green-200 hover:bg-green-50');
+              return (
+                <button
+                  key={option}
+                  onClick={() => { setOutcome(option); setReason(''); }}
+                  className={`py-2 px-2 rounded-lg border text-xs font-bold transition-colors ${tone}`}
+                >
+                  {DELIVERY_OUTCOME_LABELS[option]}
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="p-4 flex flex-col items-center justify-center bg-slate-50 relative min-h-[220px] mt-4 border-y border-slate-100">
+            {photos.length > 0 ? (
+              <div className="w-full grid grid-cols-3 gap-2">
+                {photos.map((photo, i) => (
+                  <div key={i} className="relative aspect-square bg-black rounded-lg overflow-hidden border border-slate-200">
+                    <img src={photo.url} alt={`Proof ${i + 1}`} className="w-full h-full object-cover" />
+                    <button
+                      onClick={() => removePhoto(i)}
+                      className="absolute top-1 right-1 p-1 bg-white/90 rounded-full text-slate-500 hover:text-red-500 shadow-sm"
+                      title="ลบรูปนี้"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+                {isProcessing ? (
+                  <div className="aspect-square rounded-lg border-2 border-dashed border-blue-200 flex items-center justify-center text-center text-[11px] text-blue-600 font-bold animate-pulse p-1">
+                    {position ? 'กำลังประมวลผล...' : 'กำลังหา GPS...'}
+                  </div>
+                ) : photos.length < MAX_PHOTOS && (
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="aspect-square rounded-lg border-2 border-dashed border-slate-300 flex flex-col items-center justify-center gap-1 text-slate-500 text-xs font-bold hover:bg-slate-100"
+                  >
+                    <Plus className="w-6 h-6" /> เพิ่มรูป
+                  </button>
+                )}
+              </div>
+            ) : isProcessing ? (
+               <div className="text-blue-600 font-bold animate-pulse">
+                 {position ? 'กำลังประมวลผลรูปภาพ...' : 'กำลังหาตำแหน่ง GPS...'}
+               </div>
+            ) : (
+              <div 
+                onClick={() => fileInputRef.current?.click()}
+                className="w-full h-full border-2 border-dashed border-slate-300 rounded-xl flex flex-col items-center justify-center gap-3 cursor-pointer hover:bg-slate-100 transition-colors min-h-[180px]"
+              >
+                <div className="w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center text-blue-600">
+                  <Camera className="w-8 h-8" />
+                </div>
+                <span className="text-slate-500 font-medium">
+                  {photoRequired ? 'แตะเพื่อถ่ายรูป' : 'แตะเพื่อถ่ายรูป (ไม่บังคับ)'}
+                </span>
+                <span className="text-[11px] text-slate-400">ถ่ายได้สูงสุด {MAX_PHOTOS} รูป</span>
+              </div>
+            )}
+            
+            <div className={`mt-3 flex items-center gap-1 text-xs font-bold ${position ? 'text-emerald-600' : 'text-amber-600'}`}>
+              <Crosshair className="w-3 h-3" />
+              {position
+                ? `GPS ${position.lat.toFixed(5)}, ${position.lng.toFixed(5)} (±${Math.round(position.accuracy)} ม.)`
+                : 'กำลังหาตำแหน่ง GPS...'}
             </div>
-          ) : (
-            <div 
-              onClick={() => fileInputRef.current?.click()}
-              className="w-full h-full border-2 border-dashed border-slate-300 rounded-xl flex flex-col items-center justify-center gap-4 cursor-pointer hover:bg-slate-100 transition-colors min-h-[250px]"
-            >
-              <div className="w-20 h-20 bg-blue-100 rounded-full flex items-center justify-center text-blue-600">
-                <Camera className="w-10 h-10" />
+
+            <input 
+              type="file" 
+              accept="image/*" 
+              capture="environment" // บังคับเปิดกล้องบนมือถือ
+              multiple
+              ref={fileInputRef}
+              className="hidden" 
+              onChange={handleFileChange}
+            />
+          </div>
+
+          <div className="p-4 space-y-3">
+            {reasonRequired && (
+              <div>
+                <label className="flex items-center gap-1 text-xs font-bold text-gray-600 mb-1">
+                  <AlertTriangle className="w-3 h-3 text-amber-500" /> เหตุผล (จำเป็น)
+                </label>
+                {REASON_PRESETS[outcome].length > 0 && (
+                  <div className="flex flex-wrap gap-1 mb-2">
+                    {REASON_PRESETS[outcome].map(preset => (
+                      <button
+                        key={preset}
+                        onClick={() => setReason(preset)}
+                        className={`px-2 py-1 rounded-full border text-[11px] font-bold ${
+                          reason === preset ? 'bg-slate-800 text-white border-slate-800' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-100'
+                        }`}
+                      >
+                        {preset}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <input
+                  type="text"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="พิมพ์เหตุผล"
+                  className="w-full p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+              </div>
+            )}
+            {!failed && (showSignature ? (
+              <div className="space-y-2">
+                <div>
+                  <label className="block text-xs font-bold text-gray-600 mb-1">
+                    ชื่อผู้รับ {signatureRequired ? '(จำเป็น)' : ''}
+                  </label>
+                  <input
+                    type="text"
+                    value={recipientName}
+                    onChange={(e) => setRecipientName(e.target.value)}
+                    placeholder="เช่น คุณสมศรี ฝ่ายจัดซื้อ"
+                    className="w-full p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-gray-600 mb-1">
+                    ลายเซ็นผู้รับ {signatureRequired ? '(จำเป็น)' : ''}
+                  </label>
+                  <SignaturePad onChange={setSignature} />
+                </div>
               </div>
-              <span className="text-slate-500 font-medium">แตะเพื่อถ่ายรูป</span>
+            ) : (
+              <button
+                onClick={() => setShowSignature(true)}
+                className="w-full flex items-center justify-center gap-2 py-2 text-sm font-bold text-slate-600 bg-slate-50 border border-slate-200 rounded-lg hover:bg-slate-100"
+              >
+                <PenLine className="w-4 h-4" /> ให้ผู้รับเซ็นรับของ
+              </button>
+            ))}
+            <div>
+              <label className="block text-xs font-bold text-gray-600 mb-1">หมายเหตุ</label>
+              <textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                rows={2}
+                placeholder="เช่น นัดส่งใหม่พรุ่งนี้เช้า"
+                className="w-full p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none resize-none"
+              />
             </div>
-          )}
-          
-          <input 
-            type="file" 
-            accept="image/*" 
-            capture="environment" // บังคับเปิดกล้องบนมือถือ
-            ref={fileInputRef}
-            className="hidden" 
-            onChange={handleFileChange}
-          />
+          </div>
         </div>
 
         <div className="p-4 bg-white border-t flex gap-3">
-          {previewUrl ? (
-            <>
-              <button 
-                onClick={() => {
-                  setPreviewUrl(null);
-                  fileInputRef.current?.click();
-                }}
-                className="flex-1 py-3 bg-slate-100 text-slate-700 font-bold rounded-xl flex items-center justify-center gap-2 hover:bg-slate-200"
-              >
-                <RotateCcw className="w-5 h-5" /> ถ่ายใหม่
-              </button>
-              <button 
-                onClick={() => onConfirm(previewUrl)}
-                className="flex-[2] py-3 bg-green-600 text-white font-bold rounded-xl shadow-lg shadow-green-200 flex items-center justify-center gap-2 hover:bg-green-700"
-              >
-                <Check className="w-5 h-5" /> ยืนยันส่งงาน
-              </button>
-            </>
-          ) : (
+          {photoRequired && photos.length === 0 ? (
             <button 
               onClick={() => fileInputRef.current?.click()}
-              className="w-full py-3 bg-blue-600 text-white font-bold rounded-xl shadow-lg shadow-blue-200 flex items-center justify-center gap-2 hover:bg-blue-700"
+              disabled={isProcessing}
+              className="w-full py-3 bg-blue-600 text-white font-bold rounded-xl shadow-lg shadow-blue-200 flex items-center justify-center gap-2 hover:bg-blue-700 disabled:opacity-50"
             >
               <Camera className="w-5 h-5" /> เปิดกล้อง
             </button>
+          ) : (
+            <button 
+              onClick={handleConfirm}
+              disabled={isProcessing}
+              className={`w-full py-3 text-white font-bold rounded-xl shadow-lg flex items-center justify-center gap-2 disabled:opacity-50 ${
+                failed ? 'bg-red-600 shadow-red-200 hover:bg-red-700' : 'bg-green-600 shadow-green-200 hover:bg-green-700'
+              }`}
+            >
+              <Check className="w-5 h-5" /> {failed ? 'บันทึกส่งไม่สำเร็จ' : 'ยืนยันส่งงาน'}
+              {photos.length > 0 && <span className="text-xs font-normal opacity-80">({photos.length} รูป)</span>}
+            </button>
           )}
         </div>
       </div>
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { X, Check, MapPin, CloudUpload } from 'lucide-react';
+import { CustomerPoint, LocationState } from '../types';
+import { LatLng, getDistanceMeters, formatDistance } from '../services/geoService';
+import { Geocoder } from '../services/geocoderService';
+import { MapPicker } from './MapPicker';
+
+interface PinEditorProps {
+  point: CustomerPoint | null; // null = เพิ่มลูกค้าใหม่เอง
+  shopLocation: LatLng;
+  geocoder: Geocoder;
+  onSave: (point: CustomerPoint, pushToSheet: boolean) => void;
+  onCancel: () => void;
+}
+
+export const PinEditor: React.FC<PinEditorProps> = ({ point, shopLocation, geocoder, onSave, onCancel }) => {
+  const [location, setLocation] = useState<LocationState | null>(point ? { lat: point.lat, lng: point.lng } : null);
+  const [name, setName] = useState(point?.name || '');
+  const [orderNo, setOrderNo] = useState(point?.orderNo || '');
+  const [phone, setPhone] = useState(point?.phone || '');
+  const [note, setNote] = useState(point?.note || '');
+  // ส่งพิกัดใหม่กลับไปที่ Sheet ได้เฉพาะออเดอร์ที่มาจาก Sheet (มีเลขออเดอร์)
+  const [pushToSheet, setPushToSheet] = useState(Boolean(point?.orderNo));
+
+  const movedBy = point && location ? getDistanceMeters(point.lat, point.lng, location.lat, location.lng) : 0;
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      alert("กรุณาใส่ชื่อลูกค้า");
+      return;
+    }
+    if (!location) {
+      alert("กรุณาแตะแผนที่เพื่อปักหมุดจุดส่ง");
+      return;
+    }
+
+    const saved: CustomerPoint = {
+      ...(point || { id: `manual-${Date.now()}` }),
+      name: name.trim(),
+      lat: location.lat,
+      lng: location.lng,
+    };
+    // ช่องที่ลบข้อความออกหมด ให้ลบออกจากหมุดด้วย
+    const fields = { orderNo, phone, note };
+    (Object.keys(fields) as (keyof typeof fields)[]).forEach(key => {
+      if (fields[key].trim()) saved[key] = fields[key].trim();
+      else delete saved[key];
+    });
+
+    onSave(saved, pushToSheet && Boolean(saved.orderNo) && movedBy > 0);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[2000] bg-black/50 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden flex flex-col max-h-[95vh]">
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-slate-50">
+          <div>
+            <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+              <MapPin className="w-5 h-5 text-blue-600" />
+              {point ? `แก้ไขหมุด ${point.name}` : 'เพิ่มลูกค้าเอง'}
+            </h2>
+            <p className="text-xs text-slate-500">แตะแผนที่เพื่อปักหมุด ลากหมุดเพื่อย้าย หรือค้นหาสถานที่</p>
+          </div>
+          <button onClick={onCancel} className="text-gray-400 hover:text-gray-600 p-2">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          <div className="h-[45vh] min-h-[260px]">
+            <MapPicker
+              onLocationSelect={setLocation}
+              initialLocation={location}
+              shopLocation={shopLocation}
+              geocoder={geocoder}
+            />
+          </div>
+
+          {point && movedBy > 0 && (
+            <p className="text-xs font-bold text-amber-700 bg-amber-50 border border-amber-100 rounded-lg px-3 py-2">
+              ย้ายหมุดจากตำแหน่งเดิม {formatDistance(movedBy)}
+            </p>
+          )}
+
+          <div className="grid grid-cols-3 gap-2">
+            <div className="col-span-2">
+              <label className="block text-xs font-bold text-gray-600 mb-1">ชื่อลูกค้า</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="เช่น คุณต้น"
+                className="w-full p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-gray-600 mb-1">เลขออเดอร์</label>
+              <input
+                type="text"
+                value={orderNo}
+                onChange={(e) => setOrderNo(e.target.value)}
+                placeholder="#01"
+                className="w-full p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-gray-600 mb-1">เบอร์โทร</label>
+            <input
+              type="tel"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+              className="w-full p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-gray-600 mb-1">หมายเหตุ</label>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={2}
+              placeholder="เช่น ตึก B ชั้น 5 / ฝากไว้ที่ป้อมยาม"
+              className="w-full p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none resize-none"
+            />
+          </div>
+
+          {point && (
+            <label className={`flex items-center gap-2 text-sm select-none ${orderNo.trim() ? 'text-gray-700 cursor-pointer' : 'text-gray-400'}`}>
+              <input
+                type="checkbox"
+                checked={pushToSheet && Boolean(orderNo.trim())}
+                disabled={!orderNo.trim()}
+                onChange={(e) => setPushToSheet(e.target.checked)}
+                className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+              />
+              <CloudUpload className="w-4 h-4" />
+              ส่งพิกัดที่แก้แล้วกลับไปที่ Google Sheet (ต้องมีเลขออเดอร์)
+            </label>
+          )}
+        </div>
+
+        <div className="p-4 bg-white border-t flex gap-3">
+          <button onClick={onCancel} className="flex-1 py-2.5 bg-slate-100 text-slate-700 font-bold rounded-xl hover:bg-slate-200 transition-colors">
+            ยกเลิก
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex-[2] py-2.5 bg-blue-600 text-white font-bold rounded-xl hover:bg-blue-700 shadow-lg shadow-blue-200 flex items-center justify-center gap-2 transition-all"
+          >
+            <Check className="w-4 h-4" />
+            {point ? 'บันทึกหมุด' : 'เพิ่มหมุด'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
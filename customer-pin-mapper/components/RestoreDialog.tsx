@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { X, Upload, AlertTriangle, MapPin, History, Image as ImageIcon, Settings } from 'lucide-react';
+import { BackupPreview, RestoreMode } from '../services/backupService';
+
+interface RestoreDialogProps {
+  preview: BackupPreview;
+  onConfirm: (mode: RestoreMode, includeSettings: boolean) => void;
+  onCancel: () => void;
+}
+
+export const RestoreDialog: React.FC<RestoreDialogProps> = ({ preview, onConfirm, onCancel }) => {
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [includeSettings, setIncludeSettings] = useState(true);
+
+  const { data, conflicts } = preview;
+  const conflictTotal = conflicts.points + conflicts.history;
+
+  return (
+    <div className="fixed inset-0 z-[2100] bg-black/50 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-slate-50">
+          <div>
+            <h2 className="text-xl font-bold text-slate-800">กู้คืนข้อมูล</h2>
+            <p className="text-xs text-slate-500">สำรองเมื่อ {new Date(preview.createdAt).toLocaleString('th-TH')}</p>
+          </div>
+          <button onClick={onCancel} className="text-gray-400 hover:text-gray-600 p-2">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {/* Preview */}
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="bg-blue-50 rounded-xl p-3">
+              <MapPin className="w-5 h-5 text-blue-600 mx-auto mb-1" />
+              <p className="text-lg font-black text-slate-800">{data.points.length}</p>
+              <p className="text-[10px] font-bold text-slate-500">หมุดลูกค้า</p>
+            </div>
+            <div className="bg-emerald-50 rounded-xl p-3">
+              <History className="w-5 h-5 text-emerald-600 mx-auto mb-1" />
+              <p className="text-lg font-black text-slate-800">{data.history.length}</p>
+              <p className="text-[10px] font-bold text-slate-500">ประวัติส่งงาน</p>
+            </div>
+            <div className="bg-amber-50 rounded-xl p-3">
+              <ImageIcon className="w-5 h-5 text-amber-600 mx-auto mb-1" />
+              <p className="text-lg font-black text-slate-800">{preview.photos}</p>
+              <p className="text-[10px] font-bold text-slate-500">รูปหลักฐาน</p>
+            </div>
+          </div>
+
+          {preview.invalid > 0 && (
+            <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-xl text-xs text-red-700">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              มีข้อมูลเสีย {preview.invalid} รายการในไฟล์ ระบบจะข้ามรายการเหล่านี้
+            </div>
+          )}
+
+          {/* Mode */}
+          <div className="space-y-2">
+            <label className={`flex items-start gap-3 p-3 rounded-xl border cursor-pointer ${mode === 'merge' ? 'border-blue-500 bg-blue-50' : 'border-slate-200'}`}>
+              <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} className="mt-1" />
+              <div>
+                <p className="text-sm font-bold text-slate-800">รวมกับข้อมูลในเครื่อง</p>
+                <p className="text-xs text-slate-500">
+                  เพิ่มเฉพาะรายการที่ยังไม่มี
+                  {conflictTotal > 0 && ` (ซ้ำ ${conflictTotal} รายการ จะใช้ข้อมูลในเครื่อง)`}
+                </p>
+              </div>
+            </label>
+            <label className={`flex items-start gap-3 p-3 rounded-xl border cursor-pointer ${mode === 'replace' ? 'border-red-500 bg-red-50' : 'border-slate-200'}`}>
+              <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} className="mt-1" />
+              <div>
+                <p className="text-sm font-bold text-slate-800">แทนที่ข้อมูลทั้งหมด</p>
+                <p className="text-xs text-slate-500">ลบหมุดและประวัติในเครื่องนี้ แล้วใช้ข้อมูลจากไฟล์แทน</p>
+              </div>
+            </label>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={includeSettings}
+              onChange={(e) => setIncludeSettings(e.target.checked)}
+              className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+            />
+            <Settings className="w-4 h-4 text-slate-400" />
+            กู้คืนการตั้งค่า (ตำแหน่งร้าน, Logo, ลิงก์ Google Script ยกเว้น API Key)
+          </label>
+        </div>
+
+        <div className="p-4 bg-white border-t flex gap-3">
+          <button onClick={onCancel} className="flex-1 py-2.5 bg-slate-100 text-slate-700 font-bold rounded-xl hover:bg-slate-200 transition-colors">
+            ยกเลิก
+          </button>
+          <button
+            onClick={() => onConfirm(mode, includeSettings)}
+            className={`flex-[2] py-2.5 text-white font-bold rounded-xl shadow-lg flex items-center justify-center gap-2 transition-all ${
+              mode === 'replace' ? 'bg-red-600 hover:bg-red-700 shadow-red-200' : 'bg-blue-600 hover:bg-blue-700 shadow-blue-200'
+            }`}
+          >
+            <Upload className="w-4 h-4" /> กู้คืน
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
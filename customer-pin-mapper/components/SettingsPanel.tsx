@@ -0,0 +1,440 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Save, Route, Volume2, Crosshair, Store, LocateFixed, Download, Upload, Loader2, RefreshCw, Search } from 'lucide-react';
+import { AppSettings, RoutingProviderId, ROUTING_DEFAULTS, GeocoderProviderId, GEOCODER_DEFAULTS } from '../services/settingsService';
+import { getAvailableVoices, isVoiceSupported, speak } from '../services/voiceService';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onSave: (settings: AppSettings) => void;
+  onClose: () => void;
+  onBackup: () => Promise<void>;
+  onRestoreFile: (file: File) => void;
+}
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave, onClose, onBackup, onRestoreFile }) => {
+  // แก้ไขบนสำเนา แล้วค่อยบันทึกเมื่อกดปุ่ม
+  const [draft, setDraft] = useState<AppSettings>(settings);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(getAvailableVoices);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [isLocating, setIsLocating] = useState(false);
+  const restoreInputRef = useRef<HTMLInputElement>(null);
+
+  // รายชื่อเสียงบางเครื่องโหลดช้า ต้องรอ event voiceschanged
+  useEffect(() => {
+    if (!isVoiceSupported()) return;
+    const handleVoicesChanged = () => setVoices(getAvailableVoices());
+    window.speechSynthesis.addEventListener('voiceschanged', handleVoicesChanged);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', handleVoicesChanged);
+  }, []);
+
+  const handleProviderChange = (provider: RoutingProviderId) => {
+    // เปลี่ยนผู้ให้บริการแล้วเติมค่าเริ่มต้นของผู้ให้บริการนั้นให้
+    setDraft(prev => ({
+      ...prev,
+      routing: {
+        ...prev.routing,
+        provider,
+        baseUrl: ROUTING_DEFAULTS[provider].baseUrl,
+        profile: ROUTING_DEFAULTS[provider].profile,
+      },
+    }));
+  };
+
+  const updateRouting = (field: 'baseUrl' | 'profile' | 'apiKey', value: string) => {
+    setDraft(prev => ({ ...prev, routing: { ...prev.routing, [field]: value } }));
+  };
+
+  const handleGeocoderChange = (provider: GeocoderProviderId) => {
+    setDraft(prev => ({ ...prev, geocoder: { provider, baseUrl: GEOCODER_DEFAULTS[provider].baseUrl } }));
+  };
+
+  const updateVoice = (patch: Partial<AppSettings['voice']>) => {
+    setDraft(prev => ({ ...prev, voice: { ...prev.voice, ...patch } }));
+  };
+
+  const updateShop = (field: 'lat' | 'lng', value: string) => {
+    const num = parseFloat(value);
+    if (isNaN(num)) return;
+    setDraft(prev => ({ ...prev, shop: { ...prev.shop, [field]: num } }));
+  };
+
+  // ใช้ตำแหน่ง GPS ปัจจุบันเป็นพิกัดร้าน (ต้องยืนอยู่ที่ร้าน)
+  const handleUseCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      alert("อุปกรณ์นี้ไม่รองรับ GPS");
+      return;
+    }
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (pos) => {
+        setDraft(prev => ({ ...prev, shop: { lat: pos.coords.latitude, lng: pos.coords.longitude } }));
+        setIsLocating(false);
+      },
+      () => {
+        alert("หาตำแหน่งปัจจุบันไม่ได้");
+        setIsLocating(false);
+      },
+      { enableHighAccuracy: true, timeout: 15000 }
+    );
+  };
+
+  const handleBackup = async () => {
+    setIsBackingUp(true);
+    try {
+      await onBackup();
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const handleRestoreChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onRestoreFile(file);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="fixed inset-0 z-[2000] bg-black/50 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-slate-50">
+          <h2 className="text-xl font-bold text-slate-800">ตั้งค่า</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-2">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {/* Routing Provider */}
+          <section className="bg-slate-50 p-4 rounded-xl border border-slate-200">
+            <h3 className="text-sm font-bold text-slate-700 mb-3 flex items-center gap-2">
+              <Route className="w-4 h-4 text-blue-600" />
+              ระบบคำนวณเส้นทาง
+            </h3>
+
+            <div className="grid grid-cols-2 gap-2 mb-3">
+              {(Object.keys(ROUTING_DEFAULTS) as RoutingProviderId[]).map(id => (
+                <button
+                  key={id}
+                  onClick={() => handleProviderChange(id)}
+                  className={`py-2 px-3 rounded-lg text-sm font-bold border transition-colors ${
+                    draft.routing.provider === id
+                      ? 'bg-blue-600 text-white border-blue-600'
+                      : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-100'
+                  }`}
+                >
+                  {ROUTING_DEFAULTS[id].label}
+                </button>
+              ))}
+            </div>
+
+            {draft.routing.provider !== 'synthetic' ? (
+              <div className="space-y-2">
+                <label className="block text-xs font-bold text-gray-600">Server URL</label>
+                <input
+                  type="text"
+                  value={draft.routing.baseUrl}
+                  onChange={(e) => updateRouting('baseUrl', e.target.value)}
+                  className="w-full p-2 text-xs border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none font-mono text-gray-600"
+                />
+                <label className="block text-xs font-bold text-gray-600">Profile</label>
+                <input
+                  type="text"
+                  value={draft.routing.profile}
+                  onChange={(e) => updateRouting('profile', e.target.value)}
+                  className="w-full p-2 text-xs border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none font-mono text-gray-600"
+                />
+                {draft.routing.provider === 'graphhopper' && (
+                  <>
+                    <label className="block text-xs font-bold text-gray-600">API Key</label>
+                    <input
+                      type="text"
+                      value={draft.routing.apiKey || ''}
+                      onChange={(e) => updateRouting('apiKey', e.target.value)}
+                      className="w-full p-2 text-xs border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none font-mono text-gray-600"
+                    />
+                  </>
+                )}
+                {draft.routing.provider === 'recorded' && (
+                  <p className="text-xs text-slate-500">
+                    เล่นซ้ำผลลัพธ์ OSRM ที่บันทึกไว้ใน mock-server (พิกัดที่ยังไม่มีไฟล์จะใช้เส้นทางสังเคราะห์แทน)
+                  </p>
+                )}
+              </div>
+            ) : (
+              <p className="text-xs text-slate-500">
+                สร้างเส้นทางรูปตัว L ในเครื่อง (ไม่ใช่ถนนจริง) สำหรับทดสอบการนำทางโดยไม่ต้องใช้อินเทอร์เน็ต
+              </p>
+            )}
+          </section>
+
+          {/* Geocoder */}
+          <section className="bg-slate-50 p-4 rounded-xl border border-slate-200">
+            <h3 className="text-sm font-bold text-slate-700 mb-3 flex items-center gap-2">
+              <Search className="w-4 h-4 text-blue-600" />
+              ค้นหาสถานที่ (ตอนปักหมุดเอง)
+            </h3>
+
+            <div className="grid grid-cols-2 gap-2 mb-3">
+              {(Object.keys(GEOCODER_DEFAULTS) as GeocoderProviderId[]).map(id => (
+                <button
+                  key={id}
+                  onClick={() => handleGeocoderChange(id)}
+                  className={`py-2 px-3 rounded-lg text-sm font-bold border transition-colors ${
+                    draft.geocoder.provider === id
+                      ? 'bg-blue-600 text-white border-blue-600'
+                      : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-100'
+                  }`}
+                >
+                  {GEOCODER_DEFAULTS[id].label}
+                </button>
+              ))}
+            </div>
+
+            {draft.geocoder.provider !== 'offline' ? (
+              <div className="space-y-2">
+                <label className="block text-xs font-bold text-gray-600">Server URL</label>
+                <input
+                  type="text"
+                  value={draft.geocoder.baseUrl}
+                  onChange={(e) => setDraft(prev => ({ ...prev, geocoder: { ...prev.geocoder, baseUrl: e.target.value } }))}
+                  className="w-full p-2 text-xs border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none font-mono text-gray-600"
+                />
+                <p className="text-[10px] text-slate-400">ใช้เซิร์ฟเวอร์ที่ตอบ /search และ /reverse แบบ Nominatim ได้ (mock-server: http://localhost:4000)</p>
+              </div>
+            ) : (
+              <p className="text-xs text-slate-500">
+                ค้นจากชื่อร้าน หมุดลูกค้า และประวัติการส่งในเครื่อง ใช้ได้โดยไม่ต้องใช้อินเทอร์เน็ต
+              </p>
+            )}
+          </section>
+
+          {/* Voice Guidance */}
+          <section className="bg-slate-50 p-4 rounded-xl border border-slate-200">
+            <h3 className="text-sm font-bold text-slate-700 mb-3 flex items-center gap-2">
+              <Volume2 className="w-4 h-4 text-blue-600" />
+              เสียงนำทาง
+            </h3>
+
+            {isVoiceSupported() ? (
+              <div className="space-y-3">
+                <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer select-none">
+                  <input
+                    type="checkbox"
+                    checked={!draft.voice.muted}
+                    onChange={(e) => updateVoice({ muted: !e.target.checked })}
+                    className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                  />
+                  เปิดเสียงพูดบอกทาง
+                </label>
+
+                <div>
+                  <label className="block text-xs font-bold text-gray-600 mb-1">ระดับเสียง ({Math.round(draft.voice.volume * 100)}%)</label>
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.1}
+                    value={draft.voice.volume}
+                    onChange={(e) => updateVoice({ volume: parseFloat(e.target.value) })}
+                    className="w-full"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-xs font-bold text-gray-600 mb-1">เสียงผู้พูด</label>
+                  <select
+                    value={draft.voice.voiceURI || ''}
+                    onChange={(e) => updateVoice({ voiceURI: e.target.value || undefined })}
+                    className="w-full p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+                  >
+                    <option value="">ค่าเริ่มต้น (ภาษาไทย)</option>
+                    {voices.map(v => (
+                      <option key={v.voiceURI} value={v.voiceURI}>{v.name} ({v.lang})</option>
+                    ))}
+                  </select>
+                </div>
+
+                <button
+                  onClick={() => speak("อีก 100 เมตร เลี้ยวซ้าย", { ...draft.voice, muted: false })}
+                  className="px-4 py-2 bg-white border border-slate-200 rounded-lg text-sm font-bold text-slate-600 hover:bg-slate-100"
+                >
+                  ทดสอบเสียง
+                </button>
+              </div>
+            ) : (
+              <p className="text-xs text-slate-500">อุปกรณ์นี้ไม่รองรับเสียงพูด</p>
+            )}
+          </section>
+
+          {/* GPS */}
+          <section className="bg-slate-50 p-4 rounded-xl border border-slate-200">
+            <h3 className="text-sm font-bold text-slate-700 mb-3 flex items-center gap-2">
+              <Crosshair className="w-4 h-4 text-blue-600" />
+              ตำแหน่ง GPS
+            </h3>
+            <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={draft.gps.snapToRoute}
+                onChange={(e) => setDraft(prev => ({ ...prev, gps: { ...prev.gps, snapToRoute: e.target.checked } }))}
+                className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+              />
+              ดึงหมุดตำแหน่งให้อยู่บนเส้นทางที่นำทาง
+            </label>
+
+            <div className="grid grid-cols-2 gap-3 mt-3">
+              <div>
+                <label className="block text-xs font-bold text-gray-600 mb-1">รัศมีถึงจุดส่ง (เมตร)</label>
+                <input
+                  type="number"
+                  min={10}
+                  value={draft.gps.arrivalRadius}
+                  onChange={(e) => setDraft(prev => ({ ...prev, gps: { ...prev.gps, arrivalRadius: Number(e.target.value) || 50 } }))}
+                  className="w-full p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-600 mb-1">หยุดนานกี่วินาที</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={draft.gps.arrivalDwellSeconds}
+                  onChange={(e) => setDraft(prev => ({ ...prev, gps: { ...prev.gps, arrivalDwellSeconds: Number(e.target.value) || 0 } }))}
+                  className="w-full p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+              </div>
+              <div className="col-span-2">
+                <label className="block text-xs font-bold text-gray-600 mb-1">เตือนเมื่อกดส่งงานห่างจากหมุดเกิน (เมตร)</label>
+                <input
+                  type="number"
+                  min={20}
+                  value={draft.gps.farFromPinMeters}
+                  onChange={(e) => setDraft(prev => ({ ...prev, gps: { ...prev.gps, farFromPinMeters: Number(e.target.value) || 200 } }))}
+                  className="w-full p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+              </div>
+            </div>
+          </section>
+
+          {/* Shop Location */}
+          <section className="bg-slate-50 p-4 rounded-xl border border-slate-200">
+            <h3 className="text-sm font-bold text-slate-700 mb-3 flex items-center gap-2">
+              <Store className="w-4 h-4 text-blue-600" />
+              ตำแหน่งร้าน
+            </h3>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-bold text-gray-600 mb-1">Latitude</label>
+                <input
+                  type="number"
+                  step="any"
+                  value={draft.shop.lat}
+                  onChange={(e) => updateShop('lat', e.target.value)}
+                  className="w-full p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none font-mono"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-600 mb-1">Longitude</label>
+                <input
+                  type="number"
+                  step="any"
+                  value={draft.shop.lng}
+                  onChange={(e) => updateShop('lng', e.target.value)}
+                  className="w-full p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none font-mono"
+                />
+              </div>
+            </div>
+            <button
+              onClick={handleUseCurrentLocation}
+              disabled={isLocating}
+              className="mt-3 px-4 py-2 bg-white border border-slate-200 rounded-lg text-sm font-bold text-slate-600 hover:bg-slate-100 flex items-center gap-2 disabled:opacity-50"
+            >
+              {isLocating ? <Loader2 className="w-4 h-4 animate-spin" /> : <LocateFixed className="w-4 h-4" />}
+              ใช้ตำแหน่งปัจจุบัน
+            </button>
+          </section>
+
+          {/* Order Sync */}
+          <section className="bg-slate-50 p-4 rounded-xl border border-slate-200">
+            <h3 className="text-sm font-bold text-slate-700 mb-3 flex items-center gap-2">
+              <RefreshCw className="w-4 h-4 text-blue-600" />
+              ดึงออเดอร์จาก Sheet
+            </h3>
+            <label className="block text-xs font-bold text-gray-600 mb-1">ลิงก์ดึงออเดอร์ (เว้นว่าง = ใช้ Google Apps Script)</label>
+            <input
+              type="text"
+              value={draft.sync.ordersUrl}
+              onChange={(e) => setDraft(prev => ({ ...prev, sync: { ...prev.sync, ordersUrl: e.target.value } }))}
+              placeholder="เช่น http://localhost:4000 สำหรับทดสอบ"
+              className="w-full p-2 text-xs border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none font-mono text-gray-600"
+            />
+            <label className="block text-xs font-bold text-gray-600 mb-1 mt-3">ดึงอัตโนมัติ</label>
+            <select
+              value={draft.sync.pollMinutes}
+              onChange={(e) => setDraft(prev => ({ ...prev, sync: { ...prev.sync, pollMinutes: Number(e.target.value) } }))}
+              className="w-full p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+            >
+              <option value={0}>ปิด (กดดึงเองในหน้ารายชื่อ)</option>
+              {[1, 5, 10, 15, 30].map(m => (
+                <option key={m} value={m}>ทุก {m} นาที</option>
+              ))}
+            </select>
+            <label className="block text-xs font-bold text-gray-600 mb-1 mt-3">ลิงก์แปลงลิงก์ย่อ maps.app.goo.gl (เว้นว่าง = ใช้ลิงก์ดึงออเดอร์)</label>
+            <input
+              type="text"
+              value={draft.sync.resolverUrl}
+              onChange={(e) => setDraft(prev => ({ ...prev, sync: { ...prev.sync, resolverUrl: e.target.value } }))}
+              placeholder="ต้องตอบ ?action=resolveLink&url=..."
+              className="w-full p-2 text-xs border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none font-mono text-gray-600"
+            />
+          </section>
+
+          {/* Backup & Restore */}
+          <section className="bg-slate-50 p-4 rounded-xl border border-slate-200">
+            <h3 className="text-sm font-bold text-slate-700 mb-1 flex items-center gap-2">
+              <Download className="w-4 h-4 text-blue-600" />
+              สำรอง / ย้ายข้อมูลไปเครื่องใหม่
+            </h3>
+            <p className="text-xs text-slate-500 mb-3">รวมหมุด ประวัติ รูปหลักฐาน และการตั้งค่าไว้ในไฟล์เดียว</p>
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={handleBackup}
+                disabled={isBackingUp}
+                className="py-2 px-3 bg-white border border-slate-200 rounded-lg text-sm font-bold text-slate-600 hover:bg-slate-100 flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                {isBackingUp ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                สำรองข้อมูล
+              </button>
+              <button
+                onClick={() => restoreInputRef.current?.click()}
+                className="py-2 px-3 bg-white border border-slate-200 rounded-lg text-sm font-bold text-slate-600 hover:bg-slate-100 flex items-center justify-center gap-2"
+              >
+                <Upload className="w-4 h-4" />
+                กู้คืนจากไฟล์
+              </button>
+            </div>
+            <input
+              ref={restoreInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleRestoreChange}
+              className="hidden"
+            />
+          </section>
+        </div>
+
+        <div className="p-4 bg-white border-t flex gap-3">
+          <button onClick={onClose} className="flex-1 py-2.5 bg-slate-100 text-slate-700 font-bold rounded-xl hover:bg-slate-200 transition-colors">
+            ยกเลิก
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            className="flex-[2] py-2.5 bg-blue-600 text-white font-bold rounded-xl hover:bg-blue-700 shadow-lg shadow-blue-200 flex items-center justify-center gap-2 transition-all"
+          >
+            <Save className="w-4 h-4" /> บันทึก
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Eraser } from 'lucide-react';
+
+interface SignaturePadProps {
+  onChange: (dataUrl: string | null) => void; // null = ยังไม่ได้เซ็น / ล้างแล้ว
+}
+
+const PAD_HEIGHT = 160;
+
+// ช่องเซ็นชื่อบนหน้าจอ (นิ้วหรือปากกา) บันทึกเป็น PNG พื้นขาว
+export const SignaturePad: React.FC<SignaturePadProps> = ({ onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number, y: number } | null>(null);
+  const hasInkRef = useRef(false);
+  const [isEmpty, setIsEmpty] = useState(true);
+
+  const resetCanvas = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    // ขนาดจริงตามความละเอียดจอ เพื่อให้เส้นคมบนมือถือ
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.clientWidth * ratio;
+    canvas.height = PAD_HEIGHT * ratio;
+    ctx.scale(ratio, ratio);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.clientWidth, PAD_HEIGHT);
+    ctx.strokeStyle = '#0f172a';
+    ctx.lineWidth = 2.5;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+  };
+
+  useEffect(resetCanvas, []);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPointRef.current = getPoint(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    const last = lastPointRef.current;
+    if (!ctx || !last) return;
+    const next = getPoint(e);
+    ctx.beginPath();
+    ctx.moveTo(last.x, last.y);
+    ctx.lineTo(next.x, next.y);
+    ctx.stroke();
+    lastPointRef.current = next;
+    hasInkRef.current = true;
+    setIsEmpty(false);
+  };
+
+  const handlePointerUp = () => {
+    if (!lastPointRef.current) return;
+    lastPointRef.current = null;
+    if (hasInkRef.current && canvasRef.current) onChange(canvasRef.current.toDataURL('image/png'));
+  };
+
+  const handleClear = () => {
+    resetCanvas();
+    hasInkRef.current = false;
+    setIsEmpty(true);
+    onChange(null);
+  };
+
+  return (
+    <div className="relative">
+      <canvas
+        ref={canvasRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className="w-full rounded-lg border-2 border-dashed border-slate-300 bg-white touch-none cursor-crosshair"
+        style={{ height: PAD_HEIGHT }}
+      />
+      {isEmpty ? (
+        <span className="absolute inset-0 flex items-center justify-center text-sm text-slate-300 pointer-events-none">
+          เซ็นชื่อที่นี่
+        </span>
+      ) : (
+        <button
+          onClick={handleClear}
+          className="absolute top-2 right-2 flex items-center gap-1 text-xs font-bold text-slate-500 bg-white/90 border border-slate-200 hover:bg-slate-100 px-2 py-1 rounded-md"
+        >
+          <Eraser className="w-3 h-3" /> ล้าง
+        </button>
+      )}
+    </div>
+  );
+};
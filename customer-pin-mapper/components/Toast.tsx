@@ -3,13 +3,20 @@ import { AlertCircle, CheckCircle, Info, X } from 'lucide-react';
 
 export type ToastType = 'success' | 'error' | 'info';
 
+// ปุ่มคำสั่งใน Toast เช่น "เลิกทำ"
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
 interface ToastProps {
   message: string;
   type: ToastType;
+  action?: ToastAction;
   onClose: () => void;
 }
 
-export const Toast: React.FC<ToastProps> = ({ message, type, onClose }) => {
+export const Toast: React.FC<ToastProps> = ({ message, type, action, onClose }) => {
   useEffect(() => {
     // Auto-dismiss after 6 seconds
     const timer = setTimeout(() => {
@@ -47,6 +54,14 @@ export const Toast: React.FC<ToastProps> = ({ message, type, onClose }) => {
       <div className={`flex-1 text-sm font-bold whitespace-pre-line leading-relaxed pt-0.5 ${style.text}`}>
         {message}
       </div>
+      {action && (
+        <button
+          onClick={action.onClick}
+          className={`-my-1 px-3 py-1.5 rounded-lg border bg-white font-bold text-sm hover:bg-black/5 active:scale-95 transition-all touch-manipulation ${style.border} ${style.text}`}
+        >
+          {action.label}
+        </button>
+      )}
       <button 
         onClick={onClose} 
         className="p-2 -mr-2 -mt-2 hover:bg-black/10 rounded-full transition-colors active:scale-95 touch-manipulation"
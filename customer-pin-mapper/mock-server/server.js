@@ -0,0 +1,206 @@
+const http = require('http');
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+// --- Mock ของ Google Apps Script สำหรับทดสอบการดึงออเดอร์ในเครื่อง ---
+// ใช้งาน: npm start แล้วใส่ http://localhost:4000 ในหน้าตั้งค่า > ลิงก์ดึงออเดอร์
+//   GET  /?action=pendingOrders  -> ออเดอร์ที่ยังไม่ได้ส่ง (รวมที่ส่งไม่สำเร็จ FAILED_* ซึ่งรอส่งซ้ำ)
+//   POST /  (body: { name, orderNo, status, reason }) -> เปลี่ยนสถานะออเดอร์ (เหมือน Script จริง)
+//            ทุก POST ตอบ { ok: true } เมื่อบันทึกแล้ว (แอปส่งซ้ำจนกว่าจะได้คำตอบนี้) และข้าม requestId ที่เคยบันทึกแล้ว
+//   POST /  (body: { action: 'updateLocation', orderNo, lat, lng, mapLink }) -> แก้พิกัดของออเดอร์
+//   GET  /add                    -> เพิ่มออเดอร์สุ่ม 1 รายการ (ทดสอบการดึงอัตโนมัติ)
+//   GET  /?action=resolveLink&url=<ลิงก์ย่อ> -> { url: ลิงก์เต็ม } (ลิงก์ใน SHORT_LINKS ตอบทันที ที่เหลือตาม Redirect จริง)
+//   GET  /search?q=  /reverse?lat=&lon=  -> ค้นหาสถานที่แบบ Nominatim (ใส่ http://localhost:4000 ในหน้าตั้งค่า > ค้นหาสถานที่)
+//   GET  /route/v1/...  /table/v1/... -> เล่นซ้ำผลลัพธ์ OSRM ที่บันทึกไว้ใน fixtures/osrm (หน้าตั้งค่า > เส้นทางที่บันทึกไว้)
+//            บันทึกไฟล์ใหม่: OSRM_RECORD_URL=https://router.project-osrm.org npm start แล้วขับตามเส้นทางที่ต้องการ 1 รอบ
+
+const SERVER_PORT = 4000;
+const SHOP = { lat: 16.43624, lng: 103.5020 };
+
+// ลิงก์ย่อจำลอง ใช้ทดสอบแบบไม่ต่ออินเทอร์เน็ต
+const SHORT_LINKS = {
+    'https://maps.app.goo.gl/mock-condo': `https://www.google.com/maps/place/Condo/@${(SHOP.lat + 0.003).toFixed(6)},${(SHOP.lng + 0.002).toFixed(6)},17z/data=!3m1!4b1!4m6!3m5!1s0x0:0x0!8m2!3d${(SHOP.lat + 0.0031).toFixed(6)}!4d${(SHOP.lng + 0.0021).toFixed(6)}`,
+};
+
+// สถานที่จำลองรอบร้าน สำหรับค้นหาตอนปักหมุดเอง
+const PLACES = [
+    { name: 'ร้านของเรา', dLat: 0, dLng: 0 },
+    { name: 'ตลาดสด', dLat: 0.0021, dLng: -0.0035 },
+    { name: 'โรงเรียนอนุบาล', dLat: -0.0042, dLng: 0.0018 },
+    { name: 'โรงพยาบาล', dLat: 0.0065, dLng: 0.0052 },
+    { name: 'คอนโดวิวสวน อาคาร A', dLat: 0.0031, dLng: 0.0021 },
+    { name: 'คอนโดวิวสวน อาคาร B', dLat: 0.0033, dLng: 0.0024 },
+].map(p => ({ name: p.name, lat: SHOP.lat + p.dLat, lng: SHOP.lng + p.dLng }));
+
+// ตอบรูปแบบเดียวกับ Nominatim (lat/lon เป็น String)
+const toNominatim = (place) => ({ lat: place.lat.toFixed(7), lon: place.lng.toFixed(7), display_name: place.name });
+
+let nextOrderNo = 1;
+const orders = [];
+
+const addOrder = (name, dLat, dLng, extra = {}) => {
+    const now = new Date();
+    const orderNo = `#${String(nextOrderNo++).padStart(2, '0')}`;
+    orders.push({
+        orderNo,
+        name,
+        phone: `08${Math.floor(10000000 + Math.random() * 89999999)}`,
+        date: now.toISOString().slice(0, 10),
+        time: now.toTimeString().slice(0, 8),
+        mapLink: `https://www.google.com/maps?q=${(SHOP.lat + dLat).toFixed(6)},${(SHOP.lng + dLng).toFixed(6)}`,
+        amount: 100 + Math.floor(Math.random() * 20) * 10,
+        paymentMethod: 'เงินสด',
+        deliveryWindow: '',
+        note: '',
+        status: 'PENDING',
+        ...extra,
+    });
+};
+
+addOrder('คุณต้น', 0.004, -0.0047);
+addOrder('คุณหญิง', -0.0012, -0.002, { paymentMethod: 'โอน', deliveryWindow: '11:00-13:00' });
+addOrder('ร้านกาแฟ A', 0.0088, -0.012, { note: 'ฝากไว้ที่เคาน์เตอร์' });
+addOrder('คุณเอ (ไม่มีพิกัด)', 0, 0, { mapLink: 'https://maps.app.goo.gl/unresolved' });
+addOrder('คุณบี (ลิงก์ย่อ)', 0, 0, { mapLink: 'https://maps.app.goo.gl/mock-condo' });
+
+// --- เส้นทาง OSRM ที่บันทึกไว้ ---
+// ชื่อไฟล์มาจาก service + profile + พิกัด (ปัด 5 ตำแหน่ง) + ตัวเลือกที่มีผลกับคำตอบ
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'osrm');
+const RECORD_URL = (process.env.OSRM_RECORD_URL || '').replace(/\/+$/, '');
+
+const fixtureFile = (url) => {
+    const [, service, , profile, coords = ''] = url.pathname.split('/');
+    const rounded = coords.split(';').map(pair => pair.split(',').map(n => Number(n).toFixed(5)).join(',')).join(';');
+    const options = service === 'route' ? `alternatives=${url.searchParams.get('alternatives') === 'true'}` : '';
+    const hash = crypto.createHash('sha1').update(`${profile}/${rounded}?${options}`).digest('hex').slice(0, 16);
+    return path.join(FIXTURE_DIR, `${service}-${hash}.json`);
+};
+
+const replayOsrm = async (url) => {
+    const file = fixtureFile(url);
+    if (fs.existsSync(file)) return JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (!RECORD_URL) return null;
+    const response = await fetch(`${RECORD_URL}${url.pathname}${url.search}`);
+    const data = await response.json();
+    if (data.code !== 'Ok') return data;
+    fs.mkdirSync(FIXTURE_DIR, { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(data));
+    console.log(`  -> recorded ${path.basename(file)}`);
+    return data;
+};
+
+// requestId ที่บันทึกแล้ว (แอปส่งซ้ำได้ถ้าไม่ได้รับคำตอบ ต้องไม่บันทึกซ้ำ)
+const handledRequests = new Set();
+
+const sendJson = (res, status, body) => {
+    res.writeHead(status, {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': 'Content-Type',
+    });
+    res.end(JSON.stringify(body));
+};
+
+// ตาม Redirect ทีละขั้นจนได้ลิงก์ที่ไม่ใช่ลิงก์ย่อ (เหมือน UrlFetchApp ใน Apps Script)
+const expandShortLink = async (link) => {
+    if (SHORT_LINKS[link]) return SHORT_LINKS[link];
+    if (link.includes('/unresolved')) return null;
+    let current = link;
+    for (let hop = 0; hop < 5; hop++) {
+        const response = await fetch(current, { method: 'HEAD', redirect: 'manual' });
+        const location = response.headers.get('location');
+        if (!location) return hop > 0 ? current : null;
+        current = new URL(location, current).toString();
+    }
+    return current;
+};
+
+const server = http.createServer((req, res) => {
+    const url = new URL(req.url, `http://localhost:${SERVER_PORT}`);
+    console.log(`[${new Date().toLocaleTimeString()}] ${req.method} ${url.pathname}${url.search}`);
+
+    if (req.method === 'OPTIONS') return sendJson(res, 204, {});
+
+    if (req.method === 'GET' && url.pathname === '/add') {
+        addOrder(`ลูกค้าใหม่ ${nextOrderNo}`, (Math.random() - 0.5) * 0.02, (Math.random() - 0.5) * 0.02);
+        return sendJson(res, 200, { ok: true, total: orders.length });
+    }
+
+    if (req.method === 'GET' && url.searchParams.get('action') === 'resolveLink') {
+        const link = url.searchParams.get('url') || '';
+        expandShortLink(link)
+            .then(expanded => expanded
+                ? sendJson(res, 200, { url: expanded })
+                : sendJson(res, 404, { error: 'Cannot resolve link' }))
+            .catch(() => sendJson(res, 502, { error: 'Cannot reach link' }));
+        return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/search') {
+        const q = (url.searchParams.get('q') || '').trim().toLowerCase();
+        return sendJson(res, 200, PLACES.filter(p => q && p.name.toLowerCase().includes(q)).map(toNominatim));
+    }
+
+    if (req.method === 'GET' && url.pathname === '/reverse') {
+        const lat = Number(url.searchParams.get('lat'));
+        const lng = Number(url.searchParams.get('lon'));
+        const nearest = PLACES
+            .map(p => ({ ...p, d: Math.hypot(p.lat - lat, p.lng - lng) }))
+            .sort((a, b) => a.d - b.d)[0];
+        // ประมาณ 100 ม.
+        if (!nearest || nearest.d > 0.001) return sendJson(res, 200, { error: 'Unable to geocode' });
+        return sendJson(res, 200, toNominatim(nearest));
+    }
+
+    if (req.method === 'GET' && /^\/(route|table)\/v1\//.test(url.pathname)) {
+        replayOsrm(url)
+            .then(data => data
+                ? sendJson(res, data.code === 'Ok' ? 200 : 400, data)
+                : sendJson(res, 404, { code: 'NoFixture', message: 'No recorded response for these coordinates' }))
+            .catch(() => sendJson(res, 502, { code: 'RecordFailed', message: 'Cannot reach OSRM_RECORD_URL' }));
+        return;
+    }
+
+    if (req.method === 'GET' && url.searchParams.get('action') === 'pendingOrders') {
+        return sendJson(res, 200, { orders: orders.filter(o => o.status === 'PENDING' || o.status.startsWith('FAILED_')) });
+    }
+
+    if (req.method === 'POST') {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+            try {
+                const payload = JSON.parse(body);
+                if (payload.requestId && handledRequests.has(payload.requestId)) {
+                    return sendJson(res, 200, { ok: true, duplicate: true });
+                }
+                // Script จริงหาชื่อแบบมี/ไม่มี "คุณ" นำหน้า
+                const target = orders.find(o =>
+                    (payload.orderNo && o.orderNo === payload.orderNo) ||
+                    o.name === payload.name || `คุณ${o.name}` === payload.name
+                );
+                if (!target) return sendJson(res, 404, { ok: false, error: 'Order not found' });
+                if (payload.requestId) handledRequests.add(payload.requestId);
+                if (payload.action === 'updateLocation') {
+                    target.mapLink = payload.mapLink || `https://www.google.com/maps?q=${payload.lat},${payload.lng}`;
+                    console.log(`  -> ${target.orderNo} ${target.name}: ${target.mapLink}`);
+                    return sendJson(res, 200, { ok: true, orderNo: target.orderNo, mapLink: target.mapLink });
+                }
+                target.status = payload.status || 'DELIVERED';
+                target.reason = payload.reason || '';
+                console.log(`  -> ${target.orderNo} ${target.name}: ${target.status}${target.reason ? ` (${target.reason})` : ''}`);
+                sendJson(res, 200, { ok: true, orderNo: target.orderNo, status: target.status });
+            } catch (e) {
+                sendJson(res, 400, { ok: false, error: 'Invalid JSON' });
+            }
+        });
+        return;
+    }
+
+    sendJson(res, 200, { ok: true, message: 'Mock Sheet is running', pending: orders.filter(o => o.status === 'PENDING').length });
+});
+
+server.listen(SERVER_PORT, () => {
+    console.log(`Mock Sheet running at http://localhost:${SERVER_PORT}`);
+});
@@ -0,0 +1,217 @@
+import { CustomerPoint, DeliveryRecord, DeliveryPhoto } from '../types';
+import { AppSettings, normalizeSettings } from './settingsService';
+import { upgradeRecords, SCHEMA_VERSION } from './persistedState';
+import { dataUrlToBlob } from './storageService';
+
+// ==================================================================================
+// สำรอง / กู้คืนข้อมูลทั้งหมดของแอปเป็นไฟล์ JSON ไฟล์เดียว (ใช้ย้ายไปเครื่องใหม่)
+// รูปหลักฐานแปลงเป็น Base64 อยู่ในไฟล์ และมี SHA-256 ไว้ตรวจว่าไฟล์ไม่เสียหาย
+// API Key ของผู้ให้บริการเส้นทางไม่ถูกเขียนลงไฟล์ (ไฟล์สำรองมักถูกส่งต่อกันทางแชท)
+// ==================================================================================
+
+const BACKUP_FORMAT = 'seoulgood-backup';
+const BACKUP_VERSION = 1;
+
+export interface BackupData {
+  schemaVersion: number;
+  points: CustomerPoint[];
+  history: DeliveryRecord[]; // url ของรูปและลายเซ็นเป็น Data URL
+  settings: AppSettings;     // ไม่มี routing.apiKey
+  googleScriptUrl: string | null;
+  logo: string | null;
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  counts: { points: number, history: number, photos: number };
+  checksum: string; // SHA-256 ของ JSON.stringify(data)
+  data: BackupData;
+}
+
+export interface BackupPreview {
+  createdAt: string;
+  data: BackupData;
+  photos: number;
+  invalid: number;              // รายการที่ตรวจ Schema ไม่ผ่าน (จะไม่ถูกกู้คืน)
+  conflicts: { points: number, history: number }; // id ซ้ำกับข้อมูลในเครื่อง
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// url ของรูปในแอปอาจเป็น Object URL (blob:) ต้องอ่านเป็น Data URL ก่อนเขียนลงไฟล์
+const toDataUrl = async (url: string): Promise<string> => {
+  if (!url || url.startsWith('data:')) return url;
+  const blob = await (await fetch(url)).blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const createBackup = async (
+  points: CustomerPoint[],
+  history: DeliveryRecord[],
+  settings: AppSettings,
+  googleScriptUrl: string | null,
+  logo: string | null
+): Promise<Blob> => {
+  const historyWithPhotos: DeliveryRecord[] = [];
+  for (const record of history) {
+    const photos: DeliveryPhoto[] = [];
+    for (const photo of record.photos) photos.push({ ...photo, url: await toDataUrl(photo.url) });
+    historyWithPhotos.push({
+      ...record,
+      photos,
+      ...(record.signatureUrl && { signatureUrl: await toDataUrl(record.signatureUrl) }),
+    });
+  }
+
+  const { apiKey, ...routing } = settings.routing;
+  const data: BackupData = {
+    schemaVersion: SCHEMA_VERSION,
+    points,
+    history: historyWithPhotos,
+    settings: { ...settings, routing },
+    googleScriptUrl,
+    logo,
+  };
+
+  const archive: BackupArchive = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    counts: {
+      points: points.length,
+      history: historyWithPhotos.length,
+      photos: historyWithPhotos.reduce((sum, h) => sum + h.photos.filter(p => p.url).length, 0),
+    },
+    checksum: await sha256(JSON.stringify(data)),
+    data,
+  };
+
+  return new Blob([JSON.stringify(archive)], { type: 'application/json' });
+};
+
+export const downloadBackup = (blob: Blob) => {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const stamp = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}-${pad(now.getHours())}${pad(now.getMinutes())}`;
+
+  const link = document.createElement("a");
+  const url = URL.createObjectURL(blob);
+  link.setAttribute("href", url);
+  link.setAttribute("download", `seoulgood-backup-${stamp}.json`);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// อ่านไฟล์สำรองและตรวจความถูกต้องทั้งหมดก่อนให้ผู้ใช้ยืนยัน (โยน Error เป็นข้อความภาษาไทย)
+export const readBackupFile = async (
+  file: File,
+  current: { points: CustomerPoint[], history: DeliveryRecord[] }
+): Promise<BackupPreview> => {
+  let archive: BackupArchive;
+  try {
+    archive = JSON.parse(await file.text());
+  } catch (e) {
+    throw new Error("ไฟล์นี้ไม่ใช่ไฟล์สำรองข้อมูล (อ่าน JSON ไม่ได้)");
+  }
+
+  if (!archive || archive.format !== BACKUP_FORMAT || !archive.data) {
+    throw new Error("ไฟล์นี้ไม่ใช่ไฟล์สำรองข้อมูลของแอป");
+  }
+  if (archive.version > BACKUP_VERSION) {
+    throw new Error("ไฟล์สำรองมาจากแอปเวอร์ชันใหม่กว่า กรุณาอัปเดตแอปก่อน");
+  }
+  if (await sha256(JSON.stringify(archive.data)) !== archive.checksum) {
+    throw new Error("ไฟล์สำรองเสียหาย (Checksum ไม่ตรง)");
+  }
+
+  const { data } = archive;
+  if (!Array.isArray(data.points) || !Array.isArray(data.history)) {
+    throw new Error("ไฟล์สำรองไม่มีข้อมูลหมุดหรือประวัติ");
+  }
+  if (data.points.length !== archive.counts.points || data.history.length !== archive.counts.history) {
+    throw new Error("จำนวนรายการในไฟล์ไม่ตรงกับที่บันทึกไว้");
+  }
+
+  // อัปเกรดข้อมูลจากเวอร์ชันที่สำรองไว้ แล้วตรวจทีละรายการ
+  const fromVersion = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+  const points = upgradeRecords('point', data.points, fromVersion);
+  const history = upgradeRecords('history', data.history, fromVersion);
+
+  // รูปที่ถอดรหัสไม่ได้ให้ถือว่าไม่มีรูป แต่ยังเก็บประวัติไว้
+  let photos = 0;
+  let invalidPhotos = 0;
+  const isValidDataUrl = (url: string) => {
+    try {
+      dataUrlToBlob(url);
+      return true;
+    } catch (e) {
+      invalidPhotos++;
+      return false;
+    }
+  };
+  const checkedHistory = history.valid.map(record => {
+    const checked: DeliveryRecord = {
+      ...record,
+      photos: record.photos.map(photo => {
+        if (!photo.url) return photo;
+        if (!isValidDataUrl(photo.url)) return { ...photo, url: '' };
+        photos++;
+        return photo;
+      }),
+    };
+    if (checked.signatureUrl && !isValidDataUrl(checked.signatureUrl)) delete checked.signatureUrl;
+    return checked;
+  });
+
+  const pointIds = new Set(current.points.map(p => p.id));
+  const historyIds = new Set(current.history.map(h => h.id));
+
+  return {
+    createdAt: archive.createdAt,
+    data: {
+      ...data,
+      points: points.valid,
+      history: checkedHistory,
+      settings: normalizeSettings(data.settings),
+    },
+    photos,
+    invalid: points.quarantined.length + history.quarantined.length + invalidPhotos,
+    conflicts: {
+      points: points.valid.filter(p => pointIds.has(p.id)).length,
+      history: checkedHistory.filter(h => historyIds.has(h.id)).length,
+    },
+  };
+};
+
+// merge: เพิ่มเฉพาะรายการใหม่ ถ้า id ซ้ำใช้ข้อมูลในเครื่อง / replace: ใช้ข้อมูลจากไฟล์ทั้งหมด
+export const applyBackup = (
+  current: { points: CustomerPoint[], history: DeliveryRecord[] },
+  incoming: BackupData,
+  mode: RestoreMode
+): { points: CustomerPoint[], history: DeliveryRecord[] } => {
+  if (mode === 'replace') {
+    return { points: incoming.points, history: incoming.history };
+  }
+
+  const pointIds = new Set(current.points.map(p => p.id));
+  const historyIds = new Set(current.history.map(h => h.id));
+  return {
+    points: [...current.points, ...incoming.points.filter(p => !pointIds.has(p.id))],
+    history: [...current.history, ...incoming.history.filter(h => !historyIds.has(h.id))]
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+  };
+};
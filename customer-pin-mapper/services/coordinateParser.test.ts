@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { parseCoordinates, extractShortLink } from './coordinateParser';
+
+const SHOP = { lat: 16.43624, lng: 103.5020 };
+
+describe('parseCoordinates', () => {
+  it('อ่านลิงก์ Google Maps แบบต่างๆ', () => {
+    expect(parseCoordinates('https://www.google.com/maps?q=16.440240,103.497300')).toEqual({ lat: 16.44024, lng: 103.4973 });
+    expect(parseCoordinates('https://www.google.com/maps/@16.4362,103.502,17z')).toEqual({ lat: 16.4362, lng: 103.502 });
+    expect(parseCoordinates('16.440272, 103.497242')).toEqual({ lat: 16.440272, lng: 103.497242 });
+  });
+
+  it('อ่านพิกัดแบบองศา ลิปดา ฟิลิปดา (DMS)', () => {
+    const coords = parseCoordinates(`16°26'10.5"N 103°30'07.2"E`);
+    expect(coords?.lat).toBeCloseTo(16.43625, 5);
+    expect(coords?.lng).toBeCloseTo(103.502, 5);
+  });
+
+  it('DMS ซีกโลกใต้เป็นค่าติดลบ และรับ "" จากช่องใน Sheet', () => {
+    const coords = parseCoordinates(`33°51'35.9""S 151°12'40.0""E`);
+    expect(coords?.lat).toBeCloseTo(-33.85997, 4);
+    expect(coords?.lng).toBeCloseTo(151.21111, 4);
+  });
+
+  // จุดกึ่งกลางของช่อง 8FVC9G8F+6X (ช่องละ 1/8000 x 1/8000 องศา)
+  it('ถอดรหัส Plus Code แบบเต็ม', () => {
+    const coords = parseCoordinates('8FVC9G8F+6X');
+    expect(coords?.lat).toBeCloseTo(47.3655625, 6);
+    expect(coords?.lng).toBeCloseTo(8.5249375, 6);
+  });
+
+  it('Plus Code แบบสั้นเติมจากตำแหน่งอ้างอิง', () => {
+    const coords = parseCoordinates('9G8F+6X Zürich', { lat: 47.4, lng: 8.6 });
+    expect(coords?.lat).toBeCloseTo(47.3655625, 6);
+    expect(coords?.lng).toBeCloseTo(8.5249375, 6);
+  });
+
+  it('Plus Code แบบสั้นที่ไม่มีตำแหน่งอ้างอิงอ่านไม่ได้', () => {
+    expect(parseCoordinates('9G8F+6X')).toBeNull();
+  });
+
+  it('ลิงก์ย่อไม่มีพิกัดในตัว', () => {
+    expect(parseCoordinates('https://maps.app.goo.gl/abc123XYZ', SHOP)).toBeNull();
+    expect(extractShortLink('ส่งที่นี่ https://maps.app.goo.gl/abc123XYZ ครับ')).toBe('https://maps.app.goo.gl/abc123XYZ');
+  });
+
+  it('พิกัดเกินขอบเขตถือว่าอ่านไม่ได้', () => {
+    expect(parseCoordinates('https://www.google.com/maps?q=95.0,103.5')).toBeNull();
+  });
+});
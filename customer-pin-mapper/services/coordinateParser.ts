@@ -0,0 +1,203 @@
+import { LatLng } from './geoService';
+import { fetchWithRetry } from './routingService';
+import { SyncSettings } from './settingsService';
+import { readPersisted } from './persistedState';
+
+// ==================================================================================
+// อ่านพิกัดจากข้อความทุกรูปแบบที่ลูกค้าส่งมา:
+//   - ลิงก์ Google Maps: ?q= / query= / ll= / destination= / daddr= / @lat,lng / place/.../data=!3d..!4d..
+//   - องศา ลิปดา ฟิลิปดา (DMS) เช่น 16°26'10.5"N 103°30'07.3"E
+//   - Plus Code เช่น 7MQ3CGPH+Q4 หรือแบบสั้น CGPH+Q4 (อ้างอิงตำแหน่งร้าน)
+//   - ข้อความแชร์ตำแหน่งจาก LINE / geo: URI / "16.440272, 103.497242"
+// ลิงก์ย่อ (maps.app.goo.gl) ไม่มีพิกัดในตัว ต้องส่งไปแปลงที่ Resolver ก่อน (ดู resolveShortLinks)
+// ==================================================================================
+
+const NUM = '([-+]?\\d{1,3}(?:\\.\\d+)?)';
+
+// พิกัดตำแหน่งหมุดจริงของสถานที่ (แม่นกว่า @ ซึ่งเป็นจุดกึ่งกลางหน้าจอ)
+const PLACE_PATTERN = /!3d([-+]?\d+\.\d+)!4d([-+]?\d+\.\d+)/;
+const PARAM_PATTERN = new RegExp(`[?&](?:q|query|ll|sll|center|destination|daddr)=(?:loc:)?\\s*${NUM}\\s*,\\s*${NUM}`);
+const AT_PATTERN = /@([-+]?\d+\.\d+),([-+]?\d+\.\d+)/;
+const GEO_URI_PATTERN = /geo:([-+]?\d+(?:\.\d+)?),([-+]?\d+(?:\.\d+)?)/;
+const PAIR_PATTERN = /([-+]?\d{1,2}\.\d{3,})\s*,\s*([-+]?\d{1,3}\.\d{3,})/;
+const DMS_PATTERN = /([NSEW])?\s*(\d{1,3}(?:\.\d+)?)\s*[°º]\s*(?:(\d{1,2}(?:\.\d+)?)\s*['′’]\s*)?(?:(\d{1,2}(?:\.\d+)?)\s*["″”]\s*)?([NSEW])?/gi;
+
+const SHORT_LINK_PATTERN = /https?:\/\/(?:maps\.app\.goo\.gl|goo\.gl\/maps|g\.co\/kgs)\/[^\s"']+/i;
+
+export const isShortLink = (text: string) => SHORT_LINK_PATTERN.test(text);
+
+export const extractShortLink = (text: string): string | null => text.match(SHORT_LINK_PATTERN)?.[0] || null;
+
+const toCoords = (lat: number, lng: number): LatLng | null =>
+  !isNaN(lat) && !isNaN(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180 ? { lat, lng } : null;
+
+const safeDecode = (text: string) => {
+  try {
+    return decodeURIComponent(text.replace(/\+/g, ' '));
+  } catch (e) {
+    return text;
+  }
+};
+
+// --- DMS ---
+
+const parseDms = (text: string): LatLng | null => {
+  const parts = Array.from(text.matchAll(DMS_PATTERN))
+    .filter(m => m[0].includes('°') || m[0].includes('º'))
+    .map(m => {
+      const hemisphere = (m[1] || m[5] || '').toUpperCase();
+      const value = Number(m[2]) + Number(m[3] || 0) / 60 + Number(m[4] || 0) / 3600;
+      return { hemisphere, value: hemisphere === 'S' || hemisphere === 'W' ? -value : value };
+    });
+  if (parts.length < 2) return null;
+
+  const lat = parts.find(p => p.hemisphere === 'N' || p.hemisphere === 'S') || parts[0];
+  const lng = parts.find(p => p.hemisphere === 'E' || p.hemisphere === 'W') || parts.find(p => p !== lat)!;
+  return toCoords(lat.value, lng.value);
+};
+
+// --- Plus Code (Open Location Code) ---
+
+const OLC_ALPHABET = '23456789CFGHJMPQRVWX';
+const PAIR_RESOLUTIONS = [20, 1, 0.05, 0.0025, 0.000125];
+const PLUS_CODE_PATTERN = new RegExp(`(?:^|[^A-Z0-9])([${OLC_ALPHABET}0]{2,8}\\+[${OLC_ALPHABET}]{0,7})(?![A-Z0-9])`, 'i');
+
+const encodePrefix = (lat: number, lng: number, length: number): string => {
+  let latRest = Math.min(Math.max(lat, -90), 89.9999999) + 90;
+  let lngRest = (((lng + 180) % 360) + 360) % 360;
+  let code = '';
+  for (let i = 0; code.length < length; i++) {
+    const latDigit = Math.floor(latRest / PAIR_RESOLUTIONS[i]);
+    const lngDigit = Math.floor(lngRest / PAIR_RESOLUTIONS[i]);
+    latRest -= latDigit * PAIR_RESOLUTIONS[i];
+    lngRest -= lngDigit * PAIR_RESOLUTIONS[i];
+    code += OLC_ALPHABET[latDigit] + OLC_ALPHABET[lngDigit];
+  }
+  return code;
+};
+
+// ถอดรหัส Plus Code เต็ม -> จุดกึ่งกลางของช่อง
+const decodeFullCode = (code: string): LatLng | null => {
+  const digits = code.replace('+', '').replace(/0+$/, '').toUpperCase();
+  let lat = -90;
+  let lng = -180;
+  let latRes = 0;
+  let lngRes = 0;
+  for (let i = 0; i < digits.length; i++) {
+    const value = OLC_ALPHABET.indexOf(digits[i]);
+    if (value === -1) return null;
+    if (i < 10) {
+      const res = PAIR_RESOLUTIONS[Math.floor(i / 2)];
+      if (i % 2 === 0) { lat += value * res; latRes = res; } else { lng += value * res; lngRes = res; }
+    } else {
+      // หลังตัวที่ 10 แต่ละตัวแบ่งช่องเป็น 5 แถว x 4 คอลัมน์
+      latRes /= 5;
+      lngRes /= 4;
+      lat += Math.floor(value / 4) * latRes;
+      lng += (value % 4) * lngRes;
+    }
+  }
+  return toCoords(lat + latRes / 2, lng + lngRes / 2);
+};
+
+// Plus Code แบบสั้น (ไม่มี 2-4 ตัวหน้า) เติมจากตำแหน่งอ้างอิง แล้วเลือกช่องที่ใกล้ตำแหน่งอ้างอิงที่สุด
+const recoverShortCode = (code: string, reference: LatLng): LatLng | null => {
+  const paddingLength = 8 - code.indexOf('+');
+  const full = decodeFullCode(encodePrefix(reference.lat, reference.lng, paddingLength) + code);
+  if (!full) return null;
+  const resolution = Math.pow(20, 2 - paddingLength / 2);
+  let { lat, lng } = full;
+  if (reference.lat + resolution / 2 < lat && lat - resolution >= -90) lat -= resolution;
+  else if (reference.lat - resolution / 2 > lat && lat + resolution <= 90) lat += resolution;
+  if (reference.lng + resolution / 2 < lng) lng -= resolution;
+  else if (reference.lng - resolution / 2 > lng) lng += resolution;
+  return toCoords(lat, lng);
+};
+
+const parsePlusCode = (text: string, reference?: LatLng): LatLng | null => {
+  const match = text.match(PLUS_CODE_PATTERN);
+  if (!match) return null;
+  const code = match[1].toUpperCase();
+  const separator = code.indexOf('+');
+  if (separator === 8) return decodeFullCode(code);
+  if (separator >= 4 && separator % 2 === 0 && reference) return recoverShortCode(code, reference);
+  return null;
+};
+
+// --- Public ---
+
+// reference ใช้กับ Plus Code แบบสั้นเท่านั้น (ปกติส่งตำแหน่งร้าน)
+export const parseCoordinates = (input: string, reference?: LatLng): LatLng | null => {
+  if (!input) return null;
+  // ช่องที่ Copy จาก Sheet อาจมี "" แทน " (ข้อความที่มีเครื่องหมายคำพูด)
+  const text = input.trim().replace(/""/g, '"');
+  const decoded = safeDecode(text);
+
+  const place = decoded.match(PLACE_PATTERN);
+  if (place) return toCoords(Number(place[1]), Number(place[2]));
+
+  const param = decoded.match(PARAM_PATTERN);
+  if (param) return toCoords(Number(param[1]), Number(param[2]));
+
+  const at = decoded.match(AT_PATTERN);
+  if (at) return toCoords(Number(at[1]), Number(at[2]));
+
+  // ลิงก์ย่อไม่มีพิกัดในตัว อย่าไปเดาจากตัวอักษรในลิงก์
+  if (isShortLink(text)) return null;
+
+  const dms = parseDms(decoded);
+  if (dms) return dms;
+
+  // ใช้ข้อความก่อนถอดรหัส URL เพราะ "+" ใน Plus Code จะกลายเป็นช่องว่าง
+  const plusCode = parsePlusCode(text, reference);
+  if (plusCode) return plusCode;
+
+  const geo = decoded.match(GEO_URI_PATTERN);
+  if (geo) return toCoords(Number(geo[1]), Number(geo[2]));
+
+  // ข้อความแชร์ตำแหน่งจาก LINE / "16.44, 103.49"
+  const pair = decoded.match(PAIR_PATTERN);
+  if (pair) return toCoords(Number(pair[1]), Number(pair[2]));
+
+  return null;
+};
+
+// ข้อความนี้น่าจะเป็นตำแหน่ง (ใช้เดาชนิดคอลัมน์ตอนนำเข้า)
+export const looksLikeLocation = (text: string) =>
+  isShortLink(text) || /google\.[a-z.]+\/maps/.test(text) || parseCoordinates(text) !== null;
+
+// --- Short link resolver ---
+// Resolver ต้องตอบ GET ?action=resolveLink&url=<ลิงก์ย่อ> เป็น JSON { "url": "<ลิงก์เต็ม>" } หรือ { "lat": .., "lng": .. }
+// Google Apps Script ทำได้ด้วย UrlFetchApp (followRedirects: false แล้วอ่าน Location) / mock-server มีให้ทดสอบในเครื่อง
+
+export const getResolverUrl = (sync: SyncSettings): string =>
+  sync.resolverUrl.trim() || sync.ordersUrl.trim() || readPersisted('googleScriptUrl') || '';
+
+export interface ShortLinkResult {
+  resolved: Record<string, LatLng>;
+  failed: string[];
+}
+
+const resolveOne = async (link: string, resolverUrl: string): Promise<LatLng | null> => {
+  const separator = resolverUrl.includes('?') ? '&' : '?';
+  const response = await fetchWithRetry(`${resolverUrl}${separator}action=resolveLink&url=${encodeURIComponent(link)}`);
+  const body = await response.json();
+  if (body?.lat != null && body?.lng != null) return toCoords(Number(body.lat), Number(body.lng));
+  return typeof body?.url === 'string' && !isShortLink(body.url) ? parseCoordinates(body.url) : null;
+};
+
+// แปลงทีละลิงก์ (ลิงก์ในชุดเดียวมีไม่มาก และไม่อยากยิง Script พร้อมกันเยอะ)
+export const resolveShortLinks = async (links: string[], resolverUrl: string): Promise<ShortLinkResult> => {
+  const result: ShortLinkResult = { resolved: {}, failed: [] };
+  for (const link of Array.from(new Set(links))) {
+    try {
+      const coords = resolverUrl ? await resolveOne(link, resolverUrl) : null;
+      if (coords) result.resolved[link] = coords;
+      else result.failed.push(link);
+    } catch (e) {
+      console.error(`Failed to resolve short link ${link}:`, e);
+      result.failed.push(link);
+    }
+  }
+  return result;
+};
@@ -0,0 +1,17 @@
+// ==================================================================================
+// ชื่อลูกค้าที่แสดงในแอป / ประทับบนรูป / ส่งกลับไปที่ Sheet ใช้กติกาเดียวกันทุกที่
+// ==================================================================================
+
+// ขึ้นต้นด้วยคำเหล่านี้อยู่แล้ว ไม่ต้องเติม "คุณ"
+const NO_PREFIX_NAME = /^(ร้าน|บริษัท|หจก|โรงเรียน|วัด|ธนาคาร|คุณ|Mr\.|Ms\.|Mrs\.)/;
+
+// ลูกค้านิติบุคคล ต้องมีชื่อผู้รับและลายเซ็นทุกครั้งที่ส่งของ
+const CORPORATE_NAME = /^(บริษัท|หจก|โรงเรียน)/;
+
+// เติม "คุณ" นำหน้า (เพิ่มความสุภาพ และหาชื่อใน Sheet เจอทั้งแบบมีและไม่มี "คุณ")
+export const displayName = (name: string): string => {
+  const trimmed = name.trim();
+  return NO_PREFIX_NAME.test(trimmed) ? trimmed : `คุณ${trimmed}`;
+};
+
+export const isCorporateName = (name: string): boolean => CORPORATE_NAME.test(name.trim());
@@ -0,0 +1,68 @@
+import { DeliveryRecord, PAYMENT_METHOD_LABELS, DELIVERY_OUTCOME_LABELS } from '../types';
+
+// ==================================================================================
+// ตรวจงานที่ส่งห่างจากหมุดลูกค้า และรายงานประวัติการส่งเป็น CSV (เปิดใน Excel / Google Sheet ได้)
+// หมายเหตุ: ตำแหน่งเครื่องตอนกดส่ง (deviceLocation / distanceFromPin) บันทึกหลังถ่ายรูป
+// จึงไม่อยู่ใน seal ของรูป (photoStamp) ถูกแก้ในประวัติได้โดยการตรวจรูปจับไม่ได้
+// ==================================================================================
+
+// หักความคลาดเคลื่อนของ GPS ออกก่อน เพื่อไม่ให้งานที่สัญญาณไม่ดีถูกทำเครื่องหมายผิด
+export const isFarFromPin = (record: DeliveryRecord, thresholdMeters: number): boolean =>
+  record.distanceFromPin != null &&
+  record.distanceFromPin - (record.deviceLocation?.accuracy || 0) > thresholdMeters;
+
+// ไม่มี GPS หรือคลาดเคลื่อนเกินระยะที่ตรวจ = บอกไม่ได้ว่ากดส่งที่หน้าบ้านลูกค้าจริง
+export const hasWeakGps = (record: DeliveryRecord, thresholdMeters: number): boolean =>
+  !record.deviceLocation || record.deviceLocation.accuracy > thresholdMeters;
+
+const csvCell = (value: string | number | undefined) => {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toThaiTime = (iso?: string) => (iso ? new Date(iso).toLocaleString('th-TH') : undefined);
+
+export const historyToCsv = (history: DeliveryRecord[], farFromPinMeters: number): string => {
+  const headers = [
+    'เวลาส่ง', 'ลูกค้า', 'เลขออเดอร์', 'ผลการส่ง', 'เหตุผล', 'หมายเหตุ', 'ผู้รับ', 'ลายเซ็น', 'จำนวนรูป', 'ยอดเงิน', 'วิธีชำระ', 'ถึงจุดส่ง',
+    'Lat หมุด', 'Lng หมุด', 'Lat เครื่อง', 'Lng เครื่อง', 'ความแม่นยำ GPS (ม.)', 'ห่างจากหมุด (ม.)', 'ส่งไกลจากหมุด',
+  ];
+  const rows = history.map(h => [
+    toThaiTime(h.timestamp),
+    h.customerName,
+    h.order?.orderNo,
+    DELIVERY_OUTCOME_LABELS[h.outcome || 'delivered'],
+    h.reason,
+    h.note,
+    h.recipientName,
+    h.signatureUrl ? 'มี' : '',
+    h.photos.length,
+    h.order?.amountDue,
+    h.order?.paymentMethod && PAYMENT_METHOD_LABELS[h.order.paymentMethod],
+    toThaiTime(h.arrivedAt),
+    h.location.lat,
+    h.location.lng,
+    h.deviceLocation?.lat,
+    h.deviceLocation?.lng,
+    h.deviceLocation && Math.round(h.deviceLocation.accuracy),
+    h.distanceFromPin != null ? Math.round(h.distanceFromPin) : undefined,
+    !h.deviceLocation ? 'ไม่มี GPS'
+      : isFarFromPin(h, farFromPinMeters) ? 'ใช่'
+      : hasWeakGps(h, farFromPinMeters) ? 'GPS ไม่แม่นยำ' : '',
+  ]);
+  return [headers, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+};
+
+export const downloadHistoryCsv = (history: DeliveryRecord[], farFromPinMeters: number) => {
+  // ใส่ BOM ให้ Excel อ่านภาษาไทยถูก
+  const blob = new Blob(["\uFEFF" + historyToCsv(history, farFromPinMeters)], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', `delivery_report_${new Date().toISOString().slice(0, 10)}.csv`);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { findDuplicates, applyDuplicateDecisions, mergePoints } from './duplicateDetector';
+import { CustomerPoint } from '../types';
+
+// 0.0001 องศาละติจูด ประมาณ 11 เมตร
+const point = (id: string, name: string, dLat = 0, extra: Partial<CustomerPoint> = {}): CustomerPoint => ({
+  id, name, lat: 16.44 + dLat, lng: 103.5, ...extra,
+});
+
+describe('findDuplicates', () => {
+  it('เลขออเดอร์เดียวกันถือว่าซ้ำ แม้อยู่คนละที่', () => {
+    const { unique, duplicates } = findDuplicates(
+      [point('a', 'คุณต้น', 0, { orderNo: '#12' })],
+      [point('b', 'คุณหญิง', 0.01, { orderNo: '#12' })]
+    );
+    expect(unique).toEqual([]);
+    expect(duplicates.map(d => [d.incoming.id, d.existing.id, d.reason])).toEqual([['b', 'a', 'orderNo']]);
+  });
+
+  it('ชื่อเดียวกัน (ไม่สนคำนำหน้า) และอยู่ใกล้กัน', () => {
+    const { duplicates } = findDuplicates([point('a', 'คุณต้น')], [point('b', 'ต้น', 0.0002)]);
+    expect(duplicates.map(d => d.reason)).toEqual(['nameAndLocation']);
+  });
+
+  it('พิกัดแทบตรงกันแต่คนละชื่อ ค่าเริ่มต้นเป็นเก็บไว้ทั้งคู่ (คนละห้องในตึกเดียวกัน)', () => {
+    const { duplicates } = findDuplicates([point('a', 'คุณต้น')], [point('b', 'คุณหญิง', 0.00002)]);
+    expect(duplicates.map(d => d.reason)).toEqual(['location']);
+  });
+
+  it('เลือกเหตุผลที่ชัดเจนที่สุดเมื่อซ้ำหลายหมุด', () => {
+    const existing = [point('a', 'คุณหญิง'), point('b', 'คุณต้น', 0.0001), point('c', 'คุณเอ', 0.01, { orderNo: '7' })];
+    const { duplicates } = findDuplicates(existing, [point('x', 'ต้น', 0, { orderNo: '7' })]);
+    expect(duplicates.map(d => [d.existing.id, d.reason])).toEqual([['c', 'orderNo']]);
+  });
+
+  it('เทียบกับรายการก่อนหน้าในชุดที่นำเข้าเดียวกันด้วย', () => {
+    const { unique, duplicates } = findDuplicates([], [point('a', 'คุณต้น'), point('b', 'คุณต้น', 0.0001), point('c', 'คุณหญิง', 0.01)]);
+    expect(unique.map(p => p.id)).toEqual(['a', 'c']);
+    expect(duplicates.map(d => [d.incoming.id, d.existing.id])).toEqual([['b', 'a']]);
+  });
+});
+
+describe('applyDuplicateDecisions', () => {
+  it('ข้าม / รวม / เก็บทั้งคู่ ตามที่เลือก', () => {
+    const base = [point('a', 'คุณต้น', 0, { note: 'ฝากป้อม' }), point('b', 'คุณหญิง', 0.01)];
+    const { duplicates } = findDuplicates(base, [
+      point('x', 'ต้น', 0.0001, { phone: '0812345678', note: 'โทรก่อน' }),
+      point('y', 'คุณหญิง', 0.0101),
+      point('z', 'คุณเอ', 0.01),
+    ]);
+    const result = applyDuplicateDecisions(base, duplicates, ['merge', 'skip', 'keep']);
+    expect(result.map(p => p.id)).toEqual(['a', 'b', 'z']);
+    expect(result[0]).toMatchObject({ name: 'ต้น', phone: '0812345678', note: 'ฝากป้อม / โทรก่อน', lat: 16.44 });
+  });
+});
+
+describe('mergePoints', () => {
+  it('ช่องว่างของข้อมูลใหม่ไม่ทับข้อมูลเดิม', () => {
+    const merged = mergePoints(point('a', 'คุณต้น', 0, { phone: '0812345678' }), point('b', 'คุณต้น', 0.0001, { phone: '', orderNo: '#3' }));
+    expect(merged).toMatchObject({ id: 'a', phone: '0812345678', orderNo: '#3', lat: 16.44 });
+  });
+});
@@ -0,0 +1,138 @@
+import { CustomerPoint } from '../types';
+import { getDistanceMeters } from './geoService';
+import { normalizeOrderNo } from './sheetService';
+
+// ==================================================================================
+// ตรวจหมุดซ้ำตอนนำเข้า (วาง Sheet ซ้ำ / ออเดอร์เดิม) และหาลูกค้าที่อยู่อาคารเดียวกัน
+// ==================================================================================
+
+export type DuplicateReason = 'orderNo' | 'nameAndLocation' | 'location';
+export type DuplicateAction = 'skip' | 'merge' | 'keep';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  orderNo: 'เลขออเดอร์ซ้ำ',
+  nameAndLocation: 'ชื่อเดียวกัน ตำแหน่งใกล้กัน',
+  location: 'พิกัดเดียวกัน',
+};
+
+export interface DuplicateMatch {
+  incoming: CustomerPoint;
+  existing: CustomerPoint;
+  reason: DuplicateReason;
+  distance: number; // เมตร
+}
+
+// ชื่อเดียวกันและห่างไม่เกินนี้ = คนเดิม (GPS จากลิงก์คนละครั้งคลาดได้เล็กน้อย)
+const NAME_MATCH_METERS = 30;
+// พิกัดแทบจะตรงกัน (ไม่สนชื่อ)
+const SAME_SPOT_METERS = 5;
+// ลูกค้าที่อยู่ห่างกันไม่เกินนี้ถือว่าอยู่อาคารเดียวกัน (แสดงป้ายบนแผนที่)
+const SHARED_BUILDING_METERS = 15;
+
+// ตัดคำนำหน้า/ช่องว่าง เพื่อให้ "คุณต้น" กับ "ต้น" ถือเป็นชื่อเดียวกัน
+const normalizeName = (name: string) =>
+  name.trim().replace(/^(คุณ|Mr\.|Ms\.|Mrs\.)\s*/i, '').replace(/\s+/g, '').toLowerCase();
+
+// ค่าเริ่มต้นของแต่ละเหตุผล: พิกัดเดียวกันแต่คนละชื่อ มักเป็นลูกค้าคนละห้องในตึกเดียวกัน
+export const DEFAULT_ACTIONS: Record<DuplicateReason, DuplicateAction> = {
+  orderNo: 'skip',
+  nameAndLocation: 'merge',
+  location: 'keep',
+};
+
+const REASON_RANK: Record<DuplicateReason, number> = { orderNo: 0, nameAndLocation: 1, location: 2 };
+
+const matchPoint = (incoming: CustomerPoint, candidate: CustomerPoint): DuplicateMatch | null => {
+  const distance = getDistanceMeters(incoming.lat, incoming.lng, candidate.lat, candidate.lng);
+  const orderNo = normalizeOrderNo(incoming.orderNo);
+
+  if (orderNo && orderNo === normalizeOrderNo(candidate.orderNo)) {
+    return { incoming, existing: candidate, reason: 'orderNo', distance };
+  }
+  if (distance <= NAME_MATCH_METERS && normalizeName(incoming.name) === normalizeName(candidate.name)) {
+    return { incoming, existing: candidate, reason: 'nameAndLocation', distance };
+  }
+  if (distance <= SAME_SPOT_METERS) {
+    return { incoming, existing: candidate, reason: 'location', distance };
+  }
+  return null;
+};
+
+// เทียบกับหมุดเดิม และกับรายการก่อนหน้าในชุดที่นำเข้าเดียวกัน
+export const findDuplicates = (
+  existing: CustomerPoint[],
+  incoming: CustomerPoint[]
+): { unique: CustomerPoint[], duplicates: DuplicateMatch[] } => {
+  const accepted = [...existing];
+  const unique: CustomerPoint[] = [];
+  const duplicates: DuplicateMatch[] = [];
+
+  incoming.forEach(point => {
+    // ถ้าซ้ำหลายหมุด เลือกเหตุผลที่ชัดเจนที่สุด (เลขออเดอร์ > ชื่อ+ตำแหน่ง > พิกัด)
+    let match: DuplicateMatch | null = null;
+    for (const candidate of accepted) {
+      const found = matchPoint(point, candidate);
+      if (found && (!match || REASON_RANK[found.reason] < REASON_RANK[match.reason])) match = found;
+      if (match?.reason === 'orderNo') break;
+    }
+    if (match) {
+      duplicates.push(match);
+    } else {
+      unique.push(point);
+      accepted.push(point);
+    }
+  });
+
+  return { unique, duplicates };
+};
+
+// เฉพาะช่องที่มีค่า (ไม่เอา undefined / ข้อความว่าง มาทับข้อมูลเดิม)
+const definedFields = <T extends object>(value: T): Partial<T> =>
+  Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined && field !== '')) as Partial<T>;
+
+// รวมข้อมูล: ใช้ข้อมูลใหม่ที่มีค่า ทับข้อมูลเดิม (คง id และพิกัดเดิมไว้) หมายเหตุต่อท้ายกัน
+export const mergePoints = (existing: CustomerPoint, incoming: CustomerPoint): CustomerPoint => {
+  const note = incoming.note && incoming.note !== existing.note
+    ? (existing.note ? `${existing.note} / ${incoming.note}` : incoming.note)
+    : existing.note;
+  return {
+    ...existing,
+    ...definedFields(incoming),
+    id: existing.id,
+    lat: existing.lat,
+    lng: existing.lng,
+    note,
+  };
+};
+
+export const applyDuplicateDecisions = (
+  base: CustomerPoint[],
+  duplicates: DuplicateMatch[],
+  decisions: DuplicateAction[]
+): CustomerPoint[] => {
+  const result = [...base];
+  duplicates.forEach((match, i) => {
+    const action = decisions[i];
+    if (action === 'keep') {
+      result.push(match.incoming);
+    } else if (action === 'merge') {
+      const index = result.findIndex(p => p.id === match.existing.id);
+      if (index !== -1) result[index] = mergePoints(result[index], match.incoming);
+    }
+  });
+  return result;
+};
+
+// จับกลุ่มลูกค้าที่อยู่อาคารเดียวกัน: pointId -> หมุดอื่นในอาคารเดียวกัน
+export const groupSharedBuildings = (points: CustomerPoint[]): Map<string, CustomerPoint[]> => {
+  const groups = new Map<string, CustomerPoint[]>();
+  points.forEach((a, i) => {
+    for (let j = i + 1; j < points.length; j++) {
+      const b = points[j];
+      if (getDistanceMeters(a.lat, a.lng, b.lat, b.lng) > SHARED_BUILDING_METERS) continue;
+      groups.set(a.id, [...(groups.get(a.id) || []), b]);
+      groups.set(b.id, [...(groups.get(b.id) || []), a]);
+    }
+  });
+  return groups;
+};
@@ -0,0 +1,384 @@
+import { CustomerPoint, DeliveryRecord, OrderDetails, PlannedRoute } from '../types';
+import { parseDeliveryWindow, parsePaymentMethod } from './sheetImport';
+
+// ==================================================================================
+// นำเข้า / ส่งออกหมุดเป็น GeoJSON, KML, GPX (แลกหมุดกับ Google My Maps, OsmAnd, โปรแกรมบัญชี)
+// รายละเอียดออเดอร์เก็บเป็น properties (GeoJSON) / ExtendedData (KML) / extensions (GPX)
+// ชื่อช่องเหมือนใน OrderDetails เพื่อให้นำเข้ากลับมาได้ครบ
+// ==================================================================================
+
+export type GeoFormat = 'geojson' | 'kml' | 'gpx';
+
+export const GEO_FORMAT_LABELS: Record<GeoFormat, string> = {
+  geojson: 'GeoJSON',
+  kml: 'KML',
+  gpx: 'GPX',
+};
+
+const FILE_TYPES: Record<GeoFormat, { extension: string, mime: string }> = {
+  geojson: { extension: 'geojson', mime: 'application/geo+json' },
+  kml: { extension: 'kml', mime: 'application/vnd.google-earth.kml+xml' },
+  gpx: { extension: 'gpx', mime: 'application/gpx+xml' },
+};
+
+export const GEO_FILE_ACCEPT = '.geojson,.json,.kml,.gpx';
+
+type Properties = Record<string, string | number>;
+
+interface GeoWaypoint {
+  name: string;
+  lat: number;
+  lng: number;
+  time?: string;  // ISO
+  properties: Properties;
+}
+
+// เอกสารกลาง แปลงเป็นไฟล์แต่ละรูปแบบอีกที
+export interface GeoDocument {
+  name: string;
+  waypoints: GeoWaypoint[];
+  line?: { lat: number, lng: number }[];
+}
+
+// ---------- สร้างเอกสารจากข้อมูลในแอป ----------
+
+const orderToProperties = (order: OrderDetails | undefined): Properties => {
+  const properties: Properties = {};
+  if (!order) return properties;
+  if (order.orderNo) properties.orderNo = order.orderNo;
+  if (order.phone) properties.phone = order.phone;
+  if (order.orderTime) properties.orderTime = order.orderTime;
+  if (order.amountDue != null) properties.amountDue = order.amountDue;
+  if (order.paymentMethod) properties.paymentMethod = order.paymentMethod;
+  if (order.deliveryWindow) properties.deliveryWindow = `${order.deliveryWindow.start}-${order.deliveryWindow.end}`;
+  if (order.note) properties.note = order.note;
+  return properties;
+};
+
+export const pointsToDocument = (points: CustomerPoint[]): GeoDocument => ({
+  name: 'หมุดลูกค้า',
+  waypoints: points.map(p => ({ name: p.name, lat: p.lat, lng: p.lng, properties: orderToProperties(p) })),
+});
+
+export const routeToDocument = (route: PlannedRoute): GeoDocument => ({
+  name: 'เส้นทางส่งของ',
+  waypoints: route.stops.map((p, i) => ({
+    name: `${i + 1}. ${p.name}`,
+    lat: p.lat,
+    lng: p.lng,
+    properties: { sequence: i + 1, ...orderToProperties(p) },
+  })),
+  line: route.line,
+});
+
+export const historyToDocument = (history: DeliveryRecord[]): GeoDocument => ({
+  name: 'ประวัติการส่ง',
+  waypoints: history.map(h => ({
+    name: h.customerName,
+    lat: h.location.lat,
+    lng: h.location.lng,
+    time: h.timestamp,
+    properties: {
+      deliveredAt: h.timestamp,
+      ...(h.arrivedAt && { arrivedAt: h.arrivedAt }),
+      outcome: h.outcome || 'delivered',
+      ...(h.reason && { reason: h.reason }),
+      ...(h.note && { deliveryNote: h.note }),
+      ...(h.recipientName && { recipientName: h.recipientName }),
+      photos: h.photos.length,
+      ...(h.deviceLocation && {
+        deviceLat: h.deviceLocation.lat,
+        deviceLng: h.deviceLocation.lng,
+        deviceAccuracy: Math.round(h.deviceLocation.accuracy),
+      }),
+      ...(h.distanceFromPin != null && { distanceFromPin: Math.round(h.distanceFromPin) }),
+      ...orderToProperties(h.order),
+    },
+  })),
+});
+
+// ---------- เขียนไฟล์ ----------
+
+const escapeXml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' }[c] as string));
+
+const toGeoJson = (doc: GeoDocument): string => {
+  const features: any[] = doc.waypoints.map(w => ({
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [w.lng, w.lat] },
+    properties: { name: w.name, ...w.properties },
+  }));
+  if (doc.line && doc.line.length > 1) {
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: doc.line.map(c => [c.lng, c.lat]) },
+      properties: { name: doc.name },
+    });
+  }
+  return JSON.stringify({ type: 'FeatureCollection', name: doc.name, features }, null, 2);
+};
+
+const toKml = (doc: GeoDocument): string => {
+  const placemarks = doc.waypoints.map(w => {
+    const data = Object.entries(w.properties)
+      .map(([key, value]) => `<Data name="${key}"><value>${escapeXml(String(value))}</value></Data>`)
+      .join('');
+    return [
+      '    <Placemark>',
+      `      <name>${escapeXml(w.name)}</name>`,
+      w.properties.note ? `      <description>${escapeXml(String(w.properties.note))}</description>` : '',
+      w.time ? `      <TimeStamp><when>${w.time}</when></TimeStamp>` : '',
+      data ? `      <ExtendedData>${data}</ExtendedData>` : '',
+      `      <Point><coordinates>${w.lng},${w.lat}</coordinates></Point>`,
+      '    </Placemark>',
+    ].filter(Boolean).join('\n');
+  });
+  if (doc.line && doc.line.length > 1) {
+    placemarks.push([
+      '    <Placemark>',
+      `      <name>${escapeXml(doc.name)}</name>`,
+      `      <LineString><tessellate>1</tessellate><coordinates>${doc.line.map(c => `${c.lng},${c.lat}`).join(' ')}</coordinates></LineString>`,
+      '    </Placemark>',
+    ].join('\n'));
+  }
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(doc.name)}</name>`,
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+  ].join('\n');
+};
+
+const toGpx = (doc: GeoDocument): string => {
+  const waypoints = doc.waypoints.map(w => {
+    const extensions = Object.entries(w.properties)
+      .map(([key, value]) => `<sg:${key}>${escapeXml(String(value))}</sg:${key}>`)
+      .join('');
+    return [
+      `  <wpt lat="${w.lat}" lon="${w.lng}">`,
+      w.time ? `    <time>${w.time}</time>` : '',
+      `    <name>${escapeXml(w.name)}</name>`,
+      w.properties.note ? `    <desc>${escapeXml(String(w.properties.note))}</desc>` : '',
+      extensions ? `    <extensions>${extensions}</extensions>` : '',
+      '  </wpt>',
+    ].filter(Boolean).join('\n');
+  });
+  const track = doc.line && doc.line.length > 1
+    ? [
+        '  <trk>',
+        `    <name>${escapeXml(doc.name)}</name>`,
+        '    <trkseg>',
+        ...doc.line.map(c => `      <trkpt lat="${c.lat}" lon="${c.lng}"></trkpt>`),
+        '    </trkseg>',
+        '  </trk>',
+      ]
+    : [];
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="SeoulGood Route" xmlns="http://www.topografix.com/GPX/1/1" xmlns:sg="https://seoulgood.app/gpx/1">',
+    `  <metadata><name>${escapeXml(doc.name)}</name></metadata>`,
+    ...waypoints,
+    ...track,
+    '</gpx>',
+  ].join('\n');
+};
+
+export const serializeGeo = (doc: GeoDocument, format: GeoFormat): string => {
+  if (format === 'kml') return toKml(doc);
+  if (format === 'gpx') return toGpx(doc);
+  return toGeoJson(doc);
+};
+
+export const downloadGeoFile = (doc: GeoDocument, format: GeoFormat, baseName: string) => {
+  const { extension, mime } = FILE_TYPES[format];
+  const blob = new Blob([serializeGeo(doc, format)], { type: `${mime};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', `${baseName}_${new Date().toISOString().slice(0, 10)}.${extension}`);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// ---------- อ่านไฟล์ ----------
+
+export interface ParsedGeoFile {
+  format: GeoFormat;
+  points: CustomerPoint[];
+  skipped: number; // รายการที่ไม่มีพิกัดที่ใช้ได้ (เช่น เส้นทาง หรือพิกัดผิด)
+}
+
+export const detectGeoFormat = (fileName: string, text: string): GeoFormat | null => {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.kml')) return 'kml';
+  if (name.endsWith('.gpx')) return 'gpx';
+  if (name.endsWith('.geojson') || name.endsWith('.json')) return 'geojson';
+  const head = text.trimStart().slice(0, 500);
+  if (head.startsWith('{')) return 'geojson';
+  if (/<kml[\s>]/.test(head)) return 'kml';
+  if (/<gpx[\s>]/.test(head)) return 'gpx';
+  return null;
+};
+
+const isValidCoord = (lat: number, lng: number) =>
+  !isNaN(lat) && !isNaN(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+
+// properties จากไฟล์ -> รายละเอียดออเดอร์ (รองรับทั้งไฟล์ที่แอปส่งออกเอง และไฟล์ทั่วไปที่มีแค่ชื่อ/คำอธิบาย)
+const propertiesToOrder = (properties: Record<string, unknown>): OrderDetails => {
+  const get = (...keys: string[]) => {
+    for (const key of keys) {
+      const value = properties[key];
+      if (value != null && String(value).trim() !== '') return String(value).trim();
+    }
+    return '';
+  };
+  const order: OrderDetails = {};
+  const orderNo = get('orderNo');
+  const phone = get('phone');
+  const orderTime = get('orderTime');
+  const amount = Number(get('amountDue').replace(/[฿,\s]/g, ''));
+  const paymentMethod = get('paymentMethod');
+  const deliveryWindow = get('deliveryWindow');
+  const note = get('note', 'description', 'desc');
+  if (orderNo) order.orderNo = orderNo;
+  if (phone) order.phone = phone;
+  if (orderTime && !isNaN(Date.parse(orderTime))) order.orderTime = new Date(orderTime).toISOString();
+  if (get('amountDue') && !isNaN(amount)) order.amountDue = amount;
+  if (paymentMethod && parsePaymentMethod(paymentMethod)) order.paymentMethod = parsePaymentMethod(paymentMethod);
+  if (deliveryWindow && parseDeliveryWindow(deliveryWindow)) order.deliveryWindow = parseDeliveryWindow(deliveryWindow);
+  if (note) order.note = note;
+  return order;
+};
+
+// ชื่อในไฟล์ route ที่แอปส่งออกมีเลขลำดับนำหน้า ("3. คุณต้น") ตัดออกตอนนำเข้า
+const cleanName = (name: string, sequence: unknown) =>
+  sequence != null ? name.replace(/^\d+\.\s*/, '') : name;
+
+// หมุดที่อ่านจากไฟล์ ก่อนตรวจพิกัดและแปลงเป็น CustomerPoint
+interface RawPlacemark {
+  name: string;
+  lat: number;
+  lng: number;
+  properties: Record<string, unknown>;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// [lng, lat] ของ Point หรือทุกจุดของ MultiPoint (Geometry อื่นไม่ใช่หมุด)
+const pointCoordinates = (geometry: unknown): unknown[][] => {
+  if (!isRecord(geometry) || !Array.isArray(geometry.coordinates)) return [];
+  if (geometry.type === 'Point') return [geometry.coordinates];
+  if (geometry.type === 'MultiPoint') return geometry.coordinates.map(c => (Array.isArray(c) ? c : []));
+  return [];
+};
+
+const parseGeoJson = (text: string): { raws: RawPlacemark[], skipped: number } => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    throw new Error("อ่านไฟล์ GeoJSON ไม่ได้ (รูปแบบ JSON ไม่ถูกต้อง)");
+  }
+  const features: unknown[] | null = !isRecord(json) ? null
+    : json.type === 'FeatureCollection' && Array.isArray(json.features) ? json.features
+    : json.type === 'Feature' ? [json]
+    : null;
+  if (!features) throw new Error("ไฟล์นี้ไม่ใช่ GeoJSON (ไม่พบ Feature)");
+
+  const raws: RawPlacemark[] = [];
+  let skipped = 0;
+  features.forEach(feature => {
+    const properties = isRecord(feature) && isRecord(feature.properties) ? feature.properties : {};
+    const coordinates = isRecord(feature) ? pointCoordinates(feature.geometry) : [];
+    if (coordinates.length === 0) {
+      skipped++;
+      return;
+    }
+    coordinates.forEach(c => {
+      raws.push({ name: String(properties.name ?? properties.Name ?? properties.title ?? ''), lat: Number(c[1]), lng: Number(c[0]), properties });
+    });
+  });
+  return { raws, skipped };
+};
+
+const parseXml = (text: string, label: string): Document => {
+  const xml = new DOMParser().parseFromString(text, 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`อ่านไฟล์ ${label} ไม่ได้ (รูปแบบ XML ไม่ถูกต้อง)`);
+  }
+  return xml;
+};
+
+const childText = (el: Element, tag: string) => el.getElementsByTagName(tag)[0]?.textContent?.trim() || '';
+
+const parseKml = (text: string): { raws: RawPlacemark[], skipped: number } => {
+  const xml = parseXml(text, 'KML');
+  const raws: RawPlacemark[] = [];
+  let skipped = 0;
+  Array.from(xml.getElementsByTagName('Placemark')).forEach(placemark => {
+    const point = placemark.getElementsByTagName('Point')[0];
+    if (!point) {
+      skipped++; // LineString / Polygon ไม่ใช่หมุด
+      return;
+    }
+    const [lng, lat] = childText(point, 'coordinates').split(',').map(Number);
+    const properties: Record<string, unknown> = { description: childText(placemark, 'description') };
+    Array.from(placemark.getElementsByTagName('Data')).forEach(data => {
+      const key = data.getAttribute('name');
+      if (key) properties[key] = childText(data, 'value');
+    });
+    raws.push({ name: childText(placemark, 'name'), lat, lng, properties });
+  });
+  return { raws, skipped };
+};
+
+const parseGpx = (text: string): { raws: RawPlacemark[], skipped: number } => {
+  const xml = parseXml(text, 'GPX');
+  const raws: RawPlacemark[] = [];
+  // หมุด (wpt) และจุดในเส้นทางที่วางไว้ (rtept เช่นจาก OsmAnd) ส่วน trkpt เป็นรอยทาง ไม่นำเข้า
+  const elements = [...Array.from(xml.getElementsByTagName('wpt')), ...Array.from(xml.getElementsByTagName('rtept'))];
+  elements.forEach(el => {
+    const properties: Record<string, unknown> = { desc: childText(el, 'desc') || childText(el, 'cmt') };
+    const extensions = el.getElementsByTagName('extensions')[0];
+    if (extensions) {
+      Array.from(extensions.children).forEach(child => {
+        properties[child.localName] = child.textContent?.trim() || '';
+      });
+    }
+    raws.push({ name: childText(el, 'name'), lat: Number(el.getAttribute('lat')), lng: Number(el.getAttribute('lon')), properties });
+  });
+  return { raws, skipped: 0 };
+};
+
+// โยน Error เป็นข้อความภาษาไทยถ้าอ่านไฟล์ไม่ได้ทั้งไฟล์
+export const parseGeoFile = (fileName: string, text: string): ParsedGeoFile => {
+  const format = detectGeoFormat(fileName, text);
+  if (!format) throw new Error("ไม่รู้จักรูปแบบไฟล์ (รองรับ GeoJSON, KML, GPX)");
+
+  const { raws, skipped } = format === 'kml' ? parseKml(text) : format === 'gpx' ? parseGpx(text) : parseGeoJson(text);
+
+  const stamp = Date.now();
+  const points: CustomerPoint[] = [];
+  let invalid = 0;
+  raws.forEach((raw, index) => {
+    if (!isValidCoord(raw.lat, raw.lng)) {
+      invalid++;
+      return;
+    }
+    points.push({
+      id: `p-${stamp}-${index}`,
+      name: cleanName(raw.name, raw.properties.sequence) || `หมุดที่ ${index + 1}`,
+      lat: raw.lat,
+      lng: raw.lng,
+      ...propertiesToOrder(raw.properties),
+    });
+  });
+
+  return { format, points, skipped: skipped + invalid };
+};
@@ -0,0 +1,107 @@
+// ฟังก์ชันคำนวณทางภูมิศาสตร์ที่ใช้ร่วมกันหลายส่วนในแอป
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+// ระยะทางเส้นตรง (Haversine) หน่วยเมตร
+export const getDistanceMeters = (lat1: number, lon1: number, lat2: number, lon2: number) => {
+  const R = 6371e3;
+  const φ1 = lat1 * Math.PI / 180;
+  const φ2 = lat2 * Math.PI / 180;
+  const Δφ = (lat2 - lat1) * Math.PI / 180;
+  const Δλ = (lon2 - lon1) * Math.PI / 180;
+  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+};
+
+// เรียงจุดจากใกล้ไปไกล (ระยะเส้นตรง) พร้อมแนบระยะทาง ใส่ limit เพื่อเอาเฉพาะ N จุดที่ใกล้ที่สุด
+export const sortByDistance = <T extends LatLng>(origin: LatLng, items: T[], limit?: number): (T & { distance: number })[] => {
+  const sorted = items
+    .map(item => ({ ...item, distance: getDistanceMeters(origin.lat, origin.lng, item.lat, item.lng) }))
+    .sort((a, b) => a.distance - b.distance);
+  return limit === undefined ? sorted : sorted.slice(0, limit);
+};
+
+// สร้างตารางระยะทางเส้นตรงระหว่างทุกคู่จุด (ใช้ตอน Offline แทน Road Matrix)
+export const buildHaversineMatrix = (locations: LatLng[]): number[][] => {
+  return locations.map(a => locations.map(b => getDistanceMeters(a.lat, a.lng, b.lat, b.lng)));
+};
+
+// แปลงระยะทางเป็นข้อความ (ม. / กม.)
+export const formatDistance = (meters: number): string => {
+  if (meters < 1000) return `${Math.round(meters)} ม.`;
+  return `${(meters / 1000).toFixed(1)} กม.`;
+};
+
+// แปลงเวลาเป็นข้อความ (นาที / ชม.)
+export const formatDuration = (seconds: number): string => {
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return `${minutes} นาที`;
+  return `${Math.floor(minutes / 60)} ชม. ${minutes % 60} นาที`;
+};
+
+export interface PolylineProjection {
+  distance: number;      // ระยะจากจุดถึงเส้น (เมตร)
+  segmentIndex: number;  // index ของช่วงเส้นที่ใกล้ที่สุด
+  t: number;             // ตำแหน่งบนช่วงเส้นนั้น (0-1)
+  along: number;         // ระยะจากต้นเส้นถึงจุดที่ฉายลงเส้น (เมตร)
+}
+
+// ฉายจุดลงบนเส้นทาง (coords เป็น [lng, lat] ตามรูปแบบ GeoJSON)
+// ใช้การประมาณระนาบเฉพาะที่ (Equirectangular) ซึ่งแม่นพอสำหรับระยะไม่กี่กิโลเมตร
+export const projectOntoPolyline = (lat: number, lng: number, coords: number[][]): PolylineProjection | null => {
+  if (coords.length < 2) return null;
+
+  const mPerDegLat = 111320;
+  const mPerDegLng = 111320 * Math.cos(lat * Math.PI / 180);
+
+  let best: PolylineProjection | null = null;
+  let along = 0;
+
+  for (let i = 0; i < coords.length - 1; i++) {
+    const ax = (coords[i][0] - lng) * mPerDegLng;
+    const ay = (coords[i][1] - lat) * mPerDegLat;
+    const bx = (coords[i + 1][0] - lng) * mPerDegLng;
+    const by = (coords[i + 1][1] - lat) * mPerDegLat;
+    const dx = bx - ax;
+    const dy = by - ay;
+    const segLength = Math.sqrt(dx * dx + dy * dy);
+
+    let t = 0;
+    if (segLength > 0) {
+      t = Math.max(0, Math.min(1, -(ax * dx + ay * dy) / (segLength * segLength)));
+    }
+    const px = ax + t * dx;
+    const py = ay + t * dy;
+    const distance = Math.sqrt(px * px + py * py);
+
+    if (!best || distance < best.distance) {
+      best = { distance, segmentIndex: i, t, along: along + t * segLength };
+    }
+    along += segLength;
+  }
+  return best;
+};
+
+// ทิศทางจากจุดแรกไปจุดที่สอง (องศา 0-360 เทียบกับทิศเหนือ ตามเข็มนาฬิกา)
+export const getBearing = (lat1: number, lon1: number, lat2: number, lon2: number) => {
+  const φ1 = lat1 * Math.PI / 180;
+  const φ2 = lat2 * Math.PI / 180;
+  const Δλ = (lon2 - lon1) * Math.PI / 180;
+  const y = Math.sin(Δλ) * Math.cos(φ2);
+  const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+};
+
+// พิกัดของจุดที่ฉายลงบนเส้นทาง (ใช้ดึงหมุดให้อยู่บนถนน)
+export const pointOnPolyline = (coords: number[][], projection: PolylineProjection): LatLng => {
+  const a = coords[projection.segmentIndex];
+  const b = coords[projection.segmentIndex + 1];
+  return {
+    lat: a[1] + (b[1] - a[1]) * projection.t,
+    lng: a[0] + (b[0] - a[0]) * projection.t,
+  };
+};
@@ -0,0 +1,84 @@
+import { GeocoderSettings } from './settingsService';
+import { LatLng, getDistanceMeters, formatDistance } from './geoService';
+import { fetchWithRetry } from './routingService';
+import { parseCoordinates } from './coordinateParser';
+
+// ==================================================================================
+// ค้นหาสถานที่ / แปลงพิกัดเป็นชื่อสถานที่ สำหรับหน้าปักหมุดเอง (เปลี่ยนผู้ให้บริการได้)
+//   - nominatim: Nominatim ของ OSM หรือเซิร์ฟเวอร์อื่นที่ตอบ /search และ /reverse แบบเดียวกัน (mock-server มีให้)
+//   - offline:   ค้นจากรายชื่อสถานที่ที่แอปรู้จักอยู่แล้ว (ร้าน / หมุดลูกค้า / ประวัติการส่ง)
+// ทุกผู้ให้บริการอ่านพิกัด / ลิงก์แผนที่ / Plus Code ที่วางในช่องค้นหาได้ก่อนเสมอ
+// ==================================================================================
+
+export interface GeocodeResult {
+  lat: number;
+  lng: number;
+  label: string;
+}
+
+export interface Geocoder {
+  name: string;
+  search: (query: string) => Promise<GeocodeResult[]>;
+  reverse: (lat: number, lng: number) => Promise<string | null>;
+}
+
+const MAX_RESULTS = 5;
+// หมุดที่อยู่ใกล้กว่านี้ถือว่าเป็นสถานที่เดียวกัน (ใช้ตั้งชื่อตำแหน่งตอนออฟไลน์)
+const NEARBY_PLACE_RADIUS = 100;
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+const createNominatimGeocoder = (settings: GeocoderSettings, near: LatLng): Geocoder => {
+  const base = trimSlash(settings.baseUrl);
+  return {
+    name: 'Nominatim',
+    search: async (query) => {
+      // viewbox ช่วยให้ผลลัพธ์ใกล้ร้านขึ้นก่อน (ไม่บังคับว่าต้องอยู่ในกรอบ)
+      const viewbox = [near.lng - 0.2, near.lat + 0.2, near.lng + 0.2, near.lat - 0.2].map(n => n.toFixed(4)).join(',');
+      const response = await fetchWithRetry(
+        `${base}/search?format=json&limit=${MAX_RESULTS}&accept-language=th&viewbox=${viewbox}&q=${encodeURIComponent(query)}`
+      );
+      const data = await response.json();
+      if (!Array.isArray(data)) return [];
+      return data
+        .map((item: any) => ({ lat: parseFloat(item.lat), lng: parseFloat(item.lon), label: String(item.display_name || query) }))
+        .filter(r => !isNaN(r.lat) && !isNaN(r.lng));
+    },
+    reverse: async (lat, lng) => {
+      const response = await fetchWithRetry(`${base}/reverse?format=json&accept-language=th&lat=${lat}&lon=${lng}`);
+      const data = await response.json();
+      return typeof data?.display_name === 'string' ? data.display_name : null;
+    },
+  };
+};
+
+const createOfflineGeocoder = (getPlaces: () => GeocodeResult[]): Geocoder => ({
+  name: 'Offline',
+  search: async (query) => {
+    const keyword = query.trim().toLowerCase();
+    return getPlaces().filter(p => p.label.toLowerCase().includes(keyword)).slice(0, MAX_RESULTS);
+  },
+  reverse: async (lat, lng) => {
+    const nearest = getPlaces()
+      .map(p => ({ ...p, distance: getDistanceMeters(lat, lng, p.lat, p.lng) }))
+      .sort((a, b) => a.distance - b.distance)[0];
+    if (!nearest || nearest.distance > NEARBY_PLACE_RADIUS) return null;
+    return nearest.distance < 10 ? nearest.label : `ห่างจาก ${nearest.label} ${formatDistance(nearest.distance)}`;
+  },
+});
+
+// getPlaces: สถานที่ที่แอปรู้จัก (ใช้กับโหมดออฟไลน์) / near: ตำแหน่งร้าน (ใช้กับ Plus Code แบบสั้น และจัดลำดับผลค้นหา)
+export const createGeocoder = (settings: GeocoderSettings, near: LatLng, getPlaces: () => GeocodeResult[]): Geocoder => {
+  const provider = settings.provider === 'offline' || !settings.baseUrl.trim()
+    ? createOfflineGeocoder(getPlaces)
+    : createNominatimGeocoder(settings, near);
+
+  return {
+    ...provider,
+    search: async (query) => {
+      const coords = parseCoordinates(query, near);
+      if (coords) return [{ ...coords, label: `${coords.lat.toFixed(6)}, ${coords.lng.toFixed(6)}` }];
+      return query.trim() ? provider.search(query) : [];
+    },
+  };
+};
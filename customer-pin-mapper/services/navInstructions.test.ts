@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { buildInstruction } from './navInstructions';
+import { RouteStep } from './routingService';
+
+const step = (type: string, modifier?: string, name = '', exit?: number): RouteStep => ({
+  maneuver: { type, modifier, location: [103.5, 16.44], exit },
+  name,
+  distance: 100,
+  duration: 10,
+});
+
+describe('buildInstruction', () => {
+  it('เลี้ยวพร้อมชื่อถนน (ชื่อไทยไม่เว้นวรรค ชื่ออังกฤษเว้นวรรค)', () => {
+    expect(buildInstruction(step('turn', 'left', 'ถนนมิตรภาพ'))).toEqual({ text: 'เลี้ยวซ้ายเข้าถนนมิตรภาพ', icon: 'left' });
+    expect(buildInstruction(step('turn', 'sharp right', 'Mittraphap Rd'))).toEqual({ text: 'เลี้ยวขวาหักศอกเข้า Mittraphap Rd', icon: 'sharp-right' });
+  });
+
+  it('ถึงจุดหมายบอกฝั่ง', () => {
+    expect(buildInstruction(step('arrive', 'right')).text).toBe('ถึงจุดหมาย (อยู่ทางขวา)');
+    expect(buildInstruction(step('arrive')).text).toBe('ถึงจุดหมาย');
+  });
+
+  it('วงเวียนบอกทางออก', () => {
+    expect(buildInstruction(step('roundabout', 'right', '', 2))).toEqual({ text: 'เข้าวงเวียน ออกทางออกที่ 2', icon: 'roundabout' });
+    expect(buildInstruction(step('roundabout', undefined, 'ถนนศรีจันทร์')).text).toBe('เข้าวงเวียนแล้วไปทางถนนศรีจันทร์');
+  });
+
+  it('ทางแยกและทางตรง', () => {
+    expect(buildInstruction(step('fork', 'slight left')).text).toBe('ชิดซ้ายที่ทางแยก');
+    expect(buildInstruction(step('new name', 'straight', 'ถนนหน้าเมือง'))).toEqual({ text: 'ตรงไปตามถนนหน้าเมือง', icon: 'straight' });
+  });
+
+  it('ประเภทที่ไม่รู้จักใช้ทิศทางแทน', () => {
+    expect(buildInstruction(step('something new', 'slight right'))).toEqual({ text: 'เบี่ยงขวา', icon: 'slight-right' });
+  });
+});
@@ -0,0 +1,119 @@
+import { RouteStep } from './routingService';
+
+// ==================================================================================
+// แปลง Maneuver ของ OSRM (type + modifier) เป็นคำสั่งนำทางภาษาไทยพร้อมชื่อถนน
+// อ้างอิงชนิดทั้งหมดจาก OSRM API: turn, new name, depart, arrive, merge, on ramp,
+// off ramp, fork, end of road, continue, roundabout, rotary, roundabout turn,
+// exit roundabout, exit rotary, notification, use lane
+// ==================================================================================
+
+export type ManeuverIcon =
+  | 'straight' | 'left' | 'right'
+  | 'slight-left' | 'slight-right'
+  | 'sharp-left' | 'sharp-right'
+  | 'uturn' | 'roundabout' | 'fork' | 'merge'
+  | 'depart' | 'arrive';
+
+export interface BuiltInstruction {
+  text: string;
+  icon: ManeuverIcon;
+}
+
+// คำกริยาหลักของแต่ละทิศทาง
+const MODIFIER_TEXT: Record<string, string> = {
+  'uturn': 'กลับรถ',
+  'sharp right': 'เลี้ยวขวาหักศอก',
+  'right': 'เลี้ยวขวา',
+  'slight right': 'เบี่ยงขวา',
+  'straight': 'ตรงไป',
+  'slight left': 'เบี่ยงซ้าย',
+  'left': 'เลี้ยวซ้าย',
+  'sharp left': 'เลี้ยวซ้ายหักศอก',
+};
+
+const MODIFIER_ICON: Record<string, ManeuverIcon> = {
+  'uturn': 'uturn',
+  'sharp right': 'sharp-right',
+  'right': 'right',
+  'slight right': 'slight-right',
+  'straight': 'straight',
+  'slight left': 'slight-left',
+  'left': 'left',
+  'sharp left': 'sharp-left',
+};
+
+// ซ้าย/ขวา แบบสั้น (ใช้กับทางแยก ทางลาด การรวมเลน)
+const sideOf = (modifier?: string) => {
+  if (modifier?.includes('left')) return 'ซ้าย';
+  if (modifier?.includes('right')) return 'ขวา';
+  return '';
+};
+
+// ต่อท้ายชื่อถนน เช่น "เข้าถนนมิตรภาพ" (ชื่อภาษาอังกฤษเว้นวรรคให้อ่านง่าย)
+const withRoad = (prefix: string, name?: string) => {
+  const road = name?.trim();
+  if (!road) return '';
+  return /^[ก-๙]/.test(road) ? `${prefix}${road}` : `${prefix} ${road}`;
+};
+
+export const buildInstruction = (step: RouteStep): BuiltInstruction => {
+  const { type, modifier, exit } = step.maneuver;
+  const name = step.name;
+  const modText = MODIFIER_TEXT[modifier || 'straight'] || 'ตรงไป';
+  const modIcon = MODIFIER_ICON[modifier || 'straight'] || 'straight';
+  const side = sideOf(modifier);
+
+  switch (type) {
+    case 'depart':
+      return { text: `ออกเดินทาง${withRoad('ไปตาม', name)}`, icon: 'depart' };
+
+    case 'arrive':
+      return { text: side ? `ถึงจุดหมาย (อยู่ทาง${side})` : 'ถึงจุดหมาย', icon: 'arrive' };
+
+    case 'turn':
+    case 'end of road': {
+      const prefix = type === 'end of road' ? 'สุดทาง ' : '';
+      return { text: `${prefix}${modText}${withRoad('เข้า', name)}`, icon: modIcon };
+    }
+
+    case 'new name':
+    case 'continue':
+    case 'notification':
+      if (!modifier || modifier === 'straight') {
+        return { text: `ตรงไป${withRoad('ตาม', name)}`, icon: 'straight' };
+      }
+      return { text: `${modText}${withRoad('ไปตาม', name)}`, icon: modIcon };
+
+    case 'merge':
+      return { text: `รวมเลน${side ? `ทาง${side}` : ''}${withRoad('เข้า', name)}`, icon: 'merge' };
+
+    case 'on ramp':
+      return { text: `ขึ้นทางลาด${side ? `ทาง${side}` : ''}${withRoad('เข้า', name)}`, icon: side ? modIcon : 'straight' };
+
+    case 'off ramp':
+      return { text: `ใช้ทางออก${side ? `ทาง${side}` : ''}${withRoad('ไป', name)}`, icon: side ? modIcon : 'straight' };
+
+    case 'fork':
+      return { text: side ? `ชิด${side}ที่ทางแยก${withRoad('เข้า', name)}` : `ตรงไปที่ทางแยก${withRoad('เข้า', name)}`, icon: 'fork' };
+
+    case 'roundabout':
+    case 'rotary':
+      if (exit) {
+        return { text: `เข้าวงเวียน ออกทางออกที่ ${exit}${withRoad('เข้า', name)}`, icon: 'roundabout' };
+      }
+      return { text: `เข้าวงเวียน${withRoad('แล้วไปทาง', name)}`, icon: 'roundabout' };
+
+    case 'roundabout turn':
+      return { text: `ที่วงเวียน ${modText}${withRoad('เข้า', name)}`, icon: modIcon };
+
+    case 'exit roundabout':
+    case 'exit rotary':
+      return { text: `ออกจากวงเวียน${withRoad('เข้า', name)}`, icon: 'roundabout' };
+
+    case 'use lane':
+      return { text: side ? `ใช้ช่องทาง${side}` : 'ใช้ช่องทางตรง', icon: modIcon };
+
+    default:
+      return { text: `${modText}${withRoad('เข้า', name)}`, icon: modIcon };
+  }
+};
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createOutbox, OutboxItem } from './outboxService';
+import { SheetAck } from './sheetService';
+
+const URL = 'https://script.example/exec';
+
+const status = (name: string, orderNo?: string, value = 'DELIVERED') => ({
+  kind: 'status' as const, label: `สถานะ ${name}`, url: URL, payload: { name, orderNo, status: value },
+});
+const location = (name: string, orderNo?: string) => ({
+  kind: 'location' as const, label: `พิกัด ${name}`, url: URL, payload: { action: 'updateLocation', name, orderNo, lat: 16.44, lng: 103.5 },
+});
+
+// รอให้ flush ที่กำลังทำงานอยู่ส่งครบทุกรายการ
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// respond: คำตอบของ Script ตาม label (ไม่ระบุ = สำเร็จ)
+const setup = (respond: (item: OutboxItem) => SheetAck = () => ({ ok: true })) => {
+  const sent: string[] = [];
+  let items: OutboxItem[] = [];
+  const outbox = createOutbox({
+    send: async (item) => {
+      sent.push(item.label);
+      return respond(item);
+    },
+    save: async () => {},
+    onChange: (next) => { items = next; },
+  });
+  return { outbox, sent, items: () => items };
+};
+
+describe('createOutbox', () => {
+  beforeEach(() => {
+    vi.stubGlobal('window', { addEventListener: vi.fn(), removeEventListener: vi.fn() });
+    vi.stubGlobal('navigator', { onLine: true });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('ส่งตามลำดับที่เข้าคิว และลบรายการที่ Script ตอบรับแล้ว', async () => {
+    const { outbox, sent, items } = setup();
+    outbox.enqueue(status('คุณต้น', '#1'));
+    outbox.enqueue(location('คุณหญิง', '#2'));
+    outbox.enqueue(location('คุณต้น', '#1'));
+    outbox.start([]);
+    await settle();
+    outbox.stop();
+    expect(sent).toEqual(['สถานะ คุณต้น', 'พิกัด คุณหญิง', 'พิกัด คุณต้น']);
+    expect(items()).toEqual([]);
+  });
+
+  it('รายการที่รอ Backoff กันรายการหลังของออเดอร์เดียวกัน แต่ไม่กันออเดอร์อื่น', async () => {
+    const { outbox, sent, items } = setup(item => (item.label === 'สถานะ คุณต้น'
+      ? { ok: false, retry: true, error: 'เชื่อมต่อ Script ไม่ได้' }
+      : { ok: true }));
+    outbox.enqueue(status('คุณต้น', '#1'));
+    outbox.enqueue(location('คุณต้น', '#1'));
+    outbox.enqueue(location('คุณหญิง', '#2'));
+    outbox.start([]);
+    await settle();
+    outbox.stop();
+    expect(sent).toEqual(['สถานะ คุณต้น', 'พิกัด คุณหญิง']);
+    expect(items().map(item => [item.label, item.status, item.attempts])).toEqual([
+      ['สถานะ คุณต้น', 'pending', 1],
+      ['พิกัด คุณต้น', 'pending', 0],
+    ]);
+  });
+
+  it('รายการที่ล้มเหลวกันแถวเดียวกันจนกว่าจะลบ (ชื่อมี/ไม่มี "คุณ" เป็นแถวเดียวกัน)', async () => {
+    const { outbox, sent, items } = setup(item => (item.kind === 'location'
+      ? { ok: false, retry: false, error: 'Order not found' }
+      : { ok: true }));
+    outbox.enqueue(location('ต้น'));
+    outbox.enqueue(status('คุณต้น'));
+    outbox.start([]);
+    await settle();
+    expect(sent).toEqual(['พิกัด ต้น']);
+    expect(items().map(item => item.status)).toEqual(['failed', 'pending']);
+
+    outbox.remove(items()[0].id);
+    await settle();
+    await settle();
+    outbox.stop();
+    expect(sent).toEqual(['พิกัด ต้น', 'สถานะ คุณต้น']);
+    expect(items()).toEqual([]);
+  });
+
+  it('สถานะใหม่แทนที่สถานะเก่าที่ยังไม่ได้ส่งของออเดอร์เดียวกัน (พิกัดไม่ถูกแทนที่)', () => {
+    const { outbox, items } = setup();
+    outbox.enqueue(status('คุณต้น', '#1', 'DELIVERED'));
+    outbox.enqueue(location('คุณต้น', '#1'));
+    outbox.enqueue(status('คุณต้น', '#1', 'FAILED_NO_ANSWER'));
+    expect(items().map(item => [item.kind, item.payload.status])).toEqual([
+      ['location', undefined],
+      ['status', 'FAILED_NO_ANSWER'],
+    ]);
+  });
+
+  it('ถอนรายการที่ยังไม่ได้ส่งได้ แต่ถอนรายการที่ส่งไปแล้วไม่ได้', async () => {
+    const { outbox, sent } = setup();
+    const queued = outbox.enqueue(status('คุณต้น', '#1'));
+    expect(outbox.cancel(queued)).toBe(true);
+
+    const delivered = outbox.enqueue(status('คุณหญิง', '#2'));
+    outbox.start([]);
+    await settle();
+    outbox.stop();
+    expect(sent).toEqual(['สถานะ คุณหญิง']);
+    expect(outbox.cancel(delivered)).toBe(false);
+  });
+
+  it('ออฟไลน์ไม่ส่งและไม่นับจำนวนครั้ง', async () => {
+    vi.stubGlobal('navigator', { onLine: false });
+    const { outbox, sent, items } = setup();
+    outbox.enqueue(status('คุณต้น', '#1'));
+    outbox.start([]);
+    await settle();
+    outbox.stop();
+    expect(sent).toEqual([]);
+    expect(items()[0].attempts).toBe(0);
+  });
+});
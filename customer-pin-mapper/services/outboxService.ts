@@ -0,0 +1,192 @@
+import { SheetAck } from './sheetService';
+import { displayName } from './customerName';
+
+// ==================================================================================
+// Outbox: คิวคำขอที่ต้องส่งออกไปข้างนอก (อัปเดตสถานะ / พิกัดใน Google Sheet)
+// - เก็บลง IndexedDB ทุกครั้งที่เปลี่ยน ปิดแอปหรือไม่มีสัญญาณก็ไม่หาย
+// - ส่งไม่สำเร็จจะรอนานขึ้นเรื่อยๆ (Backoff) และลองใหม่ทันทีเมื่อกลับมาออนไลน์
+// - Script ปฏิเสธ หรือลองครบจำนวนครั้งแล้ว ย้ายเป็น "ล้มเหลว" รอ Admin ตรวจและกดส่งใหม่
+// - ออเดอร์เดียวกันส่งตามลำดับที่เข้าคิวเสมอ (รายการหลังไม่แซงรายการที่ยังรอ Backoff หรือล้มเหลวอยู่)
+// - สถานะใหม่ของออเดอร์เดียวกันแทนที่สถานะเก่าที่ยังไม่ได้ส่ง
+// ==================================================================================
+
+export type OutboxKind = 'status' | 'location';
+export type OutboxStatus = 'pending' | 'failed';
+
+export interface OutboxItem {
+  id: string;            // ส่งไปเป็น requestId ด้วย (ส่งซ้ำใช้ค่าเดิม)
+  kind: OutboxKind;
+  label: string;         // ข้อความสั้นๆ ไว้แสดงให้ Admin ดู
+  url: string;
+  payload: Record<string, unknown>;
+  createdAt: string;     // ISO String
+  attempts: number;
+  nextAttemptAt: number; // ms (Date.now())
+  status: OutboxStatus;
+  lastError?: string;
+}
+
+export const OUTBOX_KIND_LABELS: Record<OutboxKind, string> = {
+  status: 'สถานะการส่ง',
+  location: 'พิกัดหมุด',
+};
+
+const MAX_ATTEMPTS = 10;
+const BASE_DELAY_MS = 5000;
+const MAX_DELAY_MS = 10 * 60 * 1000;
+
+// 5 วิ, 10 วิ, 20 วิ ... สูงสุด 10 นาที
+const backoffMs = (attempts: number) => Math.min(BASE_DELAY_MS * 2 ** (attempts - 1), MAX_DELAY_MS);
+
+// แถวเดียวกันใน Sheet (หาแถวจากเลขออเดอร์ ไม่มีเลขใช้ชื่อ)
+// สถานะส่งชื่อแบบเติม "คุณ" แต่พิกัดส่งชื่อตามหมุด จึงต้องแปลงเป็นแบบเดียวกันก่อนเทียบ
+export const targetOf = (item: Pick<OutboxItem, 'url' | 'payload'>) => {
+  const { orderNo, name } = item.payload;
+  return `${item.url}|${orderNo ? `#${String(orderNo)}` : displayName(String(name ?? ''))}`;
+};
+
+// รายการแรกของแต่ละแถวที่พร้อมส่ง (แถวที่รายการแรกล้มเหลว ต้องรอ Admin ส่งใหม่หรือลบก่อน)
+const queueHeads = (items: OutboxItem[]) => {
+  const heads = new Map<string, OutboxItem>();
+  items.forEach(item => {
+    if (!heads.has(targetOf(item))) heads.set(targetOf(item), item);
+  });
+  return [...heads.values()].filter(item => item.status === 'pending');
+};
+
+interface OutboxOptions {
+  send: (item: OutboxItem) => Promise<SheetAck>;
+  save: (items: OutboxItem[]) => Promise<void>;
+  onChange: (items: OutboxItem[]) => void;
+}
+
+export const createOutbox = ({ send, save, onChange }: OutboxOptions) => {
+  let items: OutboxItem[] = [];
+  let isStarted = false;
+  let isFlushing = false;
+  let inFlightId: string | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const commit = (next: OutboxItem[]) => {
+    items = next;
+    onChange(items);
+    // ยังโหลดคิวเดิมไม่เสร็จ ห้ามเขียนทับ (start จะบันทึกให้ทีเดียว)
+    if (isStarted) save(items).catch(error => console.error("Failed to save outbox:", error));
+  };
+
+  const update = (id: string, change: Partial<OutboxItem>) => {
+    commit(items.map(item => (item.id === id ? { ...item, ...change } : item)));
+  };
+
+  const schedule = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    const heads = queueHeads(items);
+    if (!isStarted || heads.length === 0) return;
+    const next = Math.min(...heads.map(item => item.nextAttemptAt));
+    timer = setTimeout(() => flush(), Math.max(0, next - Date.now()));
+  };
+
+  // force = ส่งทุกรายการที่รออยู่ทันที ไม่รอครบเวลา Backoff (เช่น เพิ่งกลับมาออนไลน์)
+  const flush = async (force = false) => {
+    if (!isStarted || isFlushing) return;
+    // ออฟไลน์: ไม่นับเป็นความพยายาม รอ Event "online" แทน
+    if (!navigator.onLine) return;
+    isFlushing = true;
+    try {
+      // แถวที่มีรายการก่อนหน้ายังไม่สำเร็จ (รอ Backoff หรือล้มเหลว) ข้ามไปทั้งแถวในรอบนี้
+      const blocked = new Set<string>();
+      for (const queued of [...items]) {
+        const target = targetOf(queued);
+        if (blocked.has(target)) continue;
+        if (queued.status === 'failed' || (!force && queued.nextAttemptAt > Date.now())) {
+          blocked.add(target);
+          continue;
+        }
+        // Admin อาจลบรายการ หรือมีสถานะใหม่มาแทนระหว่างรอส่ง
+        if (!items.some(item => item.id === queued.id)) continue;
+        inFlightId = queued.id;
+        const result: SheetAck = await send(queued)
+          .catch((error): SheetAck => ({ ok: false, retry: true, error: String(error?.message || error) }))
+          .finally(() => { inFlightId = null; });
+        const current = items.find(item => item.id === queued.id);
+        if (!current) continue;
+
+        if (result.ok) {
+          commit(items.filter(item => item.id !== queued.id));
+          continue;
+        }
+        blocked.add(target);
+        const attempts = current.attempts + 1;
+        const failed = !result.retry || attempts >= MAX_ATTEMPTS;
+        update(queued.id, {
+          attempts,
+          status: failed ? 'failed' : 'pending',
+          nextAttemptAt: Date.now() + backoffMs(attempts),
+          lastError: result.error,
+        });
+        // หลุดออฟไลน์ระหว่างส่ง ที่เหลือไว้รอบหน้า
+        if (!navigator.onLine) break;
+      }
+    } finally {
+      isFlushing = false;
+      schedule();
+    }
+  };
+
+  const handleOnline = () => flush(true);
+
+  return {
+    // stored = คิวที่ค้างจากรอบก่อน (รายการที่เพิ่มเข้ามาระหว่างโหลดจะต่อท้าย)
+    start: (stored: OutboxItem[]) => {
+      isStarted = true;
+      const storedIds = new Set(stored.map(item => item.id));
+      commit([...stored, ...items.filter(item => !storedIds.has(item.id))]);
+      window.addEventListener('online', handleOnline);
+      flush(true);
+    },
+    stop: () => {
+      isStarted = false;
+      window.removeEventListener('online', handleOnline);
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+    // คืน id ของรายการ (ไว้ถอนออกจากคิวตอน "เลิกทำ")
+    enqueue: (entry: Pick<OutboxItem, 'kind' | 'label' | 'url' | 'payload'>): string => {
+      const now = Date.now();
+      const id = `outbox-${now}-${Math.random().toString(36).slice(2, 8)}`;
+      const target = targetOf(entry);
+      const isSuperseded = (item: OutboxItem) => entry.kind === 'status' && item.kind === 'status' && targetOf(item) === target;
+      commit([...items.filter(item => !isSuperseded(item)), {
+        ...entry,
+        id,
+        createdAt: new Date(now).toISOString(),
+        attempts: 0,
+        nextAttemptAt: now,
+        status: 'pending',
+      }]);
+      flush();
+      return id;
+    },
+    // ถอนรายการที่ยังไม่ถึง Sheet (false = ส่งสำเร็จไปแล้ว หรือกำลังส่งอยู่)
+    cancel: (id: string): boolean => {
+      if (id === inFlightId || !items.some(item => item.id === id)) return false;
+      commit(items.filter(item => item.id !== id));
+      schedule();
+      return true;
+    },
+    // ส่งใหม่ทันที (นับจำนวนครั้งใหม่)
+    resend: (id: string) => {
+      update(id, { status: 'pending', attempts: 0, nextAttemptAt: Date.now() });
+      flush(true);
+    },
+    resendAll: () => {
+      commit(items.map(item => ({ ...item, status: 'pending' as const, attempts: 0, nextAttemptAt: Date.now() })));
+      flush(true);
+    },
+    remove: (id: string) => {
+      commit(items.filter(item => item.id !== id));
+      schedule();
+    },
+  };
+};
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { upgradeRecords, readPersisted, writePersisted, getQuarantinedValues, SCHEMA_VERSION } from './persistedState';
+
+// LocalStorage ในหน่วยความจำ (Node ไม่มี)
+const memoryStorage = () => {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => { values.set(key, value); },
+    removeItem: (key: string) => { values.delete(key); },
+  };
+};
+
+describe('upgradeRecords', () => {
+  it('หมุดจาก LocalStorage เดิม (v0): เติม id แปลงพิกัดข้อความ และ orderValue เป็น amountDue', () => {
+    const { valid, quarantined } = upgradeRecords('point', [{ name: 'คุณต้น', lat: '16.44', lng: '103.5', orderValue: '120' }], 0);
+    expect(quarantined).toEqual([]);
+    expect(valid[0]).toMatchObject({ name: 'คุณต้น', lat: 16.44, lng: 103.5, amountDue: 120 });
+    expect(valid[0].id).toMatch(/^point-/);
+    expect(valid[0]).not.toHaveProperty('orderValue');
+  });
+
+  it('v1 ที่มีทั้ง orderValue และ amountDue ใช้ amountDue', () => {
+    const { valid } = upgradeRecords('point', [{ id: 'p1', name: 'A', lat: 16.44, lng: 103.5, orderValue: 90, amountDue: 150 }], 1);
+    expect(valid[0].amountDue).toBe(150);
+  });
+
+  it('ประวัติรูปเดียว (v2) กลายเป็นรายการรูป photos', () => {
+    const stamp = { capturedAt: '2024-05-01T10:00:00.000Z', originalHash: 'a'.repeat(64), photoHash: 'b'.repeat(64), seal: 'c'.repeat(64) };
+    const raw = { id: 'h1', customerName: 'A', timestamp: '2024-05-01T10:00:00.000Z', location: { lat: 16.44, lng: 103.5 }, photoUrl: '', photoStamp: stamp };
+    const { valid } = upgradeRecords('history', [raw], 2);
+    expect(valid[0].photos).toEqual([{ url: '', stamp }]);
+    expect(valid[0]).not.toHaveProperty('photoStamp');
+  });
+
+  it('ประวัติ v0 ไม่มี id ใช้เวลาส่งสร้าง id', () => {
+    const raw = { customerName: 'A', timestamp: '2024-05-01T10:00:00.000Z', location: { lat: '16.44', lng: '103.5' } };
+    const { valid } = upgradeRecords('history', [raw], 0);
+    expect(valid[0].id).toMatch(new RegExp(`^history-${Date.parse(raw.timestamp)}-`));
+    expect(valid[0].location).toEqual({ lat: 16.44, lng: 103.5 });
+    expect(valid[0].photos).toEqual([]);
+  });
+
+  it('รายการที่ตรวจไม่ผ่านถูกกักไว้พร้อมข้อมูลเดิม ไม่ทิ้งรายการอื่น', () => {
+    const bad = { id: 'p2', name: 'B', lat: 200, lng: 103.5 };
+    const { valid, quarantined } = upgradeRecords('point', [{ id: 'p1', name: 'A', lat: 16.44, lng: 103.5 }, bad], SCHEMA_VERSION);
+    expect(valid.map(p => p.id)).toEqual(['p1']);
+    expect(quarantined).toEqual([expect.objectContaining({ kind: 'point', raw: bad, reason: 'พิกัดไม่ถูกต้อง', fromVersion: SCHEMA_VERSION })]);
+  });
+});
+
+describe('readPersisted', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('ข้อความเปล่าจากเวอร์ชันเก่าถูกย้ายและเขียนกลับเป็นรูปแบบใหม่', () => {
+    localStorage.setItem('googleScriptUrl', '  https://script.google.com/macros/s/abc/exec ');
+    expect(readPersisted('googleScriptUrl')).toBe('https://script.google.com/macros/s/abc/exec');
+    expect(JSON.parse(localStorage.getItem('googleScriptUrl')!)).toEqual({ v: 1, data: 'https://script.google.com/macros/s/abc/exec' });
+  });
+
+  it('ค่าที่ตรวจไม่ผ่านถูกกักไว้และลบออก', () => {
+    localStorage.setItem('googleScriptUrl', 'ไม่ใช่ลิงก์');
+    expect(readPersisted('googleScriptUrl')).toBeNull();
+    expect(localStorage.getItem('googleScriptUrl')).toBeNull();
+    expect(getQuarantinedValues()).toEqual([expect.objectContaining({ kind: 'googleScriptUrl', raw: 'ไม่ใช่ลิงก์', fromVersion: 0 })]);
+  });
+
+  it('อ่านค่าที่เขียนด้วย writePersisted ได้เหมือนเดิม', () => {
+    writePersisted('importMappings', { '3': ['name', 'mapLink', 'amount'] });
+    expect(readPersisted('importMappings')).toEqual({ '3': ['name', 'mapLink', 'amount'] });
+  });
+});
@@ -0,0 +1,392 @@
+import { CustomerPoint, DeliveryRecord, DeliveryPhoto, OrderDetails, PhotoStamp, FailedAttempt, PAYMENT_METHOD_LABELS, DELIVERY_OUTCOME_LABELS } from '../types';
+import { ColumnField } from './sheetImport';
+
+// ==================================================================================
+// Schema ของข้อมูลที่บันทึกในเครื่อง พร้อมเวอร์ชัน + ฟังก์ชันย้ายข้อมูล (Migration)
+// เมื่อแก้ types.ts ให้เพิ่ม Migration ใหม่ต่อท้าย MIGRATIONS เสมอ ห้ามแก้ของเดิม
+// เครื่องที่มีข้อมูลเก่าจะถูกไล่อัปเกรดทีละเวอร์ชันจนถึงปัจจุบัน
+// ข้อมูลที่ตรวจไม่ผ่านจะถูกแยกไปเก็บ (Quarantine) แทนการทิ้งทั้งรายการ
+// ==================================================================================
+
+export type RecordKind = 'point' | 'history';
+
+export type ValidationResult<T> = { ok: true, value: T } | { ok: false, reason: string };
+
+export interface QuarantinedRecord {
+  kind: RecordKind | string;
+  raw: unknown;
+  reason: string;
+  fromVersion: number;
+  quarantinedAt: string;
+  photos?: unknown;      // รูปของประวัติที่ถูกแยก (ย้ายออกจากตาราง photos มาเก็บคู่กัน)
+}
+
+interface Migration {
+  to: number;
+  description: string;
+  // รับ Object ดิบจากเวอร์ชันก่อน คืน Object ของเวอร์ชันถัดไป (ชนิดข้อมูลจริงตรวจด้วย Validator หลังไล่ครบทุกขั้น)
+  point?: (raw: Record<string, unknown>) => Record<string, unknown>;
+  history?: (raw: Record<string, unknown>) => Record<string, unknown>;
+}
+
+// แปลงตัวเลขที่ถูกเก็บเป็นข้อความ (เช่นจาก CSV) กลับเป็น number
+const toNumber = (value: unknown) => (typeof value === 'string' && value.trim() !== '' ? Number(value) : value);
+
+export const MIGRATIONS: Migration[] = [
+  {
+    // v0 = ข้อมูลเดิมใน LocalStorage ที่ไม่มีเวอร์ชัน
+    to: 1,
+    description: 'เติม id ที่หายไป และแปลงพิกัดที่เป็นข้อความเป็นตัวเลข',
+    point: (raw) => ({
+      ...raw,
+      id: raw.id || `point-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      lat: toNumber(raw.lat),
+      lng: toNumber(raw.lng),
+      orderValue: toNumber(raw.orderValue),
+    }),
+    history: (raw) => ({
+      ...raw,
+      // ส่งงานหลายจุดในวินาทีเดียวกันได้ ต่อท้ายด้วยค่าสุ่มกัน id ซ้ำ
+      id: raw.id || `history-${Date.parse(String(raw.timestamp)) || Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      location: isObject(raw.location) ? { lat: toNumber(raw.location.lat), lng: toNumber(raw.location.lng) } : raw.location,
+    }),
+  },
+  {
+    to: 2,
+    description: 'เปลี่ยน orderValue เป็น amountDue (ยอดที่ต้องเก็บ)',
+    point: ({ orderValue, ...rest }) => ({
+      ...rest,
+      ...(orderValue != null && rest.amountDue == null && { amountDue: orderValue }),
+    }),
+  },
+  {
+    to: 3,
+    description: 'เปลี่ยนรูปเดียว (photoUrl + photoStamp) เป็นรายการรูป photos',
+    // รูปที่เก็บใน IndexedDB ไม่มี photoUrl ในตาราง history (storageService เติมให้ตอนโหลด)
+    history: ({ photoUrl, photoStamp, ...rest }) => ({
+      ...rest,
+      photos: Array.isArray(rest.photos) ? rest.photos : (photoUrl || photoStamp)
+        ? [{ url: photoUrl || '', ...(photoStamp ? { stamp: photoStamp } : {}) }]
+        : [],
+    }),
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].to;
+
+// --- Validators ---
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isLat = (value: unknown): value is number => typeof value === 'number' && isFinite(value) && Math.abs(value) <= 90;
+const isLng = (value: unknown): value is number => typeof value === 'number' && isFinite(value) && Math.abs(value) <= 180;
+const isOptional = (value: unknown, type: 'string' | 'number') => value === undefined || value === null || typeof value === type;
+
+const isOutcome = (value: unknown): value is keyof typeof DELIVERY_OUTCOME_LABELS =>
+  typeof value === 'string' && value in DELIVERY_OUTCOME_LABELS;
+
+const isTime = (value: unknown) => typeof value === 'string' && /^\d{1,2}:\d{2}$/.test(value);
+
+export const validateOrderDetails = (raw: Record<string, any>): ValidationResult<OrderDetails> => {
+  if (!isOptional(raw.orderNo, 'string')) return { ok: false, reason: 'เลขออเดอร์ไม่ใช่ข้อความ' };
+  if (!isOptional(raw.phone, 'string')) return { ok: false, reason: 'เบอร์โทรไม่ใช่ข้อความ' };
+  if (raw.orderTime != null && (typeof raw.orderTime !== 'string' || isNaN(Date.parse(raw.orderTime)))) return { ok: false, reason: 'เวลาสั่งไม่ถูกต้อง' };
+  if (!isOptional(raw.amountDue, 'number') || Number.isNaN(raw.amountDue)) return { ok: false, reason: 'ยอดเงินไม่ใช่ตัวเลข' };
+  if (raw.paymentMethod != null && !(raw.paymentMethod in PAYMENT_METHOD_LABELS)) return { ok: false, reason: 'วิธีชำระเงินไม่ถูกต้อง' };
+  if (raw.deliveryWindow != null && !(isObject(raw.deliveryWindow) && isTime(raw.deliveryWindow.start) && isTime(raw.deliveryWindow.end))) {
+    return { ok: false, reason: 'ช่วงเวลาส่งไม่ถูกต้อง' };
+  }
+  if (!isOptional(raw.note, 'string')) return { ok: false, reason: 'หมายเหตุไม่ใช่ข้อความ' };
+
+  return {
+    ok: true,
+    value: {
+      ...(raw.orderNo != null && { orderNo: raw.orderNo }),
+      ...(raw.phone != null && { phone: raw.phone }),
+      ...(raw.orderTime != null && { orderTime: raw.orderTime }),
+      ...(raw.amountDue != null && { amountDue: raw.amountDue }),
+      ...(raw.paymentMethod != null && { paymentMethod: raw.paymentMethod }),
+      ...(raw.deliveryWindow != null && { deliveryWindow: { start: raw.deliveryWindow.start, end: raw.deliveryWindow.end } }),
+      ...(raw.note != null && { note: raw.note }),
+    },
+  };
+};
+
+export const validateCustomerPoint = (raw: unknown): ValidationResult<CustomerPoint> => {
+  if (!isObject(raw)) return { ok: false, reason: 'ไม่ใช่ Object' };
+  if (typeof raw.id !== 'string' || !raw.id) return { ok: false, reason: 'ไม่มี id' };
+  if (typeof raw.name !== 'string') return { ok: false, reason: 'ไม่มีชื่อลูกค้า' };
+  if (!isLat(raw.lat) || !isLng(raw.lng)) return { ok: false, reason: 'พิกัดไม่ถูกต้อง' };
+
+  const order = validateOrderDetails(raw);
+  if (!order.ok) return order;
+
+  let lastAttempt: FailedAttempt | undefined;
+  if (raw.lastAttempt != null) {
+    const attempt = raw.lastAttempt;
+    if (!isObject(attempt) || !isOutcome(attempt.outcome) || typeof attempt.reason !== 'string' || typeof attempt.at !== 'string') {
+      return { ok: false, reason: 'ข้อมูลการส่งไม่สำเร็จไม่ถูกต้อง' };
+    }
+    lastAttempt = { outcome: attempt.outcome, reason: attempt.reason, at: attempt.at };
+  }
+  if (!isOptional(raw.attemptCount, 'number')) return { ok: false, reason: 'จำนวนครั้งที่ส่งไม่ใช่ตัวเลข' };
+
+  return {
+    ok: true,
+    value: {
+      id: raw.id,
+      name: raw.name,
+      lat: raw.lat,
+      lng: raw.lng,
+      ...order.value,
+      ...(lastAttempt && { lastAttempt }),
+      ...(raw.attemptCount != null && { attemptCount: raw.attemptCount }),
+    },
+  };
+};
+
+const isHash = (value: unknown): value is string => typeof value === 'string' && /^[0-9a-f]{64}$/.test(value);
+
+export const validatePhotoStamp = (raw: unknown): ValidationResult<PhotoStamp> => {
+  if (!isObject(raw)) return { ok: false, reason: 'ข้อมูลประทับรูปไม่ถูกต้อง' };
+  if (typeof raw.capturedAt !== 'string' || isNaN(Date.parse(raw.capturedAt))) return { ok: false, reason: 'เวลาถ่ายรูปไม่ถูกต้อง' };
+  if (raw.position != null && !(isObject(raw.position) && isLat(raw.position.lat) && isLng(raw.position.lng) && typeof raw.position.accuracy === 'number')) {
+    return { ok: false, reason: 'พิกัดตอนถ่ายรูปไม่ถูกต้อง' };
+  }
+  if (!isHash(raw.originalHash) || !isHash(raw.photoHash) || !isHash(raw.seal)) return { ok: false, reason: 'ลายนิ้วมือรูปไม่ถูกต้อง' };
+
+  return {
+    ok: true,
+    value: {
+      capturedAt: raw.capturedAt,
+      ...(raw.position != null && { position: { lat: raw.position.lat, lng: raw.position.lng, accuracy: raw.position.accuracy } }),
+      originalHash: raw.originalHash,
+      photoHash: raw.photoHash,
+      seal: raw.seal,
+    },
+  };
+};
+
+// url ของรูป/ลายเซ็นไม่ได้เก็บในตาราง history (แยกไปอยู่ใน photos) จึงยอมให้ว่างได้
+const validateDeliveryPhoto = (raw: unknown): ValidationResult<DeliveryPhoto> => {
+  if (!isObject(raw)) return { ok: false, reason: 'ข้อมูลรูปไม่ถูกต้อง' };
+  if (!isOptional(raw.url, 'string')) return { ok: false, reason: 'ที่อยู่รูปไม่ใช่ข้อความ' };
+  let stamp: PhotoStamp | undefined;
+  if (raw.stamp != null) {
+    const result = validatePhotoStamp(raw.stamp);
+    if (!result.ok) return result;
+    stamp = result.value;
+  }
+  return { ok: true, value: { url: raw.url || '', ...(stamp && { stamp }) } };
+};
+
+export const validateDeliveryRecord = (raw: unknown): ValidationResult<DeliveryRecord> => {
+  if (!isObject(raw)) return { ok: false, reason: 'ไม่ใช่ Object' };
+  if (typeof raw.id !== 'string' || !raw.id) return { ok: false, reason: 'ไม่มี id' };
+  if (typeof raw.customerName !== 'string') return { ok: false, reason: 'ไม่มีชื่อลูกค้า' };
+  if (typeof raw.timestamp !== 'string' || isNaN(Date.parse(raw.timestamp))) return { ok: false, reason: 'เวลาส่งไม่ถูกต้อง' };
+  if (!isObject(raw.location) || !isLat(raw.location.lat) || !isLng(raw.location.lng)) return { ok: false, reason: 'พิกัดไม่ถูกต้อง' };
+  if (!isOptional(raw.arrivedAt, 'string')) return { ok: false, reason: 'เวลาถึงไม่ถูกต้อง' };
+  if (raw.deviceLocation != null && !(isObject(raw.deviceLocation) && isLat(raw.deviceLocation.lat) && isLng(raw.deviceLocation.lng) && typeof raw.deviceLocation.accuracy === 'number')) {
+    return { ok: false, reason: 'พิกัดเครื่องตอนส่งไม่ถูกต้อง' };
+  }
+  if (!isOptional(raw.distanceFromPin, 'number')) return { ok: false, reason: 'ระยะห่างจากหมุดไม่ใช่ตัวเลข' };
+  if (raw.outcome != null && !isOutcome(raw.outcome)) return { ok: false, reason: 'ผลการส่งไม่ถูกต้อง' };
+  if (!isOptional(raw.reason, 'string') || !isOptional(raw.note, 'string')) return { ok: false, reason: 'เหตุผล/หมายเหตุไม่ใช่ข้อความ' };
+  if (!isOptional(raw.recipientName, 'string') || !isOptional(raw.signatureUrl, 'string')) return { ok: false, reason: 'ชื่อผู้รับ/ลายเซ็นไม่ถูกต้อง' };
+  if (raw.photos != null && !Array.isArray(raw.photos)) return { ok: false, reason: 'รายการรูปไม่ถูกต้อง' };
+
+  let order: OrderDetails | undefined;
+  if (raw.order != null) {
+    if (!isObject(raw.order)) return { ok: false, reason: 'รายละเอียดออเดอร์ไม่ถูกต้อง' };
+    const result = validateOrderDetails(raw.order);
+    if (!result.ok) return result;
+    order = result.value;
+  }
+
+  const photos: DeliveryPhoto[] = [];
+  for (const rawPhoto of raw.photos || []) {
+    const result = validateDeliveryPhoto(rawPhoto);
+    if (!result.ok) return result;
+    photos.push(result.value);
+  }
+
+  return {
+    ok: true,
+    value: {
+      id: raw.id,
+      customerName: raw.customerName,
+      timestamp: raw.timestamp,
+      photos,
+      location: { lat: raw.location.lat, lng: raw.location.lng },
+      ...(raw.arrivedAt && { arrivedAt: raw.arrivedAt }),
+      ...(raw.deviceLocation != null && { deviceLocation: { lat: raw.deviceLocation.lat, lng: raw.deviceLocation.lng, accuracy: raw.deviceLocation.accuracy } }),
+      ...(raw.distanceFromPin != null && { distanceFromPin: raw.distanceFromPin }),
+      ...(order && { order }),
+      ...(raw.signatureUrl && { signatureUrl: raw.signatureUrl }),
+      ...(raw.recipientName != null && { recipientName: raw.recipientName }),
+      ...(raw.outcome != null && { outcome: raw.outcome }),
+      ...(raw.reason != null && { reason: raw.reason }),
+      ...(raw.note != null && { note: raw.note }),
+    },
+  };
+};
+
+const VALIDATORS = {
+  point: validateCustomerPoint,
+  history: validateDeliveryRecord,
+};
+
+type RecordOf<K extends RecordKind> = K extends 'point' ? CustomerPoint : DeliveryRecord;
+
+// ไล่ Migration จาก fromVersion จนถึงปัจจุบัน แล้วตรวจทีละรายการ
+export const upgradeRecords = <K extends RecordKind>(
+  kind: K,
+  raws: unknown[],
+  fromVersion: number
+): { valid: RecordOf<K>[], quarantined: QuarantinedRecord[] } => {
+  const pending = MIGRATIONS.filter(m => m.to > fromVersion);
+  const valid: RecordOf<K>[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+
+  const quarantine = (raw: unknown, reason: string) => {
+    quarantined.push({ kind, raw, reason, fromVersion, quarantinedAt: new Date().toISOString() });
+  };
+
+  raws.forEach(raw => {
+    let current: unknown = raw;
+    try {
+      for (const migration of pending) {
+        const step = migration[kind];
+        if (step && isObject(current)) current = step(current);
+      }
+    } catch (e) {
+      quarantine(raw, `Migration ล้มเหลว: ${e instanceof Error ? e.message : String(e)}`);
+      return;
+    }
+
+    const result = VALIDATORS[kind](current);
+    if (result.ok) {
+      valid.push(result.value as RecordOf<K>);
+    } else {
+      quarantine(raw, (result as { reason: string }).reason);
+    }
+  });
+
+  return { valid, quarantined };
+};
+
+// ==================================================================================
+// ค่าเดี่ยวใน LocalStorage (ห่อด้วย { v, data } เพื่อรู้เวอร์ชัน)
+// ค่าเก่าที่เป็นข้อความเปล่าๆ ถือเป็นเวอร์ชัน 0
+// ==================================================================================
+
+interface PersistedValues {
+  googleScriptUrl: string;
+  seoulgood_logo: string;
+  importMappings: Record<string, ColumnField[]>; // การจับคู่คอลัมน์ตอนนำเข้า แยกตามแหล่งข้อมูล
+}
+
+type PersistedKey = keyof PersistedValues;
+
+interface ValueSpec<T> {
+  version: number;
+  migrations: { to: number, migrate: (raw: unknown) => unknown }[];
+  validate: (raw: unknown) => ValidationResult<T>;
+}
+
+const VALUE_SPECS: { [K in PersistedKey]: ValueSpec<PersistedValues[K]> } = {
+  googleScriptUrl: {
+    version: 1,
+    migrations: [{ to: 1, migrate: (raw) => (typeof raw === 'string' ? raw.trim() : raw) }],
+    validate: (raw) => (typeof raw === 'string' && /^https?:\/\//.test(raw)
+      ? { ok: true, value: raw }
+      : { ok: false, reason: 'ไม่ใช่ลิงก์ http(s)' }),
+  },
+  seoulgood_logo: {
+    version: 1,
+    migrations: [{ to: 1, migrate: (raw) => raw }],
+    validate: (raw) => (typeof raw === 'string' && /^(https?:\/\/|data:image\/)/.test(raw)
+      ? { ok: true, value: raw }
+      : { ok: false, reason: 'ไม่ใช่ลิงก์รูปหรือรูป Base64' }),
+  },
+  importMappings: {
+    version: 1,
+    migrations: [],
+    validate: (raw) => (isObject(raw) && Object.values(raw).every(v => Array.isArray(v) && v.every(f => typeof f === 'string'))
+      ? { ok: true, value: raw as Record<string, ColumnField[]> }
+      : { ok: false, reason: 'รูปแบบการจับคู่คอลัมน์ไม่ถูกต้อง' }),
+  },
+};
+
+const VALUE_QUARANTINE_KEY = 'persistedQuarantine';
+
+const quarantineValue = (key: string, raw: unknown, reason: string, fromVersion: number) => {
+  try {
+    const list: QuarantinedRecord[] = JSON.parse(localStorage.getItem(VALUE_QUARANTINE_KEY) || '[]');
+    list.push({ kind: key, raw, reason, fromVersion, quarantinedAt: new Date().toISOString() });
+    localStorage.setItem(VALUE_QUARANTINE_KEY, JSON.stringify(list));
+  } catch (e) {
+    console.error(`Failed to quarantine "${key}"`, e);
+  }
+};
+
+export const getQuarantinedValues = (): QuarantinedRecord[] => {
+  try {
+    return JSON.parse(localStorage.getItem(VALUE_QUARANTINE_KEY) || '[]');
+  } catch (e) {
+    return [];
+  }
+};
+
+export const readPersisted = <K extends PersistedKey>(key: K): PersistedValues[K] | null => {
+  const stored = localStorage.getItem(key);
+  if (stored === null) return null;
+
+  const spec = VALUE_SPECS[key] as ValueSpec<PersistedValues[K]>;
+  let version = 0;
+  let data: unknown = stored;
+  try {
+    const parsed = JSON.parse(stored);
+    if (isObject(parsed) && typeof parsed.v === 'number' && 'data' in parsed) {
+      version = parsed.v;
+      data = parsed.data;
+    }
+  } catch (e) {
+    // ข้อความเปล่า (เวอร์ชัน 0)
+  }
+
+  try {
+    spec.migrations.filter(m => m.to > version).forEach(m => { data = m.migrate(data); });
+  } catch (e) {
+    quarantineValue(key, stored, 'Migration ล้มเหลว', version);
+    localStorage.removeItem(key);
+    return null;
+  }
+
+  const result = spec.validate(data);
+  if (!result.ok) {
+    quarantineValue(key, stored, (result as { reason: string }).reason, version);
+    localStorage.removeItem(key);
+    return null;
+  }
+
+  if (version < spec.version) {
+    try {
+      writePersisted(key, result.value);
+    } catch (e) {
+      console.error(`Failed to upgrade "${key}"`, e);
+    }
+  }
+  return result.value;
+};
+
+// โยน Error ออกไปเมื่อพื้นที่เต็ม ให้ผู้เรียกแจ้งผู้ใช้เอง
+export const writePersisted = <K extends PersistedKey>(key: K, value: PersistedValues[K]) => {
+  localStorage.setItem(key, JSON.stringify({ v: VALUE_SPECS[key].version, data: value }));
+};
+
+export const removePersisted = (key: PersistedKey) => {
+  localStorage.removeItem(key);
+};
@@ -0,0 +1,132 @@
+import { DeliveryRecord, DeliveryPhoto, PhotoStamp } from '../types';
+import { dataUrlToBlob } from './storageService';
+
+// ==================================================================================
+// ประทับข้อมูลลงรูปหลักฐานการส่ง (ชื่อลูกค้า / เลขออเดอร์ / พิกัด GPS / ความแม่นยำ / เวลาไทย)
+// และเก็บ SHA-256 ของไฟล์ต้นฉบับ + รูปที่บันทึก + ข้อมูลประทับ ไว้กับรูปแต่ละรูปใน DeliveryRecord
+// ถ้ามีคนเปลี่ยนรูปหรือแก้ข้อมูลในประวัติภายหลัง ค่า Hash จะไม่ตรง (HistoryViewer ตรวจให้)
+// หมายเหตุ: ไม่มีกุญแจลับ จึงกันได้แค่การแก้ไขแบบไม่ตั้งใจ/ไม่รู้ระบบ ไม่ใช่ลายเซ็นดิจิทัล
+// seal ครอบเฉพาะข้อมูลตอนถ่ายรูป ตำแหน่งเครื่องตอนกดส่ง (deviceLocation / distanceFromPin) ไม่ได้ถูกป้องกัน
+// ==================================================================================
+
+const MAX_WIDTH = 800; // จำกัดความกว้างไม่เกิน 800px
+const JPEG_QUALITY = 0.7;
+
+export type StampVerification = 'valid' | 'photo-changed' | 'data-changed' | 'unstamped';
+
+export interface StampInfo {
+  customerName: string; // ชื่อตามหมุด (ใช้คำนวณ seal)
+  displayName: string;  // ชื่อที่พิมพ์บนรูป (เติม "คุณ" แล้ว)
+  orderNo?: string;
+  position: { lat: number, lng: number, accuracy: number } | null;
+}
+
+export const sha256Hex = async (data: ArrayBuffer | string): Promise<string> => {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// ลำดับช่องคงที่ เพื่อให้คำนวณซ้ำได้ค่าเดิมทุกครั้ง
+const computeSeal = (stamp: Omit<PhotoStamp, 'seal'>, customerName: string, orderNo?: string) =>
+  sha256Hex(JSON.stringify([
+    customerName,
+    orderNo || '',
+    stamp.capturedAt,
+    stamp.position ? [stamp.position.lat, stamp.position.lng, stamp.position.accuracy] : null,
+    stamp.originalHash,
+    stamp.photoHash,
+  ]));
+
+const formatThaiTimestamp = (date: Date) =>
+  date.toLocaleString('th-TH', { day: 'numeric', month: 'long', year: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const loadImage = (file: File): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => { URL.revokeObjectURL(url); resolve(img); };
+    img.onerror = () => { URL.revokeObjectURL(url); reject(new Error('อ่านไฟล์รูปไม่ได้')); };
+    img.src = url;
+  });
+
+// แถบข้อมูลสีดำโปร่งแสงด้านล่างของรูป
+const drawWatermark = (ctx: CanvasRenderingContext2D, width: number, height: number, lines: string[], footer: string) => {
+  const fontSize = Math.max(14, Math.round(width / 36));
+  const lineHeight = Math.round(fontSize * 1.35);
+  const padding = Math.round(fontSize * 0.6);
+  const bandHeight = padding * 2 + lineHeight * lines.length + Math.round(fontSize * 0.9);
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+  ctx.fillRect(0, height - bandHeight, width, bandHeight);
+
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = '#ffffff';
+  lines.forEach((line, i) => {
+    ctx.font = `${i === 0 ? 'bold ' : ''}${fontSize}px sans-serif`;
+    ctx.fillText(line, padding, height - bandHeight + padding + i * lineHeight, width - padding * 2);
+  });
+  ctx.font = `${Math.round(fontSize * 0.65)}px monospace`;
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+  ctx.fillText(footer, padding, height - padding - Math.round(fontSize * 0.7), width - padding * 2);
+};
+
+// ย่อรูป + ประทับข้อมูล แล้วคืน Data URL (JPEG) พร้อมข้อมูลสำหรับตรวจสอบภายหลัง
+export const stampPhoto = async (file: File, info: StampInfo): Promise<{ dataUrl: string, stamp: PhotoStamp }> => {
+  const originalHash = await sha256Hex(await file.arrayBuffer());
+  const img = await loadImage(file);
+  const capturedAt = new Date();
+
+  const targetWidth = img.width > MAX_WIDTH ? MAX_WIDTH : img.width;
+  const targetHeight = img.width > MAX_WIDTH ? img.height * (MAX_WIDTH / img.width) : img.height;
+  const canvas = document.createElement('canvas');
+  canvas.width = targetWidth;
+  canvas.height = targetHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('เครื่องนี้ไม่รองรับการประมวลผลรูป');
+  ctx.drawImage(img, 0, 0, targetWidth, targetHeight);
+
+  const { position } = info;
+  drawWatermark(ctx, targetWidth, targetHeight, [
+    info.orderNo ? `${info.displayName} · ${info.orderNo}` : info.displayName,
+    position
+      ? `GPS ${position.lat.toFixed(6)}, ${position.lng.toFixed(6)} (±${Math.round(position.accuracy)} ม.)`
+      : 'GPS: หาตำแหน่งไม่ได้',
+    formatThaiTimestamp(capturedAt),
+  ], `SHA-256 ${originalHash.slice(0, 16)}`);
+
+  const dataUrl = canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+  const photoHash = await sha256Hex(await dataUrlToBlob(dataUrl).arrayBuffer());
+  const unsealed: Omit<PhotoStamp, 'seal'> = {
+    capturedAt: capturedAt.toISOString(),
+    ...(position && { position }),
+    originalHash,
+    photoHash,
+  };
+  return {
+    dataUrl,
+    stamp: { ...unsealed, seal: await computeSeal(unsealed, info.customerName, info.orderNo) },
+  };
+};
+
+// ตรวจรูป 1 รูปในประวัติ: รูปยังเป็นไฟล์เดิม และข้อมูลประทับยังไม่ถูกแก้
+export const verifyPhotoStamp = async (record: DeliveryRecord, photo: DeliveryPhoto): Promise<StampVerification> => {
+  const stamp = photo.stamp;
+  if (!stamp) return 'unstamped';
+  const { seal, ...unsealed } = stamp;
+  if (await computeSeal(unsealed, record.customerName, record.order?.orderNo) !== seal) return 'data-changed';
+  if (!photo.url) return 'photo-changed';
+  const photoHash = await sha256Hex(await (await fetch(photo.url)).arrayBuffer());
+  return photoHash === stamp.photoHash ? 'valid' : 'photo-changed';
+};
+
+// ตรวจทุกรูปของการส่ง 1 ครั้ง: ผ่านเมื่อรูปที่ประทับไว้ผ่านทั้งหมด (คืนผลของรูปแรกที่ไม่ผ่าน)
+export const verifyDeliveryPhotos = async (record: DeliveryRecord): Promise<StampVerification> => {
+  let result: StampVerification = 'unstamped';
+  for (const photo of record.photos) {
+    const verification = await verifyPhotoStamp(record, photo);
+    if (verification === 'photo-changed' || verification === 'data-changed') return verification;
+    if (verification === 'valid') result = 'valid';
+  }
+  return result;
+};
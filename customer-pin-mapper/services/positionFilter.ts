@@ -0,0 +1,112 @@
+import { getDistanceMeters, getBearing } from './geoService';
+
+// ==================================================================================
+// กรองตำแหน่ง GPS ก่อนนำไปใช้ (หมุดผู้ขับ / การหมุนแผนที่ 3D / การนำทาง)
+// 1. ตัดค่าที่ความแม่นยำแย่มาก หรือกระโดดเร็วเกินจริง
+// 2. ทำให้ตำแหน่งนิ่งขึ้นด้วย Kalman Filter แบบง่าย (ความแปรปรวนเดียวทั้งสองแกน)
+// 3. คำนวณทิศทางเองจากตำแหน่งที่ต่อเนื่องกัน เมื่อเครื่องไม่ส่ง heading มา (พบบ่อยบน Android)
+// ==================================================================================
+
+export interface RawFix {
+  lat: number;
+  lng: number;
+  accuracy: number;
+  heading: number | null;
+  speed: number | null;
+  timestamp: number;
+}
+
+export interface FilteredFix {
+  lat: number;
+  lng: number;
+  accuracy: number;
+  heading: number | null;
+  speed: number; // m/s (ประมาณจากตำแหน่ง ถ้าเครื่องไม่ส่งมา)
+}
+
+const MAX_ACCURACY_METERS = 100;        // แย่กว่านี้ไม่ใช้ (ยกเว้นยังไม่มีตำแหน่งเลย)
+const MAX_SPEED_MPS = 55;               // ~200 กม./ชม. เร็วกว่านี้ถือว่า GPS กระโดด
+const MAX_CONSECUTIVE_REJECTS = 5;      // ตัดทิ้งติดกันเกินนี้ ให้เริ่มใหม่ (เช่นเพิ่งออกจากอุโมงค์)
+const PROCESS_NOISE_MPS = 3;            // ความเร็วที่ตำแหน่งจริงเปลี่ยนได้ (ยิ่งมาก ยิ่งตามเร็วแต่นิ่งน้อยลง)
+const MIN_HEADING_MOVE_METERS = 5;      // ต้องขยับเกินนี้ถึงคำนวณทิศทางใหม่ (กันทิศหมุนตอนจอดนิ่ง)
+
+export const createPositionFilter = () => {
+  let lat = 0;
+  let lng = 0;
+  let variance = -1; // < 0 = ยังไม่มีตำแหน่ง
+  let lastTimestamp = 0;
+  let lastAccepted: { lat: number, lng: number, timestamp: number } | null = null;
+  let headingAnchor: { lat: number, lng: number } | null = null;
+  let lastHeading: number | null = null;
+  let rejectCount = 0;
+
+  const reset = () => {
+    variance = -1;
+    lastAccepted = null;
+    headingAnchor = null;
+    lastHeading = null;
+    rejectCount = 0;
+  };
+
+  const process = (fix: RawFix): FilteredFix | null => {
+    const hasPosition = variance >= 0;
+
+    // 1. Outlier Rejection
+    if (hasPosition && rejectCount < MAX_CONSECUTIVE_REJECTS) {
+      if (fix.accuracy > MAX_ACCURACY_METERS) {
+        rejectCount++;
+        return null;
+      }
+      if (lastAccepted) {
+        const dt = (fix.timestamp - lastAccepted.timestamp) / 1000;
+        const jump = getDistanceMeters(lastAccepted.lat, lastAccepted.lng, fix.lat, fix.lng);
+        // เผื่อระยะตามความคลาดเคลื่อนของ GPS เพื่อไม่ตัดค่าที่ขยับเพราะความแม่นยำดีขึ้น
+        if (dt > 0 && (jump - fix.accuracy) / dt > MAX_SPEED_MPS) {
+          rejectCount++;
+          return null;
+        }
+      }
+    }
+    if (rejectCount >= MAX_CONSECUTIVE_REJECTS) reset();
+    rejectCount = 0;
+
+    // 2. Kalman Filter
+    const accuracy = Math.max(fix.accuracy, 1);
+    if (variance < 0) {
+      lat = fix.lat;
+      lng = fix.lng;
+      variance = accuracy * accuracy;
+    } else {
+      const dt = Math.max(0, (fix.timestamp - lastTimestamp) / 1000);
+      variance += dt * PROCESS_NOISE_MPS * PROCESS_NOISE_MPS;
+      const gain = variance / (variance + accuracy * accuracy);
+      lat += gain * (fix.lat - lat);
+      lng += gain * (fix.lng - lng);
+      variance = (1 - gain) * variance;
+    }
+    lastTimestamp = fix.timestamp;
+
+    // ความเร็วจากตำแหน่งที่กรองแล้ว (ใช้เมื่อเครื่องไม่ส่งค่า speed)
+    let speed = fix.speed ?? 0;
+    if (fix.speed === null && lastAccepted) {
+      const dt = (fix.timestamp - lastAccepted.timestamp) / 1000;
+      if (dt > 0) speed = getDistanceMeters(lastAccepted.lat, lastAccepted.lng, lat, lng) / dt;
+    }
+    lastAccepted = { lat, lng, timestamp: fix.timestamp };
+
+    // 3. Heading
+    if (fix.heading !== null && !isNaN(fix.heading) && speed > 0.5) {
+      lastHeading = fix.heading;
+      headingAnchor = { lat, lng };
+    } else if (!headingAnchor) {
+      headingAnchor = { lat, lng };
+    } else if (getDistanceMeters(headingAnchor.lat, headingAnchor.lng, lat, lng) >= MIN_HEADING_MOVE_METERS) {
+      lastHeading = getBearing(headingAnchor.lat, headingAnchor.lng, lat, lng);
+      headingAnchor = { lat, lng };
+    }
+
+    return { lat, lng, accuracy: Math.sqrt(variance), heading: lastHeading, speed };
+  };
+
+  return { process, reset };
+};
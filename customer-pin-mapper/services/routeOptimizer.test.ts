@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { optimizeTour } from './routeOptimizer';
+
+const euclidean = (points: [number, number][]) =>
+  points.map(a => points.map(b => Math.hypot(a[0] - b[0], a[1] - b[1])));
+
+describe('optimizeTour', () => {
+  it('จุดเดียวหรือไม่มีจุด ไม่ต้องจัดลำดับ', () => {
+    expect(optimizeTour([[0]], true)).toEqual({ order: [], cost: 0 });
+    expect(optimizeTour([], false)).toEqual({ order: [], cost: 0 });
+  });
+
+  it('จุดบนถนนเส้นเดียว ไปเรียงตามลำดับ', () => {
+    const matrix = euclidean([[0, 0], [3, 0], [1, 0], [2, 0]]);
+    expect(optimizeTour(matrix, false)).toEqual({ order: [2, 3, 1], cost: 3 });
+  });
+
+  // Nearest Neighbor ได้ 0-1-5-4-3-2-0 ซึ่งเส้นทางตัดกัน 2-Opt ต้องแก้เป็นวนรอบบล็อก
+  it('2-Opt แก้เส้นทางที่ตัดกันเมื่อต้องกลับร้าน', () => {
+    const matrix = euclidean([[0, 0], [1, 0], [3, 0], [3, 2], [1, 2], [-0.2, 1.2]]);
+    const { order, cost } = optimizeTour(matrix, true);
+    expect(order).toEqual([1, 2, 3, 4, 5]);
+    expect(cost).toBeCloseTo(9.659, 3);
+  });
+
+  it('ไม่กลับร้าน ไม่นับระยะขากลับ', () => {
+    const matrix = euclidean([[0, 0], [0, 1], [0, 2]]);
+    expect(optimizeTour(matrix, false).cost).toBe(2);
+    expect(optimizeTour(matrix, true).cost).toBe(4);
+  });
+
+  it('ร้านอยู่หน้าสุดเสมอ และไปครบทุกจุด', () => {
+    const matrix = euclidean([[5, 5], [0, 0], [9, 1], [4, 8], [1, 7], [8, 9], [6, 2]]);
+    const { order } = optimizeTour(matrix, true);
+    expect([...order].sort()).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+});
@@ -0,0 +1,76 @@
+// จัดลำดับการส่งหลายจุด (Traveling Salesman แบบประมาณค่า)
+// matrix[i][j] = ต้นทุนเดินทางจากจุด i ไปจุด j (เมตรหรือวินาที) โดย index 0 คือจุดเริ่มต้น (ร้าน)
+
+const tourCost = (tour: number[], matrix: number[][], returnToStart: boolean) => {
+  let cost = 0;
+  for (let i = 0; i < tour.length - 1; i++) {
+    cost += matrix[tour[i]][tour[i + 1]];
+  }
+  if (returnToStart && tour.length > 1) cost += matrix[tour[tour.length - 1]][tour[0]];
+  return cost;
+};
+
+// 1. Nearest Neighbor: ไปจุดที่ใกล้ที่สุดที่ยังไม่ได้ไปเสมอ
+const nearestNeighborTour = (matrix: number[][]) => {
+  const n = matrix.length;
+  const visited = new Array(n).fill(false);
+  const tour = [0];
+  visited[0] = true;
+
+  for (let step = 1; step < n; step++) {
+    const current = tour[tour.length - 1];
+    let next = -1;
+    let best = Infinity;
+    for (let j = 1; j < n; j++) {
+      if (!visited[j] && matrix[current][j] < best) {
+        best = matrix[current][j];
+        next = j;
+      }
+    }
+    if (next === -1) break;
+    visited[next] = true;
+    tour.push(next);
+  }
+  return tour;
+};
+
+// 2. 2-Opt: กลับลำดับช่วงเส้นทางที่ตัดกันไปเรื่อยๆ จนไม่มีทางที่สั้นกว่า
+const twoOpt = (tour: number[], matrix: number[][], returnToStart: boolean) => {
+  let best = tour.slice();
+  let bestCost = tourCost(best, matrix, returnToStart);
+  let improved = true;
+  let guard = 0;
+
+  while (improved && guard < 100) {
+    improved = false;
+    guard++;
+    // i เริ่มที่ 1 เพื่อให้จุดเริ่มต้น (ร้าน) อยู่หน้าสุดเสมอ
+    for (let i = 1; i < best.length - 1; i++) {
+      for (let k = i + 1; k < best.length; k++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, k + 1).reverse(), ...best.slice(k + 1)];
+        const cost = tourCost(candidate, matrix, returnToStart);
+        if (cost < bestCost - 1e-6) {
+          best = candidate;
+          bestCost = cost;
+          improved = true;
+        }
+      }
+    }
+  }
+  return best;
+};
+
+export interface OptimizedTour {
+  order: number[]; // index ของจุดใน matrix ตามลำดับการไป (ไม่รวมจุดเริ่มต้น 0)
+  cost: number;
+}
+
+export const optimizeTour = (matrix: number[][], returnToStart: boolean): OptimizedTour => {
+  if (matrix.length <= 1) return { order: [], cost: 0 };
+
+  const tour = twoOpt(nearestNeighborTour(matrix), matrix, returnToStart);
+  return {
+    order: tour.slice(1),
+    cost: tourCost(tour, matrix, returnToStart)
+  };
+};
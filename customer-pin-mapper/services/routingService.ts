@@ -0,0 +1,382 @@
+import { RoutingSettings } from './settingsService';
+import { LatLng, getDistanceMeters, buildHaversineMatrix } from './geoService';
+
+// ==================================================================================
+// ระบบเส้นทางแบบเปลี่ยนผู้ให้บริการได้ (OSRM / Valhalla / GraphHopper / เส้นทางที่บันทึกไว้ / สังเคราะห์)
+// ทุกผู้ให้บริการจะแปลงผลลัพธ์ให้อยู่ในรูปแบบเดียวกับ OSRM
+// เพื่อให้ MapViewer ใช้ Steps / Maneuver ได้เหมือนเดิม
+// ==================================================================================
+
+export interface RouteManeuver {
+  type: string;               // depart, turn, arrive, roundabout, fork, merge ...
+  modifier?: string;          // left, right, slight left, sharp right, uturn, straight ...
+  location: [number, number]; // [lng, lat]
+  exit?: number;              // ทางออกที่เท่าไหร่ของวงเวียน
+}
+
+export interface RouteStep {
+  maneuver: RouteManeuver;
+  name: string;
+  distance: number; // เมตร
+  duration: number; // วินาที
+}
+
+export interface RouteLeg {
+  steps: RouteStep[];
+  distance: number;
+  duration: number;
+}
+
+export interface RouteResult {
+  distance: number;
+  duration: number;
+  geometry: { type: 'LineString', coordinates: number[][] }; // [lng, lat]
+  legs: RouteLeg[];
+}
+
+export interface DistanceTable {
+  distances: number[][]; // เมตร
+  durations: number[][]; // วินาที
+}
+
+export interface RoutingProvider {
+  name: string;
+  route: (waypoints: LatLng[]) => Promise<RouteResult>;
+  table: (locations: LatLng[]) => Promise<DistanceTable>;
+  alternatives: (from: LatLng, to: LatLng) => Promise<RouteResult[]>;
+}
+
+export const fetchWithRetry = async (url: string, init?: RequestInit, retries = 1, delay = 1000): Promise<Response> => {
+  try {
+    const response = await fetch(url, init);
+    if (!response.ok) throw new Error(`Status: ${response.status}`);
+    return response;
+  } catch (error) {
+    if (retries > 0) {
+      await new Promise(resolve => setTimeout(resolve, delay));
+      return fetchWithRetry(url, init, retries - 1, delay);
+    }
+    throw error;
+  }
+};
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+// --- OSRM ---------------------------------------------------------------------------
+
+const createOsrmProvider = (settings: RoutingSettings): RoutingProvider => {
+  const base = trimSlash(settings.baseUrl);
+  const toCoords = (points: LatLng[]) => points.map(p => `${p.lng},${p.lat}`).join(';');
+
+  const fetchRoutes = async (waypoints: LatLng[], alternatives: boolean): Promise<RouteResult[]> => {
+    const response = await fetchWithRetry(
+      `${base}/route/v1/${settings.profile}/${toCoords(waypoints)}?overview=full&geometries=geojson&steps=true&alternatives=${alternatives}`
+    );
+    const data = await response.json();
+    if (data.code !== 'Ok' || !data.routes || data.routes.length === 0) throw new Error("No route found");
+    return data.routes;
+  };
+
+  return {
+    name: 'osrm',
+    route: async (waypoints) => (await fetchRoutes(waypoints, false))[0],
+    alternatives: (from, to) => fetchRoutes([from, to], true),
+    table: async (locations) => {
+      const response = await fetchWithRetry(`${base}/table/v1/${settings.profile}/${toCoords(locations)}?annotations=distance,duration`);
+      const data = await response.json();
+      if (data.code !== 'Ok' || !Array.isArray(data.distances)) throw new Error("Invalid table response");
+      return { distances: data.distances, durations: data.durations };
+    },
+  };
+};
+
+// --- Valhalla -----------------------------------------------------------------------
+
+// ถอดรหัส Encoded Polyline (Valhalla ใช้ความละเอียด 6 หลัก) คืนค่าเป็น [lng, lat]
+const decodePolyline = (encoded: string, precision: number): number[][] => {
+  const factor = Math.pow(10, precision);
+  const coords: number[][] = [];
+  let index = 0, lat = 0, lng = 0;
+
+  while (index < encoded.length) {
+    for (const axis of [0, 1]) {
+      let result = 0, shift = 0, byte: number;
+      do {
+        byte = encoded.charCodeAt(index++) - 63;
+        result |= (byte & 0x1f) << shift;
+        shift += 5;
+      } while (byte >= 0x20);
+      const delta = (result & 1) ? ~(result >> 1) : (result >> 1);
+      if (axis === 0) lat += delta; else lng += delta;
+    }
+    coords.push([lng / factor, lat / factor]);
+  }
+  return coords;
+};
+
+// แปลงชนิด Maneuver ของ Valhalla (ตัวเลข) เป็นรูปแบบ OSRM
+const VALHALLA_MANEUVERS: Record<number, { type: string, modifier?: string }> = {
+  1: { type: 'depart' }, 2: { type: 'depart', modifier: 'right' }, 3: { type: 'depart', modifier: 'left' },
+  4: { type: 'arrive' }, 5: { type: 'arrive', modifier: 'right' }, 6: { type: 'arrive', modifier: 'left' },
+  7: { type: 'new name', modifier: 'straight' }, 8: { type: 'continue', modifier: 'straight' },
+  9: { type: 'turn', modifier: 'slight right' }, 10: { type: 'turn', modifier: 'right' }, 11: { type: 'turn', modifier: 'sharp right' },
+  12: { type: 'turn', modifier: 'uturn' }, 13: { type: 'turn', modifier: 'uturn' },
+  14: { type: 'turn', modifier: 'sharp left' }, 15: { type: 'turn', modifier: 'left' }, 16: { type: 'turn', modifier: 'slight left' },
+  17: { type: 'on ramp', modifier: 'straight' }, 18: { type: 'on ramp', modifier: 'right' }, 19: { type: 'on ramp', modifier: 'left' },
+  20: { type: 'off ramp', modifier: 'right' }, 21: { type: 'off ramp', modifier: 'left' },
+  22: { type: 'fork', modifier: 'straight' }, 23: { type: 'fork', modifier: 'right' }, 24: { type: 'fork', modifier: 'left' },
+  25: { type: 'merge', modifier: 'straight' }, 26: { type: 'roundabout' }, 27: { type: 'exit roundabout' },
+  37: { type: 'merge', modifier: 'right' }, 38: { type: 'merge', modifier: 'left' },
+};
+
+const createValhallaProvider = (settings: RoutingSettings): RoutingProvider => {
+  const base = trimSlash(settings.baseUrl);
+  const post = (path: string, body: object) => fetchWithRetry(`${base}${path}`, {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+
+  const toRouteResult = (trip: any): RouteResult => {
+    const coordinates: number[][] = [];
+    const legs: RouteLeg[] = trip.legs.map((leg: any) => {
+      const shape = decodePolyline(leg.shape, 6);
+      coordinates.push(...shape);
+      return {
+        distance: leg.summary.length * 1000,
+        duration: leg.summary.time,
+        steps: leg.maneuvers.map((m: any) => {
+          const mapped = VALHALLA_MANEUVERS[m.type] || { type: 'continue', modifier: 'straight' };
+          const location = shape[Math.min(m.begin_shape_index, shape.length - 1)];
+          return {
+            maneuver: { ...mapped, location: [location[0], location[1]], exit: m.roundabout_exit_count },
+            name: (m.street_names && m.street_names[0]) || '',
+            distance: m.length * 1000,
+            duration: m.time,
+          };
+        }),
+      };
+    });
+    return {
+      distance: trip.summary.length * 1000,
+      duration: trip.summary.time,
+      geometry: { type: 'LineString', coordinates },
+      legs,
+    };
+  };
+
+  const fetchRoutes = async (waypoints: LatLng[], alternates: number): Promise<RouteResult[]> => {
+    const response = await post('/route', {
+      locations: waypoints.map(p => ({ lat: p.lat, lon: p.lng })),
+      costing: settings.profile,
+      directions_options: { units: 'kilometers', language: 'th-TH' },
+      alternates,
+    });
+    const data = await response.json();
+    if (!data.trip) throw new Error("No route found");
+    return [data.trip, ...(data.alternates || []).map((a: any) => a.trip)].map(toRouteResult);
+  };
+
+  return {
+    name: 'valhalla',
+    route: async (waypoints) => (await fetchRoutes(waypoints, 0))[0],
+    alternatives: (from, to) => fetchRoutes([from, to], 2),
+    table: async (locations) => {
+      const points = locations.map(p => ({ lat: p.lat, lon: p.lng }));
+      const response = await post('/sources_to_targets', { sources: points, targets: points, costing: settings.profile });
+      const data = await response.json();
+      if (!Array.isArray(data.sources_to_targets)) throw new Error("Invalid table response");
+      return {
+        distances: data.sources_to_targets.map((row: any[]) => row.map(c => (c.distance === null ? null : c.distance * 1000))),
+        durations: data.sources_to_targets.map((row: any[]) => row.map(c => c.time)),
+      };
+    },
+  };
+};
+
+// --- GraphHopper --------------------------------------------------------------------
+
+// แปลงค่า sign ของ GraphHopper เป็นรูปแบบ OSRM
+const GRAPHHOPPER_SIGNS: Record<number, { type: string, modifier?: string }> = {
+  [-98]: { type: 'turn', modifier: 'uturn' }, [-8]: { type: 'turn', modifier: 'uturn' }, 8: { type: 'turn', modifier: 'uturn' },
+  [-7]: { type: 'fork', modifier: 'slight left' }, 7: { type: 'fork', modifier: 'slight right' },
+  [-3]: { type: 'turn', modifier: 'sharp left' }, [-2]: { type: 'turn', modifier: 'left' }, [-1]: { type: 'turn', modifier: 'slight left' },
+  0: { type: 'continue', modifier: 'straight' },
+  1: { type: 'turn', modifier: 'slight right' }, 2: { type: 'turn', modifier: 'right' }, 3: { type: 'turn', modifier: 'sharp right' },
+  4: { type: 'arrive' }, 5: { type: 'arrive' }, 6: { type: 'roundabout' },
+};
+
+const createGraphHopperProvider = (settings: RoutingSettings): RoutingProvider => {
+  const base = trimSlash(settings.baseUrl);
+  const keyParam = settings.apiKey ? `&key=${encodeURIComponent(settings.apiKey)}` : '';
+
+  const toRouteResult = (path: any): RouteResult => {
+    const coordinates: number[][] = path.points.coordinates;
+    const steps: RouteStep[] = path.instructions.map((ins: any, i: number) => {
+      const mapped = i === 0 ? { type: 'depart' } : (GRAPHHOPPER_SIGNS[ins.sign] || { type: 'continue', modifier: 'straight' });
+      const location = coordinates[ins.interval[0]];
+      return {
+        maneuver: { ...mapped, location: [location[0], location[1]], exit: ins.exit_number },
+        name: ins.street_name || '',
+        distance: ins.distance,
+        duration: ins.time / 1000,
+      };
+    });
+    return {
+      distance: path.distance,
+      duration: path.time / 1000,
+      geometry: { type: 'LineString', coordinates },
+      legs: [{ steps, distance: path.distance, duration: path.time / 1000 }],
+    };
+  };
+
+  const fetchRoutes = async (waypoints: LatLng[], alternatives: boolean): Promise<RouteResult[]> => {
+    const pointParams = waypoints.map(p => `point=${p.lat},${p.lng}`).join('&');
+    const algorithm = alternatives ? '&algorithm=alternative_route' : '';
+    const response = await fetchWithRetry(
+      `${base}/route?${pointParams}&profile=${settings.profile}&points_encoded=false&instructions=true&locale=th${algorithm}${keyParam}`
+    );
+    const data = await response.json();
+    if (!data.paths || data.paths.length === 0) throw new Error("No route found");
+    return data.paths.map(toRouteResult);
+  };
+
+  return {
+    name: 'graphhopper',
+    route: async (waypoints) => (await fetchRoutes(waypoints, false))[0],
+    alternatives: (from, to) => fetchRoutes([from, to], true),
+    table: async (locations) => {
+      const response = await fetchWithRetry(`${base}/matrix?${keyParam.slice(1)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          points: locations.map(p => [p.lng, p.lat]),
+          out_arrays: ['distances', 'times'],
+          profile: settings.profile,
+        }),
+      });
+      const data = await response.json();
+      if (!Array.isArray(data.distances)) throw new Error("Invalid table response");
+      return { distances: data.distances, durations: data.times };
+    },
+  };
+};
+
+// --- Synthetic (เส้นทางสังเคราะห์ Offline) ----------------------------------------------
+
+// ไม่ใช่ข้อมูลถนนจริง: สร้างเส้นทางรูปตัว L ระหว่างแต่ละจุด (ไปแนวเหนือ-ใต้ก่อนแล้วเลี้ยวไปแนวตะวันออก-ตะวันตก)
+// เพื่อให้มีจุดเลี้ยวสำหรับทดสอบการนำทางแบบ Turn-by-Turn โดยไม่ต้องใช้อินเทอร์เน็ต
+const SYNTHETIC_SPEED_MPS = 25 * 1000 / 3600;
+
+const buildSyntheticLeg = (from: LatLng, to: LatLng, legIndex: number): { leg: RouteLeg, coordinates: number[][] } => {
+  const corner = { lat: to.lat, lng: from.lng };
+  const first = getDistanceMeters(from.lat, from.lng, corner.lat, corner.lng);
+  const second = getDistanceMeters(corner.lat, corner.lng, to.lat, to.lng);
+
+  // ทิศทางการเลี้ยวที่มุม: คำนวณจาก Cross Product ของสองช่วง
+  const cross = (corner.lat - from.lat) * (to.lng - corner.lng);
+  const modifier = cross > 0 ? 'right' : 'left';
+
+  const step = (type: string, location: LatLng, distance: number, name: string, mod?: string): RouteStep => ({
+    maneuver: { type, modifier: mod, location: [location.lng, location.lat] },
+    name,
+    distance,
+    duration: distance / SYNTHETIC_SPEED_MPS,
+  });
+
+  const steps = [
+    step('depart', from, first, `ถนนทดสอบ ${legIndex * 2 + 1}`),
+    step('turn', corner, second, `ถนนทดสอบ ${legIndex * 2 + 2}`, modifier),
+    step('arrive', to, 0, ''),
+  ];
+  return {
+    leg: { steps, distance: first + second, duration: (first + second) / SYNTHETIC_SPEED_MPS },
+    coordinates: [[from.lng, from.lat], [corner.lng, corner.lat], [to.lng, to.lat]],
+  };
+};
+
+const createSyntheticProvider = (): RoutingProvider => {
+  const route = async (waypoints: LatLng[]): Promise<RouteResult> => {
+    const legs: RouteLeg[] = [];
+    const coordinates: number[][] = [];
+    for (let i = 0; i < waypoints.length - 1; i++) {
+      const { leg, coordinates: legCoords } = buildSyntheticLeg(waypoints[i], waypoints[i + 1], i);
+      legs.push(leg);
+      coordinates.push(...(i === 0 ? legCoords : legCoords.slice(1)));
+    }
+    return {
+      distance: legs.reduce((sum, l) => sum + l.distance, 0),
+      duration: legs.reduce((sum, l) => sum + l.duration, 0),
+      geometry: { type: 'LineString', coordinates },
+      legs,
+    };
+  };
+
+  return {
+    name: 'synthetic',
+    route,
+    alternatives: async (from, to) => [await route([from, to])],
+    table: async (locations) => {
+      // ระยะแบบ Manhattan ให้สอดคล้องกับเส้นทางรูปตัว L
+      const distances = locations.map(a => locations.map(b =>
+        getDistanceMeters(a.lat, a.lng, b.lat, a.lng) + getDistanceMeters(b.lat, a.lng, b.lat, b.lng)
+      ));
+      return { distances, durations: distances.map(row => row.map(d => d / SYNTHETIC_SPEED_MPS)) };
+    },
+  };
+};
+
+// --- Recorded (เล่นซ้ำผลลัพธ์ OSRM ที่บันทึกไว้) ------------------------------------------
+// mock-server ตอบ /route/v1 และ /table/v1 จากไฟล์ใน mock-server/fixtures/osrm
+// ถ้ายังไม่มีไฟล์ของพิกัดชุดนั้น (หรือเปิด mock-server ไม่ได้) จะใช้เส้นทางสังเคราะห์แทนเฉพาะครั้งนั้น
+
+const createRecordedProvider = (settings: RoutingSettings): RoutingProvider => {
+  const recorded = createOsrmProvider(settings);
+  const synthetic = createSyntheticProvider();
+  const withFallback = <A extends unknown[], R>(play: (...args: A) => Promise<R>, fallback: (...args: A) => Promise<R>) =>
+    async (...args: A): Promise<R> => {
+      try {
+        return await play(...args);
+      } catch (error) {
+        console.warn("No recorded route for these points, using synthetic route", error);
+        return fallback(...args);
+      }
+    };
+
+  return {
+    name: 'recorded',
+    route: withFallback(recorded.route, synthetic.route),
+    alternatives: withFallback(recorded.alternatives, synthetic.alternatives),
+    table: withFallback(recorded.table, synthetic.table),
+  };
+};
+
+export const createRoutingProvider = (settings: RoutingSettings): RoutingProvider => {
+  switch (settings.provider) {
+    case 'valhalla': return createValhallaProvider(settings);
+    case 'graphhopper': return createGraphHopperProvider(settings);
+    case 'recorded': return createRecordedProvider(settings);
+    case 'synthetic': return createSyntheticProvider();
+    case 'osrm':
+    default:
+      return createOsrmProvider(settings);
+  }
+};
+
+// ตารางระยะทางถนน ถ้าเรียกไม่สำเร็จจะใช้ระยะเส้นตรงแทน (บางคู่หาเส้นทางไม่ได้ก็แทนเฉพาะคู่นั้น)
+export const getDistanceMatrix = async (provider: RoutingProvider, locations: LatLng[]): Promise<{ matrix: number[][], isRoad: boolean }> => {
+  const haversine = buildHaversineMatrix(locations);
+  try {
+    const { distances } = await provider.table(locations);
+    const matrix = distances.map((row, i) => row.map((d, j) => (d === null || d === undefined ? haversine[i][j] : d)));
+    return { matrix, isRoad: true };
+  } catch (error) {
+    console.warn("Distance table unavailable, using straight-line distances", error);
+    return { matrix: haversine, isRoad: false };
+  }
+};
+
+// ระยะทางถนนจากจุดเดียวไปทุกปลายทาง (แถวแรกของตาราง) ใช้เรียงรายชื่อลูกค้า
+export const getDistancesFrom = async (provider: RoutingProvider, origin: LatLng, destinations: LatLng[]): Promise<{ distances: number[], isRoad: boolean }> => {
+  const { matrix, isRoad } = await getDistanceMatrix(provider, [origin, ...destinations]);
+  return { distances: matrix[0].slice(1), isRoad };
+};
@@ -0,0 +1,174 @@
+// การตั้งค่าของแอป (เก็บใน LocalStorage ของแต่ละเครื่อง)
+
+export type RoutingProviderId = 'osrm' | 'valhalla' | 'graphhopper' | 'recorded' | 'synthetic';
+
+export interface RoutingSettings {
+  provider: RoutingProviderId;
+  baseUrl: string;
+  profile: string;   // เช่น driving / motorcycle / car
+  apiKey?: string;   // ใช้กับ GraphHopper (Cloud)
+}
+
+// ค้นหาสถานที่ตอนปักหมุดเอง: Nominatim (หรือเซิร์ฟเวอร์ที่ตอบแบบเดียวกัน เช่น mock-server)
+// หรือค้นจากหมุด/ประวัติในเครื่อง (ใช้ได้ตอนไม่มีอินเทอร์เน็ต)
+export type GeocoderProviderId = 'nominatim' | 'offline';
+
+export interface GeocoderSettings {
+  provider: GeocoderProviderId;
+  baseUrl: string;
+}
+
+export interface VoiceSettings {
+  muted: boolean;
+  volume: number;      // 0 - 1
+  voiceURI?: string;   // ว่าง = ใช้เสียงภาษาไทยเริ่มต้นของเครื่อง
+}
+
+export interface GpsSettings {
+  snapToRoute: boolean;        // ดึงหมุดผู้ขับให้อยู่บนเส้นทางเมื่ออยู่ใกล้
+  arrivalRadius: number;       // รัศมีรอบหมุดลูกค้าที่ถือว่าถึงแล้ว (เมตร)
+  arrivalDwellSeconds: number; // ต้องหยุดอยู่ในรัศมีนานเท่าไหร่ถึงแจ้งเตือน
+  farFromPinMeters: number;    // ส่งงานห่างจากหมุดเกินนี้ (หลังหักความคลาดเคลื่อน GPS) จะถูกทำเครื่องหมายในประวัติ
+}
+
+export interface ShopSettings {
+  lat: number;
+  lng: number;
+}
+
+export interface SyncSettings {
+  ordersUrl: string;    // ว่าง = ใช้ลิงก์ Google Apps Script เดียวกับที่อัปเดตสถานะ
+  pollMinutes: number;  // ดึงออเดอร์ใหม่อัตโนมัติทุกกี่นาที (0 = ปิด)
+  resolverUrl: string;  // แปลงลิงก์ย่อ maps.app.goo.gl เป็นพิกัด (ว่าง = ใช้ลิงก์ดึงออเดอร์ / Apps Script)
+}
+
+export interface AppSettings {
+  routing: RoutingSettings;
+  voice: VoiceSettings;
+  gps: GpsSettings;
+  shop: ShopSettings; // จุดเริ่ม/จุดกลับของทุกเส้นทาง
+  sync: SyncSettings;
+  geocoder: GeocoderSettings;
+}
+
+const SETTINGS_KEY = 'appSettings';
+
+// ค่าเริ่มต้นของแต่ละผู้ให้บริการเส้นทาง
+export const ROUTING_DEFAULTS: Record<RoutingProviderId, { baseUrl: string, profile: string, label: string }> = {
+  osrm: { baseUrl: 'https://router.project-osrm.org', profile: 'driving', label: 'OSRM' },
+  valhalla: { baseUrl: 'https://valhalla1.openstreetmap.de', profile: 'motorcycle', label: 'Valhalla' },
+  graphhopper: { baseUrl: 'https://graphhopper.com/api/1', profile: 'car', label: 'GraphHopper' },
+  recorded: { baseUrl: 'http://localhost:4000', profile: 'driving', label: 'เส้นทางที่บันทึกไว้ (Mock)' },
+  synthetic: { baseUrl: '', profile: 'synthetic', label: 'เส้นทางสังเคราะห์ (Offline)' },
+};
+
+export const GEOCODER_DEFAULTS: Record<GeocoderProviderId, { baseUrl: string, label: string }> = {
+  nominatim: { baseUrl: 'https://nominatim.openstreetmap.org', label: 'Nominatim (OSM)' },
+  offline: { baseUrl: '', label: 'ในเครื่อง (Offline)' },
+};
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  routing: {
+    provider: 'osrm',
+    baseUrl: ROUTING_DEFAULTS.osrm.baseUrl,
+    profile: ROUTING_DEFAULTS.osrm.profile,
+  },
+  voice: {
+    muted: false,
+    volume: 1,
+  },
+  gps: {
+    snapToRoute: true,
+    arrivalRadius: 50,
+    arrivalDwellSeconds: 10,
+    farFromPinMeters: 200,
+  },
+  // พิกัดร้านของคุณ
+  shop: {
+    lat: 16.43624,
+    lng: 103.5020,
+  },
+  sync: {
+    ordersUrl: '',
+    pollMinutes: 0,
+    resolverUrl: '',
+  },
+  geocoder: {
+    provider: 'nominatim',
+    baseUrl: GEOCODER_DEFAULTS.nominatim.baseUrl,
+  },
+};
+
+// ค่าที่ชนิดไม่ถูกต้องใช้ค่าเริ่มต้นแทนทีละช่อง
+const pick = <T>(value: unknown, isValid: (value: unknown) => boolean, fallback: T): T =>
+  (isValid(value) ? value as T : fallback);
+const isString = (value: unknown) => typeof value === 'string';
+const isBoolean = (value: unknown) => typeof value === 'boolean';
+const isNumberIn = (min: number, max: number) => (value: unknown) =>
+  typeof value === 'number' && isFinite(value) && value >= min && value <= max;
+const section = (value: unknown): Record<string, unknown> =>
+  (typeof value === 'object' && value !== null ? value as Record<string, unknown> : {});
+
+// ตรวจและเติมค่าเริ่มต้น (การตั้งค่าที่บันทึกจากแอปเวอร์ชันเก่า หรือมาจากไฟล์สำรอง)
+export const normalizeSettings = (raw: unknown): AppSettings => {
+  const d = DEFAULT_SETTINGS;
+  const routing = section(section(raw).routing);
+  // 'fixture' = ชื่อเดิมของผู้ให้บริการเส้นทางสังเคราะห์
+  const provider = routing.provider === 'fixture' ? 'synthetic' : routing.provider;
+  const voice = section(section(raw).voice);
+  const gps = section(section(raw).gps);
+  const shop = section(section(raw).shop);
+  const sync = section(section(raw).sync);
+  const geocoder = section(section(raw).geocoder);
+  return {
+    routing: {
+      provider: pick(provider, value => typeof value === 'string' && value in ROUTING_DEFAULTS, d.routing.provider),
+      baseUrl: pick(routing.baseUrl, isString, d.routing.baseUrl),
+      profile: pick(routing.profile, isString, d.routing.profile),
+      ...(isString(routing.apiKey) && { apiKey: routing.apiKey as string }),
+    },
+    voice: {
+      muted: pick(voice.muted, isBoolean, d.voice.muted),
+      volume: pick(voice.volume, isNumberIn(0, 1), d.voice.volume),
+      ...(isString(voice.voiceURI) && { voiceURI: voice.voiceURI as string }),
+    },
+    gps: {
+      snapToRoute: pick(gps.snapToRoute, isBoolean, d.gps.snapToRoute),
+      arrivalRadius: pick(gps.arrivalRadius, isNumberIn(1, 5000), d.gps.arrivalRadius),
+      arrivalDwellSeconds: pick(gps.arrivalDwellSeconds, isNumberIn(0, 3600), d.gps.arrivalDwellSeconds),
+      farFromPinMeters: pick(gps.farFromPinMeters, isNumberIn(1, 100000), d.gps.farFromPinMeters),
+    },
+    shop: {
+      lat: pick(shop.lat, isNumberIn(-90, 90), d.shop.lat),
+      lng: pick(shop.lng, isNumberIn(-180, 180), d.shop.lng),
+    },
+    sync: {
+      ordersUrl: pick(sync.ordersUrl, isString, d.sync.ordersUrl),
+      pollMinutes: pick(sync.pollMinutes, isNumberIn(0, 24 * 60), d.sync.pollMinutes),
+      resolverUrl: pick(sync.resolverUrl, isString, d.sync.resolverUrl),
+    },
+    geocoder: {
+      provider: pick(geocoder.provider, value => typeof value === 'string' && value in GEOCODER_DEFAULTS, d.geocoder.provider),
+      baseUrl: pick(geocoder.baseUrl, isString, d.geocoder.baseUrl),
+    },
+  };
+};
+
+export const loadSettings = (): AppSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (!saved) return DEFAULT_SETTINGS;
+    // รวมกับค่าเริ่มต้น เพื่อให้เครื่องที่บันทึกไว้ก่อนมีหัวข้อใหม่ครบ
+    return normalizeSettings(JSON.parse(saved));
+  } catch (e) {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save settings", e);
+  }
+};
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { splitRows, detectHeaderRow, detectColumns, parseRows, ColumnField } from './sheetImport';
+
+const WITH_HEADER = [
+  'วันที่\tเลขออเดอร์\tชื่อลูกค้า\tเบอร์โทร\tลิงก์แผนที่\tยอดเงิน',
+  '2024-05-01\t#12\tคุณต้น\t0812345678\thttps://www.google.com/maps?q=16.440240,103.497300\t150',
+  '2024-05-01\t#13\tคุณหญิง\t0898765432\thttps://www.google.com/maps?q=16.435040,103.500000\t1,200',
+].join('\n');
+
+describe('splitRows', () => {
+  it('แยก Tab จาก Sheet และ Comma จาก CSV ข้ามบรรทัดว่าง', () => {
+    expect(splitRows('a\tb\n\nc\td')).toEqual([['a', 'b'], ['c', 'd']]);
+    expect(splitRows('a, b\nc,d')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+});
+
+describe('detectColumns', () => {
+  it('ใช้หัวตารางจับคู่คอลัมน์', () => {
+    const rows = splitRows(WITH_HEADER);
+    expect(detectHeaderRow(rows[0])).toBe(true);
+    expect(detectColumns(rows, true)).toEqual<ColumnField[]>(['date', 'orderNo', 'name', 'phone', 'mapLink', 'amount']);
+  });
+
+  it('ไม่มีหัวตาราง เดาจากรูปแบบข้อมูล', () => {
+    const rows = splitRows(WITH_HEADER).slice(1);
+    expect(detectHeaderRow(rows[0])).toBe(false);
+    expect(detectColumns(rows, false)).toEqual<ColumnField[]>(['date', 'orderNo', 'name', 'phone', 'mapLink', 'amount']);
+  });
+
+  it('คอลัมน์ข้อความที่เหลือ อันแรกเป็นชื่อ อันถัดไปเป็นหมายเหตุ', () => {
+    const rows = [
+      ['คุณต้น', '16.440240', '103.497300', 'ฝากไว้ที่ป้อม'],
+      ['คุณหญิง', '16.435040', '103.500000', 'โทรก่อนส่ง'],
+    ];
+    expect(detectColumns(rows, false)).toEqual<ColumnField[]>(['name', 'lat', 'lng', 'note']);
+  });
+});
+
+describe('parseRows', () => {
+  it('แปลงแถวเป็นหมุดตามการจับคู่คอลัมน์', () => {
+    const rows = splitRows(WITH_HEADER);
+    const { points, errors } = parseRows(rows, detectColumns(rows, true), true);
+    expect(errors).toEqual([]);
+    expect(points).toHaveLength(2);
+    expect(points[0]).toMatchObject({ name: 'คุณต้น', orderNo: '#12', phone: '0812345678', lat: 16.44024, lng: 103.4973, amountDue: 150 });
+    expect(points[1].amountDue).toBe(1200);
+  });
+
+  it('แถวที่อ่านไม่ได้แจ้งเลขแถวตามที่วางมา', () => {
+    const rows = [
+      ['คุณต้น', 'ไม่ใช่ลิงก์', '150'],
+      ['คุณหญิง', 'https://www.google.com/maps?q=16.435040,103.500000', 'ฟรี'],
+      ['คุณเอ', 'https://maps.app.goo.gl/abc123XYZ', ''],
+    ];
+    const { points, errors } = parseRows(rows, ['name', 'mapLink', 'amount'], false);
+    expect(points).toEqual([]);
+    expect(errors.map(e => e.row)).toEqual([1, 2, 3]);
+    expect(errors[2].message).toBe('ลิงก์ย่อยังแปลงเป็นพิกัดไม่ได้');
+  });
+
+  it('ลิงก์ย่อใช้พิกัดที่แปลงผ่าน Resolver แล้ว', () => {
+    const rows = [['คุณเอ', 'https://maps.app.goo.gl/abc123XYZ']];
+    const resolved = { 'https://maps.app.goo.gl/abc123XYZ': { lat: 16.44, lng: 103.5 } };
+    const { points } = parseRows(rows, ['name', 'mapLink'], false, resolved);
+    expect(points[0]).toMatchObject({ name: 'คุณเอ', lat: 16.44, lng: 103.5 });
+  });
+
+  it('ต้องเลือกคอลัมน์ตำแหน่งก่อน', () => {
+    const { errors } = parseRows([['คุณต้น', '150']], ['name', 'amount'], false);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].row).toBe(0);
+  });
+});
@@ -0,0 +1,313 @@
+import { CustomerPoint, PaymentMethod } from '../types';
+import { readPersisted, writePersisted } from './persistedState';
+import { parseCoordinates, looksLikeLocation, extractShortLink } from './coordinateParser';
+import { loadSettings } from './settingsService';
+import { LatLng } from './geoService';
+
+// ==================================================================================
+// แยกข้อมูลที่ Copy มาจาก Google Sheet เป็นคอลัมน์ เดาชนิดของแต่ละคอลัมน์
+// ให้ผู้ใช้ยืนยัน/แก้ แล้วจำการจับคู่ไว้ตาม "แหล่งข้อมูล" (จำนวนคอลัมน์ + หัวตาราง)
+// ==================================================================================
+
+export type ColumnField =
+  | 'date' | 'time' | 'orderNo' | 'name' | 'phone'
+  | 'mapLink' | 'lat' | 'lng' | 'amount' | 'paymentMethod'
+  | 'deliveryWindow' | 'note' | 'ignore';
+
+export const COLUMN_LABELS: Record<ColumnField, string> = {
+  date: 'วันที่',
+  time: 'เวลา',
+  orderNo: 'เลขออเดอร์',
+  name: 'ชื่อลูกค้า',
+  phone: 'เบอร์โทร',
+  mapLink: 'ลิงก์แผนที่',
+  lat: 'Latitude',
+  lng: 'Longitude',
+  amount: 'ยอดเงิน',
+  paymentMethod: 'วิธีชำระเงิน',
+  deliveryWindow: 'ช่วงเวลาส่ง',
+  note: 'หมายเหตุ',
+  ignore: '— ไม่ใช้ —',
+};
+
+export interface RowError {
+  row: number; // ลำดับแถว (เริ่มที่ 1) ตามที่วางมา
+  message: string;
+  location?: string; // ข้อความตำแหน่งที่หาพิกัดไม่ได้ (ไว้แสดงรายการแถวที่ต้องแก้)
+}
+
+export interface ParsedImport {
+  points: CustomerPoint[];
+  errors: RowError[];
+}
+
+// แยกด้วย Tab (Sheet) หรือ Comma (CSV) เหมือนเดิม
+export const splitRows = (text: string): string[][] =>
+  text
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => {
+      let parts = line.split('\t');
+      if (parts.length <= 1) parts = line.split(',');
+      return parts.map(p => p.trim());
+    });
+
+// ช่วงเวลาส่ง เช่น "11:00-13:00" หรือ "11.00 - 13.00 น."
+const WINDOW_PATTERN = /^(\d{1,2})[:.](\d{2})\s*[-–ถึง]+\s*(\d{1,2})[:.](\d{2})\s*(น\.?)?$/;
+
+const pad2 = (n: string | number) => String(n).padStart(2, '0');
+
+export const parseDeliveryWindow = (value: string): { start: string, end: string } | undefined => {
+  const m = value.trim().match(WINDOW_PATTERN);
+  if (!m) return undefined;
+  return { start: `${pad2(m[1])}:${m[2]}`, end: `${pad2(m[3])}:${m[4]}` };
+};
+
+export const parsePaymentMethod = (value: string): PaymentMethod | undefined => {
+  const v = value.trim().toLowerCase();
+  if (/^(จ่ายแล้ว|ชำระแล้ว|paid)$/.test(v)) return 'paid';
+  if (/โอน|transfer|qr|พร้อมเพย์|promptpay/.test(v)) return 'transfer';
+  if (/เงินสด|cash|cod|เก็บเงิน|ปลายทาง/.test(v)) return 'cash';
+  return undefined;
+};
+
+// วันที่ (YYYY-MM-DD หรือ D/M/YYYY ปี พ.ศ. ก็ได้) + เวลา -> ISO String
+export const parseOrderTime = (date: string, time: string): string | undefined => {
+  let year: number, month: number, day: number;
+  const iso = date.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const thai = date.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (thai) {
+    [day, month, year] = [Number(thai[1]), Number(thai[2]), Number(thai[3])];
+    if (year < 100) year += 2000;
+  } else if (!date) {
+    const today = new Date();
+    [year, month, day] = [today.getFullYear(), today.getMonth() + 1, today.getDate()];
+  } else {
+    return undefined;
+  }
+  if (year > 2400) year -= 543; // ปี พ.ศ.
+
+  const t = time.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (time && !t) return undefined;
+  const result = new Date(year, month - 1, day, t ? Number(t[1]) : 0, t ? Number(t[2]) : 0, t && t[3] ? Number(t[3]) : 0);
+  return isNaN(result.getTime()) ? undefined : result.toISOString();
+};
+
+// --- Detection ---
+
+const PATTERNS: { field: ColumnField, test: (v: string) => boolean }[] = [
+  { field: 'mapLink', test: v => looksLikeLocation(v) },
+  { field: 'date', test: v => /^\d{4}-\d{1,2}-\d{1,2}$|^\d{1,2}\/\d{1,2}\/\d{2,4}$/.test(v) },
+  { field: 'deliveryWindow', test: v => WINDOW_PATTERN.test(v) },
+  { field: 'time', test: v => /^\d{1,2}:\d{2}(:\d{2})?$/.test(v) },
+  { field: 'orderNo', test: v => /^#\s?\d+$/.test(v) },
+  { field: 'phone', test: v => /^(\+66|0)\d{1,2}[- ]?\d{3}[- ]?\d{3,4}$/.test(v) },
+  { field: 'lat', test: v => /^[-+]?\d{1,2}\.\d{4,}$/.test(v) && Math.abs(parseFloat(v)) <= 90 },
+  { field: 'lng', test: v => /^[-+]?\d{1,3}\.\d{4,}$/.test(v) && Math.abs(parseFloat(v)) <= 180 },
+  { field: 'amount', test: v => /^฿?\s?\d{1,3}(,\d{3})*(\.\d{1,2})?$|^฿?\s?\d+(\.\d{1,2})?$/.test(v) },
+  { field: 'paymentMethod', test: v => parsePaymentMethod(v) !== undefined },
+];
+
+// คำในหัวตาราง (ถ้าแถวแรกเป็นหัวตาราง)
+const HEADER_KEYWORDS: { field: ColumnField, test: RegExp }[] = [
+  { field: 'date', test: /วันที่|date/i },
+  { field: 'time', test: /เวลา|time/i },
+  { field: 'orderNo', test: /ออเดอร์|order|เลขที่|no\.?$/i },
+  { field: 'name', test: /ชื่อ|name|ลูกค้า|customer/i },
+  { field: 'phone', test: /เบอร์|โทร|phone|tel/i },
+  { field: 'mapLink', test: /ลิงก์|แผนที่|map|link|พิกัด/i },
+  { field: 'lat', test: /^lat/i },
+  { field: 'lng', test: /^(lng|lon)/i },
+  { field: 'amount', test: /ยอด|ราคา|amount|total|บาท/i },
+  { field: 'paymentMethod', test: /ชำระ|จ่าย|payment/i },
+  { field: 'deliveryWindow', test: /ช่วงเวลา|รอบส่ง|window|slot/i },
+  { field: 'note', test: /หมายเหตุ|note|remark/i },
+];
+
+export const detectHeaderRow = (row: string[]): boolean => {
+  const hits = row.filter(cell => cell && HEADER_KEYWORDS.some(k => k.test.test(cell))).length;
+  return hits >= 2 && !row.some(cell => PATTERNS[0].test(cell));
+};
+
+const headerField = (cell: string): ColumnField | null =>
+  HEADER_KEYWORDS.find(k => k.test.test(cell))?.field || null;
+
+export const detectColumns = (rows: string[][], hasHeader: boolean): ColumnField[] => {
+  const columnCount = Math.max(0, ...rows.map(r => r.length));
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+  const mapping: ColumnField[] = new Array(columnCount).fill('ignore');
+  const used = new Set<ColumnField>();
+
+  const assign = (col: number, field: ColumnField) => {
+    mapping[col] = field;
+    used.add(field);
+  };
+
+  // 1. หัวตารางมาก่อน (ชัดเจนที่สุด)
+  if (hasHeader) {
+    rows[0].forEach((cell, col) => {
+      const field = headerField(cell);
+      if (field && !used.has(field)) assign(col, field);
+    });
+  }
+
+  // 2. เดาจากรูปแบบข้อมูล: คอลัมน์ที่ค่าส่วนใหญ่ (>= 60%) ตรงรูปแบบ
+  PATTERNS.forEach(({ field, test }) => {
+    if (used.has(field)) return;
+    for (let col = 0; col < columnCount; col++) {
+      if (mapping[col] !== 'ignore') continue;
+      const values = dataRows.map(r => r[col] || '').filter(v => v && v !== '...');
+      if (values.length === 0) continue;
+      const hits = values.filter(test).length;
+      if (hits / values.length >= 0.6) {
+        assign(col, field);
+        break;
+      }
+    }
+  });
+
+  // 3. คอลัมน์ข้อความที่เหลือ: อันแรกเป็นชื่อ อันถัดไปเป็นหมายเหตุ
+  for (let col = 0; col < columnCount; col++) {
+    if (mapping[col] !== 'ignore') continue;
+    const values = dataRows.map(r => r[col] || '').filter(v => v && v !== '...');
+    if (values.length === 0) continue;
+    if (!used.has('name')) assign(col, 'name');
+    else if (!used.has('note')) assign(col, 'note');
+  }
+
+  return mapping;
+};
+
+// --- Mapping memory ---
+
+// แหล่งข้อมูลเดียวกัน = จำนวนคอลัมน์เท่ากัน และหัวตารางเหมือนกัน (ถ้ามี)
+export const sourceSignature = (rows: string[][], hasHeader: boolean): string => {
+  const columnCount = Math.max(0, ...rows.map(r => r.length));
+  return hasHeader ? `${columnCount}|${rows[0].join('|')}` : `${columnCount}`;
+};
+
+export const loadSavedMapping = (signature: string): ColumnField[] | null => {
+  const saved = readPersisted('importMappings');
+  return saved?.[signature] || null;
+};
+
+export const saveMapping = (signature: string, mapping: ColumnField[]) => {
+  try {
+    writePersisted('importMappings', { ...(readPersisted('importMappings') || {}), [signature]: mapping });
+  } catch (e) {
+    console.error("Failed to remember import mapping", e);
+  }
+};
+
+// --- Parsing ---
+
+const parseAmount = (value: string): number | undefined => {
+  const num = parseFloat(value.replace(/[฿,\s]/g, ''));
+  return isNaN(num) ? undefined : num;
+};
+
+// resolved: พิกัดของลิงก์ย่อที่แปลงผ่าน Resolver แล้ว (ลิงก์ย่อ -> พิกัด)
+export const parseRows = (
+  rows: string[][],
+  mapping: ColumnField[],
+  hasHeader: boolean,
+  resolved: Record<string, LatLng> = {}
+): ParsedImport => {
+  const points: CustomerPoint[] = [];
+  const errors: RowError[] = [];
+  const colOf = (field: ColumnField) => mapping.indexOf(field);
+  const stamp = Date.now();
+  const reference = loadSettings().shop; // Plus Code แบบสั้นอ้างอิงตำแหน่งร้าน
+
+  if (colOf('mapLink') === -1 && (colOf('lat') === -1 || colOf('lng') === -1)) {
+    return { points, errors: [{ row: 0, message: 'ยังไม่ได้เลือกคอลัมน์ลิงก์แผนที่ หรือ Latitude/Longitude' }] };
+  }
+
+  rows.forEach((row, index) => {
+    if (hasHeader && index === 0) return;
+    const rowNumber = index + 1;
+    const cell = (field: ColumnField) => {
+      const col = colOf(field);
+      return col === -1 ? '' : (row[col] || '').trim();
+    };
+
+    let coords: { lat: number, lng: number } | null = null;
+    if (cell('mapLink')) {
+      const shortLink = extractShortLink(cell('mapLink'));
+      coords = parseCoordinates(cell('mapLink'), reference) || (shortLink && resolved[shortLink]) || null;
+      if (!coords) {
+        errors.push({
+          row: rowNumber,
+          message: shortLink ? 'ลิงก์ย่อยังแปลงเป็นพิกัดไม่ได้' : 'อ่านพิกัดจากลิงก์แผนที่ไม่ได้',
+          location: cell('mapLink'),
+        });
+        return;
+      }
+    } else if (cell('lat') && cell('lng')) {
+      coords = { lat: parseFloat(cell('lat')), lng: parseFloat(cell('lng')) };
+    } else {
+      errors.push({ row: rowNumber, message: 'ไม่มีลิงก์แผนที่หรือพิกัด' });
+      return;
+    }
+
+    if (isNaN(coords.lat) || isNaN(coords.lng) || Math.abs(coords.lat) > 90 || Math.abs(coords.lng) > 180) {
+      errors.push({ row: rowNumber, message: 'พิกัดไม่ถูกต้อง' });
+      return;
+    }
+
+    const amountText = cell('amount') === '...' ? '' : cell('amount');
+    const amount = amountText ? parseAmount(amountText) : undefined;
+    if (amountText && amount === undefined) {
+      errors.push({ row: rowNumber, message: `ยอดเงิน "${amountText}" ไม่ใช่ตัวเลข` });
+      return;
+    }
+
+    const windowText = cell('deliveryWindow');
+    const deliveryWindow = windowText ? parseDeliveryWindow(windowText) : undefined;
+    if (windowText && windowText !== '...' && !deliveryWindow) {
+      errors.push({ row: rowNumber, message: `ช่วงเวลาส่ง "${windowText}" ไม่ถูกรูปแบบ (เช่น 11:00-13:00)` });
+      return;
+    }
+
+    let orderTime: string | undefined;
+    if (cell('date') || cell('time')) {
+      orderTime = parseOrderTime(cell('date'), cell('time'));
+      if (!orderTime) {
+        errors.push({ row: rowNumber, message: `วันที่/เวลา "${cell('date')} ${cell('time')}" อ่านไม่ได้` });
+        return;
+      }
+    }
+
+    // ช่องที่เป็น "..." ใน Sheet ถือว่าว่าง
+    const text = (field: ColumnField) => {
+      const value = cell(field);
+      return value && value !== '...' ? value : undefined;
+    };
+    const orderNo = text('orderNo');
+    const phone = text('phone');
+    const note = text('note');
+    const paymentText = text('paymentMethod');
+    const paymentMethod = paymentText ? parsePaymentMethod(paymentText) : undefined;
+
+    points.push({
+      id: `p-${stamp}-${index}`,
+      name: cell('name') || `Customer ${rowNumber}`,
+      lat: coords.lat,
+      lng: coords.lng,
+      ...(orderNo && { orderNo }),
+      ...(phone && { phone }),
+      ...(orderTime && { orderTime }),
+      ...(amount !== undefined && { amountDue: amount }),
+      ...(paymentMethod && { paymentMethod }),
+      ...(deliveryWindow && { deliveryWindow }),
+      // วิธีชำระที่ระบบไม่รู้จัก เก็บไว้ในหมายเหตุแทนการทิ้ง
+      ...((note || (paymentText && !paymentMethod)) && {
+        note: [note, paymentText && !paymentMethod ? `ชำระ: ${paymentText}` : ''].filter(Boolean).join(' / '),
+      }),
+    });
+  });
+
+  return { points, errors };
+};
@@ -0,0 +1,222 @@
+import { CustomerPoint, DeliveryRecord, DeliveryOutcome, DELIVERY_OUTCOME_SHEET_STATUS, isFailedOutcome } from '../types';
+import { parseOrderTime, parsePaymentMethod, parseDeliveryWindow } from './sheetImport';
+import { parseCoordinates, extractShortLink, resolveShortLinks } from './coordinateParser';
+import { fetchWithRetry } from './routingService';
+import { LatLng } from './geoService';
+import { displayName } from './customerName';
+
+// ==================================================================================
+// ดึงออเดอร์ที่ยังไม่ได้ส่งจาก Google Apps Script (แทนการ Copy/Paste จาก Sheet)
+// Script ต้องตอบ GET ?action=pendingOrders เป็น JSON แบบนี้ (หรือส่งเป็น Array ตรงๆ ก็ได้):
+// {
+//   "orders": [
+//     { "orderNo": "#01", "name": "คุณต้น", "phone": "0812345678",
+//       "date": "2025-12-14", "time": "06:34:59",
+//       "mapLink": "https://www.google.com/maps?q=16.44,103.49",  // ลิงก์ย่อ/Plus Code/DMS ก็ได้ หรือใช้ "lat"/"lng"
+//       "amount": 350, "paymentMethod": "โอน", "deliveryWindow": "11:00-13:00", "note": "" }
+//   ]
+// }
+// ทดสอบในเครื่องได้ด้วย mock-server (npm start ในโฟลเดอร์ mock-server)
+// ==================================================================================
+
+export interface SkippedOrder {
+  label: string;  // เลขออเดอร์หรือชื่อ ไว้แสดงให้ผู้ใช้ดู
+  reason: string;
+}
+
+// "#01", "# 1", "1" ถือเป็นออเดอร์เดียวกัน
+export const normalizeOrderNo = (orderNo?: string) =>
+  (orderNo || '').replace(/^#\s*/, '').replace(/^0+(?=\d)/, '').trim().toLowerCase();
+
+// ออเดอร์ที่ไม่มีเลข ใช้ชื่อ + พิกัดแทน
+const dedupeKey = (p: { orderNo?: string, name: string, lat: number, lng: number }) => {
+  const orderNo = normalizeOrderNo(p.orderNo);
+  return orderNo ? `#${orderNo}` : `${p.name.trim()}|${p.lat.toFixed(5)}|${p.lng.toFixed(5)}`;
+};
+
+const str = (value: unknown) => (value == null ? '' : String(value).trim());
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+  (typeof value === 'object' && value !== null ? value as Record<string, unknown> : null);
+
+const orderToPoint = (
+  input: unknown,
+  index: number,
+  stamp: number,
+  reference: LatLng,
+  resolved: Record<string, LatLng>
+): CustomerPoint | SkippedOrder => {
+  const raw = asRecord(input);
+  const label = str(raw?.orderNo) || str(raw?.name) || `รายการที่ ${index + 1}`;
+  if (!raw) return { label, reason: 'ข้อมูลไม่ถูกต้อง' };
+
+  let coords: { lat: number, lng: number } | null = null;
+  if (str(raw.mapLink)) {
+    const shortLink = extractShortLink(str(raw.mapLink));
+    coords = parseCoordinates(str(raw.mapLink), reference) || (shortLink && resolved[shortLink]) || null;
+    if (!coords && shortLink) return { label, reason: 'แปลงลิงก์ย่อเป็นพิกัดไม่สำเร็จ' };
+  } else if (raw.lat != null && raw.lng != null) {
+    coords = { lat: Number(raw.lat), lng: Number(raw.lng) };
+  }
+  if (!coords || isNaN(coords.lat) || isNaN(coords.lng) || Math.abs(coords.lat) > 90 || Math.abs(coords.lng) > 180) {
+    return { label, reason: 'ไม่มีพิกัดหรือลิงก์แผนที่ที่อ่านได้' };
+  }
+
+  const orderTime = str(raw.orderTime) && !isNaN(Date.parse(str(raw.orderTime)))
+    ? new Date(str(raw.orderTime)).toISOString()
+    : (str(raw.date) || str(raw.time) ? parseOrderTime(str(raw.date), str(raw.time)) : undefined);
+  const amount = raw.amount === '' || raw.amount == null ? undefined : Number(String(raw.amount).replace(/[฿,\s]/g, ''));
+  const paymentMethod = str(raw.paymentMethod) ? parsePaymentMethod(str(raw.paymentMethod)) : undefined;
+  const deliveryWindow = str(raw.deliveryWindow) ? parseDeliveryWindow(str(raw.deliveryWindow)) : undefined;
+
+  return {
+    id: `p-${stamp}-${index}`,
+    name: str(raw.name) || label,
+    lat: coords.lat,
+    lng: coords.lng,
+    ...(str(raw.orderNo) && { orderNo: str(raw.orderNo) }),
+    ...(str(raw.phone) && { phone: str(raw.phone) }),
+    ...(orderTime && { orderTime }),
+    ...(amount !== undefined && !isNaN(amount) && { amountDue: amount }),
+    ...(paymentMethod && { paymentMethod }),
+    ...(deliveryWindow && { deliveryWindow }),
+    ...(str(raw.note) && { note: str(raw.note) }),
+  };
+};
+
+// reference: ตำแหน่งร้าน (ใช้กับ Plus Code แบบสั้น) / resolverUrl: ที่แปลงลิงก์ย่อ maps.app.goo.gl
+export const fetchPendingOrders = async (
+  url: string,
+  reference: LatLng,
+  resolverUrl: string
+): Promise<{ points: CustomerPoint[], skipped: SkippedOrder[] }> => {
+  const separator = url.includes('?') ? '&' : '?';
+  const response = await fetchWithRetry(`${url}${separator}action=pendingOrders`);
+
+  const body = await response.json();
+  const orders: unknown[] = Array.isArray(body) ? body : body?.orders;
+  if (!Array.isArray(orders)) throw new Error("Response has no orders array");
+
+  // ลิงก์ย่อแปลงทีเดียวก่อน (เฉพาะที่อ่านพิกัดตรงๆ ไม่ได้)
+  const shortLinks = orders
+    .map(raw => str(asRecord(raw)?.mapLink))
+    .filter(link => link && !parseCoordinates(link, reference))
+    .map(extractShortLink)
+    .filter((link): link is string => link !== null);
+  const { resolved } = shortLinks.length > 0 ? await resolveShortLinks(shortLinks, resolverUrl) : { resolved: {} };
+
+  const stamp = Date.now();
+  const points: CustomerPoint[] = [];
+  const skipped: SkippedOrder[] = [];
+  orders.forEach((raw, index) => {
+    const result = orderToPoint(raw, index, stamp, reference, resolved);
+    if ('id' in result) points.push(result);
+    else skipped.push(result);
+  });
+  return { points, skipped };
+};
+
+// วันที่ (เวลาเครื่อง) ของออเดอร์ ใช้แยกเลขออเดอร์ที่เริ่มนับใหม่ทุกวัน
+const orderDay = (iso: string) => {
+  const date = new Date(iso);
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+};
+
+// ตัดออเดอร์ที่มีหมุดอยู่แล้ว หรือส่งไปแล้ว (อยู่ในประวัติ) ออก
+// เลขออเดอร์เริ่มใหม่ทุกวัน ประวัติจึงเทียบเฉพาะออเดอร์วันเดียวกัน
+// (ไม่มีเวลาสั่ง ใช้วันที่ไปส่งแทน / ออเดอร์ใหม่ที่ไม่มีเวลาสั่ง ถือเป็นของวันนี้)
+export const mergeSyncedOrders = (
+  existing: CustomerPoint[],
+  history: DeliveryRecord[],
+  incoming: CustomerPoint[]
+): { added: CustomerPoint[], duplicates: number } => {
+  const seen = new Set(existing.map(dedupeKey));
+  const delivered = new Set<string>();
+  // ออเดอร์ที่เคยไปส่งแล้วไม่สำเร็จ ยังรับกลับมาได้ (Sheet อาจเปิดให้ส่งซ้ำ)
+  history.forEach(record => {
+    if (record.outcome && isFailedOutcome(record.outcome)) return;
+    if (!record.order?.orderNo) return;
+    delivered.add(`#${normalizeOrderNo(record.order.orderNo)}@${orderDay(record.order.orderTime || record.timestamp)}`);
+  });
+
+  const added: CustomerPoint[] = [];
+  let duplicates = 0;
+  incoming.forEach(point => {
+    const key = dedupeKey(point);
+    const isDelivered = !!point.orderNo && delivered.has(`${key}@${orderDay(point.orderTime || new Date().toISOString())}`);
+    if (seen.has(key) || isDelivered) {
+      duplicates++;
+      return;
+    }
+    seen.add(key);
+    added.push(point);
+  });
+  return { added, duplicates };
+};
+
+// ==================================================================================
+// ส่งการเปลี่ยนแปลงกลับไปที่ Sheet (ผ่าน Outbox ในแอป ส่งซ้ำได้จนกว่า Script จะตอบรับ)
+// Script ต้องตอบ POST เป็น JSON { "ok": true } เมื่อบันทึกแล้ว หรือ { "ok": false, "error": "..." }
+// ทุกคำขอมี requestId (ส่งซ้ำด้วยค่าเดิม) ให้ Script ข้ามรายการที่เคยบันทึกแล้วได้
+// ==================================================================================
+
+// ok: false + retry: true = ส่งไม่ถึง / Script ล่มชั่วคราว ให้ลองใหม่ภายหลัง
+export type SheetAck = { ok: true } | { ok: false, retry: boolean, error: string };
+
+// ใช้ text/plain เพื่อไม่ให้ Browser ส่ง Preflight (Apps Script ไม่รองรับ OPTIONS)
+// และไม่ใช้ no-cors เพื่อให้อ่านคำตอบจาก Script ได้
+export const postSheetUpdate = async (url: string, payload: object): Promise<SheetAck> => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain;charset=utf-8' },
+      body: JSON.stringify(payload),
+    });
+  } catch (e) {
+    return { ok: false, retry: true, error: 'เชื่อมต่อ Script ไม่ได้' };
+  }
+  if (response.status >= 500 || response.status === 429) {
+    return { ok: false, retry: true, error: `Script ตอบ Status ${response.status}` };
+  }
+
+  let body: Record<string, unknown> | null;
+  try {
+    body = asRecord(await response.json());
+  } catch (e) {
+    return { ok: false, retry: false, error: 'Script ไม่ได้ตอบผลการบันทึก (ต้องตอบเป็น JSON { ok: true })' };
+  }
+  if (!response.ok || body?.ok !== true) {
+    return { ok: false, retry: false, error: str(body?.error) || `Script ตอบ Status ${response.status}` };
+  }
+  return { ok: true };
+};
+
+// สถานะการส่ง: เติม "คุณ" นำหน้าชื่อ เพิ่มโอกาสหาชื่อเจอใน Sheet
+// เช่น ในแอปชื่อ "ต้น" แต่ใน Sheet ชื่อ "คุณต้น" -> ถ้าเราส่ง "คุณต้น" ไป Google Script จะหาเจอทั้งคู่
+const statusPayload = (point: CustomerPoint, status: string, reason?: string) => ({
+  name: displayName(point.name),
+  orderNo: point.orderNo,
+  status,
+  reason,
+  timestamp: new Date().toLocaleString('th-TH'),
+});
+
+export const buildStatusUpdate = (point: CustomerPoint, outcome: DeliveryOutcome, reason?: string) =>
+  statusPayload(point, DELIVERY_OUTCOME_SHEET_STATUS[outcome], reason);
+
+// ย้อนสถานะใน Sheet กลับเป็นก่อนกดส่งงาน (point = หมุดก่อนส่ง): เคยส่งไม่สำเร็จใช้ผลครั้งก่อน ไม่งั้นกลับเป็น PENDING
+export const buildStatusRevert = (point: CustomerPoint) =>
+  point.lastAttempt
+    ? statusPayload(point, DELIVERY_OUTCOME_SHEET_STATUS[point.lastAttempt.outcome], point.lastAttempt.reason || undefined)
+    : statusPayload(point, 'PENDING');
+
+// พิกัดที่แก้บนแผนที่ (Script ต้องรองรับ action "updateLocation" โดยหาแถวจากเลขออเดอร์)
+export const buildLocationUpdate = (point: CustomerPoint) => ({
+  action: 'updateLocation',
+  orderNo: point.orderNo,
+  name: point.name,
+  lat: point.lat,
+  lng: point.lng,
+  mapLink: `https://www.google.com/maps?q=${point.lat.toFixed(6)},${point.lng.toFixed(6)}`,
+  timestamp: new Date().toLocaleString('th-TH'),
+});
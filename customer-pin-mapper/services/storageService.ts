@@ -0,0 +1,342 @@
+import { CustomerPoint, DeliveryRecord } from '../types';
+import { upgradeRecords, QuarantinedRecord, SCHEMA_VERSION } from './persistedState';
+import { OutboxItem } from './outboxService';
+
+// ==================================================================================
+// ที่เก็บข้อมูลหลักของแอปบน IndexedDB (แทน LocalStorage ที่จำกัด ~5MB)
+// - points   : หมุดลูกค้าที่ยังไม่ได้ส่ง
+// - history  : ประวัติการส่ง (ไม่รวมรูป)
+// - photos   : รูปหลักฐาน + ลายเซ็นผู้รับ เก็บเป็น Blob แยกตาม id ของประวัติ
+//              (ประวัติที่ลบแล้วยังเก็บรูปไว้ให้ "เลิกทำ" ได้ ลบจริงตอนเปิดแอปครั้งถัดไป)
+// - quarantine : รายการที่ตรวจ Schema ไม่ผ่าน (เก็บไว้ตรวจสอบ ไม่ทิ้ง)
+// - outbox   : คำขอที่รอส่งไป Google Sheet (ดู outboxService)
+// - meta     : ข้อมูลระบบ เช่น เวอร์ชัน Schema และสถานะการย้ายข้อมูลจาก LocalStorage
+// ==================================================================================
+
+const DB_NAME = 'seoulgood-route';
+const DB_VERSION = 3;
+const LEGACY_POINTS_KEY = 'customerPoints';
+const LEGACY_HISTORY_KEY = 'deliveryHistory';
+
+type StoreName = 'points' | 'history' | 'photos' | 'quarantine' | 'meta' | 'outbox';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error("IndexedDB not supported"));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains('points')) db.createObjectStore('points', { keyPath: 'id' });
+      if (!db.objectStoreNames.contains('history')) db.createObjectStore('history', { keyPath: 'id' });
+      if (!db.objectStoreNames.contains('photos')) db.createObjectStore('photos');
+      if (!db.objectStoreNames.contains('meta')) db.createObjectStore('meta');
+      if (!db.objectStoreNames.contains('quarantine')) db.createObjectStore('quarantine', { autoIncrement: true });
+      if (!db.objectStoreNames.contains('outbox')) db.createObjectStore('outbox', { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // เปิดไม่สำเร็จ ให้ลองใหม่ได้ในครั้งถัดไป
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+// พื้นที่เต็ม: แต่ละ Browser ใช้ชื่อ Error ต่างกันเล็กน้อย
+export const isQuotaError = (error: unknown): boolean => {
+  const name = (error as { name?: string })?.name || '';
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED';
+};
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, base64] = dataUrl.split(',');
+  const mime = header.match(/data:(.*?);/)?.[1] || 'image/jpeg';
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mime });
+};
+
+// รูปของประวัติ 1 รายการ (ลำดับตรงกับ DeliveryRecord.photos, null = รูปที่อ่านไม่ได้)
+// ข้อมูลก่อน Schema v3 เก็บเป็น Blob รูปเดียว
+interface StoredPhotos {
+  photos: (Blob | null)[];
+  signature?: Blob;
+}
+
+const normalizeStoredPhotos = (value: unknown): StoredPhotos =>
+  value instanceof Blob ? { photos: [value] } : value as StoredPhotos;
+
+// url ไม่เก็บในตาราง history (รูปอยู่ใน photos แล้ว) เหลือไว้แค่ข้อมูลประทับของแต่ละรูป
+const toHistoryRow = ({ photos, signatureUrl, ...meta }: DeliveryRecord) => ({
+  ...meta,
+  photos: photos.map(({ stamp }) => (stamp ? { stamp } : {})),
+});
+
+const hasPhotoUrls = (record: DeliveryRecord) => Boolean(record.signatureUrl) || record.photos.some(p => p.url);
+const hasNewPhotos = (record: DeliveryRecord) =>
+  Boolean(record.signatureUrl?.startsWith('data:')) || record.photos.some(p => p.url.startsWith('data:'));
+
+// รูปใหม่เป็น Base64 / รูปที่โหลดแล้วเป็น Object URL ต้องอ่านก่อนเปิด Transaction (Transaction จะปิดเองถ้ารอ Promise อื่น)
+const urlToBlob = async (url: string): Promise<Blob> =>
+  url.startsWith('data:') ? dataUrlToBlob(url) : (await fetch(url)).blob();
+
+const readRecordPhotos = async (record: DeliveryRecord): Promise<StoredPhotos> => ({
+  photos: await Promise.all(record.photos.map(p => (p.url ? urlToBlob(p.url) : null))),
+  ...(record.signatureUrl && { signature: await urlToBlob(record.signatureUrl) }),
+});
+
+// Object URL ที่สร้างให้ประวัติแต่ละรายการ คืนหน่วยความจำเมื่อประวัตินั้นไม่อยู่ในรายการแล้ว
+const objectUrlsById = new Map<string, string[]>();
+
+const createObjectUrl = (id: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  objectUrlsById.set(id, [...(objectUrlsById.get(id) || []), url]);
+  return url;
+};
+
+const revokeObjectUrls = (id: string) => {
+  objectUrlsById.get(id)?.forEach(url => URL.revokeObjectURL(url));
+  objectUrlsById.delete(id);
+};
+
+const hasObjectUrls = (record: DeliveryRecord) =>
+  Boolean(record.signatureUrl?.startsWith('blob:')) || record.photos.some(p => p.url.startsWith('blob:'));
+
+// แปลง Blob เป็น Object URL เพื่อให้ <img> แสดงได้โดยไม่ต้องโหลดทั้งไฟล์เป็น Base64
+const attachPhotoUrls = (record: DeliveryRecord, stored?: StoredPhotos): DeliveryRecord => {
+  const count = Math.max(record.photos.length, stored?.photos.length || 0);
+  const { signatureUrl, ...rest } = record;
+  return {
+    ...rest,
+    photos: Array.from({ length: count }, (_, i) => {
+      const blob = stored?.photos[i];
+      return { ...record.photos[i], url: blob ? createObjectUrl(record.id, blob) : '' };
+    }),
+    ...(stored?.signature && { signatureUrl: createObjectUrl(record.id, stored.signature) }),
+  };
+};
+
+// ข้อมูลเดิมที่อ่านไม่ได้ทั้งก้อน เก็บข้อความดิบไว้ใน quarantine (ไม่ลบทิ้งเฉยๆ)
+const readLegacyList = (key: string): { list: unknown[], corrupt?: QuarantinedRecord } => {
+  const text = localStorage.getItem(key);
+  if (!text) return { list: [] };
+  const corrupt = (reason: string): QuarantinedRecord =>
+    ({ kind: key, raw: text, reason, fromVersion: 0, quarantinedAt: new Date().toISOString() });
+  try {
+    const parsed = JSON.parse(text);
+    return Array.isArray(parsed) ? { list: parsed } : { list: [], corrupt: corrupt('ข้อมูลเดิมไม่ใช่รายการ (Array)') };
+  } catch (e) {
+    return { list: [], corrupt: corrupt(`อ่าน JSON ไม่ได้: ${e instanceof Error ? e.message : String(e)}`) };
+  }
+};
+
+// โหลดข้อมูลทั้งหมด พร้อมอัปเกรด Schema และย้ายข้อมูลจาก LocalStorage เดิม (ครั้งเดียว)
+// quarantined = จำนวนรายการที่ตรวจไม่ผ่านในรอบนี้ (ถูกแยกเก็บไว้ในตาราง quarantine)
+export const loadAppData = async (): Promise<{ points: CustomerPoint[], history: DeliveryRecord[], quarantined: number }> => {
+  const db = await openDb();
+
+  const readTx = db.transaction(['points', 'history', 'photos', 'meta'], 'readonly');
+  const [rawPoints, rawHistory, photoKeys, photoValues, storedVersion, migrated] = await Promise.all([
+    requestToPromise(readTx.objectStore('points').getAll()),
+    requestToPromise(readTx.objectStore('history').getAll()),
+    requestToPromise(readTx.objectStore('photos').getAllKeys()),
+    requestToPromise(readTx.objectStore('photos').getAll()),
+    requestToPromise(readTx.objectStore('meta').get('schemaVersion')),
+    requestToPromise(readTx.objectStore('meta').get('migratedFromLocalStorage')),
+  ]);
+  const fromVersion: number = typeof storedVersion === 'number' ? storedVersion : 0;
+
+  const pointsResult = upgradeRecords('point', rawPoints, fromVersion);
+  const historyResult = upgradeRecords('history', rawHistory, fromVersion);
+  const points = pointsResult.valid;
+  const history = historyResult.valid;
+  const quarantined = [...pointsResult.quarantined, ...historyResult.quarantined];
+
+  // ข้อมูลเดิมใน LocalStorage ไม่มีเวอร์ชัน (v0)
+  if (!migrated) {
+    const legacyPointList = readLegacyList(LEGACY_POINTS_KEY);
+    const legacyHistoryList = readLegacyList(LEGACY_HISTORY_KEY);
+    const legacyPoints = upgradeRecords('point', legacyPointList.list, 0);
+    const legacyHistory = upgradeRecords('history', legacyHistoryList.list, 0);
+    points.push(...legacyPoints.valid);
+    history.push(...legacyHistory.valid);
+    quarantined.push(...legacyPoints.quarantined, ...legacyHistory.quarantined);
+    [legacyPointList.corrupt, legacyHistoryList.corrupt].forEach(entry => entry && quarantined.push(entry));
+  }
+
+  const storedPhotos = new Map<IDBValidKey, StoredPhotos>();
+  photoKeys.forEach((key, i) => storedPhotos.set(key, normalizeStoredPhotos(photoValues[i])));
+
+  const needsWrite = !migrated || fromVersion < SCHEMA_VERSION || quarantined.length > 0;
+  if (needsWrite) {
+    // รูป Base64 จากข้อมูลเดิมใน LocalStorage
+    const newPhotos = new Map<string, StoredPhotos>();
+    for (const record of history) {
+      if (hasNewPhotos(record)) newPhotos.set(record.id, await readRecordPhotos(record));
+    }
+
+    const tx = db.transaction(['points', 'history', 'photos', 'quarantine', 'meta'], 'readwrite');
+    tx.objectStore('points').clear();
+    tx.objectStore('history').clear();
+    points.forEach(point => tx.objectStore('points').put(point));
+    history.forEach(record => tx.objectStore('history').put(toHistoryRow(record)));
+    // รูปแบบเก่า (Blob เดียว) เขียนใหม่เป็นรายการรูป
+    photoKeys.forEach((key, i) => {
+      if (photoValues[i] instanceof Blob) tx.objectStore('photos').put(storedPhotos.get(key), key);
+    });
+    newPhotos.forEach((entry, id) => {
+      tx.objectStore('photos').put(entry, id);
+      storedPhotos.set(id, entry);
+    });
+    // รูปของประวัติที่ตรวจไม่ผ่านย้ายไปอยู่กับรายการใน quarantine (รูปที่ไม่มีประวัติคู่กันจะถูกลบด้านล่าง)
+    quarantined.forEach(entry => {
+      const id = entry.kind === 'history' ? (entry.raw as { id?: unknown } | null)?.id : undefined;
+      const photos = typeof id === 'string' ? storedPhotos.get(id) : undefined;
+      if (typeof id === 'string' && photos) {
+        tx.objectStore('photos').delete(id);
+        storedPhotos.delete(id);
+      }
+      tx.objectStore('quarantine').add(photos ? { ...entry, photos } : entry);
+    });
+    tx.objectStore('meta').put(SCHEMA_VERSION, 'schemaVersion');
+    tx.objectStore('meta').put(true, 'migratedFromLocalStorage');
+    await transactionDone(tx);
+
+    // ลบของเดิมหลังบันทึกสำเร็จเท่านั้น (ทุกรายการถูกย้ายหรือแยกเก็บใน quarantine แล้ว)
+    if (!migrated) {
+      localStorage.removeItem(LEGACY_POINTS_KEY);
+      localStorage.removeItem(LEGACY_HISTORY_KEY);
+    }
+  }
+
+  // รูปของประวัติที่ถูกลบในรอบก่อน (เก็บไว้ให้ "เลิกทำ" ได้จนปิดแอป)
+  const historyIds = new Set(history.map(record => record.id));
+  const orphanKeys = photoKeys.filter(key => storedPhotos.has(key) && !historyIds.has(key as string));
+  if (orphanKeys.length > 0) {
+    const tx = db.transaction('photos', 'readwrite');
+    orphanKeys.forEach(key => tx.objectStore('photos').delete(key));
+    await transactionDone(tx);
+  }
+
+  return {
+    points,
+    history: history
+      .map(record => attachPhotoUrls(record, storedPhotos.get(record.id)))
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+    quarantined: quarantined.length,
+  };
+};
+
+export const getQuarantinedRecords = async (): Promise<QuarantinedRecord[]> => {
+  const db = await openDb();
+  return requestToPromise(db.transaction('quarantine').objectStore('quarantine').getAll());
+};
+
+const replaceAll = async (storeName: StoreName, items: object[]) => {
+  const db = await openDb();
+  const tx = db.transaction(storeName, 'readwrite');
+  const store = tx.objectStore(storeName);
+  store.clear();
+  items.forEach(item => store.put(item));
+  await transactionDone(tx);
+};
+
+// บันทึกหมุด/ประวัติทีละรอบตามลำดับที่เรียก (saveHistory อ่านรูปก่อนเปิด Transaction
+// ถ้าสองรอบทำงานซ้อนกัน รอบที่เรียกก่อนอาจเขียนทับข้อมูลของรอบหลัง)
+let writeQueue: Promise<unknown> = Promise.resolve();
+const serialized = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = writeQueue.then(() => task());
+  writeQueue = run.catch(() => undefined);
+  return run;
+};
+
+export const savePoints = (points: CustomerPoint[]) => serialized(() => replaceAll('points', points));
+
+const writeHistory = async (history: DeliveryRecord[], overwritePhotos: boolean) => {
+  const db = await openDb();
+  const storedPhotoKeys = new Set(await requestToPromise(db.transaction('photos').objectStore('photos').getAllKeys()));
+  const ids = new Set(history.map(h => h.id));
+
+  // รูปใหม่ (ยังเป็น Base64) เท่านั้นที่ต้องเขียน รูปเก่าอยู่ใน photos แล้ว
+  const photosToWrite = new Map<string, StoredPhotos>();
+  for (const record of history) {
+    const isStored = storedPhotoKeys.has(record.id);
+    if (!hasPhotoUrls(record) || (isStored && !(overwritePhotos && hasNewPhotos(record)))) continue;
+    try {
+      photosToWrite.set(record.id, await readRecordPhotos(record));
+    } catch (e) {
+      console.error(`Failed to restore photo for ${record.id}:`, e);
+    }
+  }
+
+  const tx = db.transaction(['history', 'photos'], 'readwrite');
+  const historyStore = tx.objectStore('history');
+  const photoStore = tx.objectStore('photos');
+
+  historyStore.clear();
+  history.forEach(record => historyStore.put(toHistoryRow(record)));
+  photosToWrite.forEach((entry, id) => photoStore.put(entry, id));
+  await transactionDone(tx);
+
+  // ประวัติที่ถูกลบ หรือรูปถูกแทนที่ด้วยรูปจากไฟล์สำรอง: Object URL เดิมไม่มีใครใช้แล้ว
+  const replacedIds = new Set(history.filter(hasNewPhotos).map(record => record.id));
+  [...objectUrlsById.keys()]
+    .filter(id => !ids.has(id) || replacedIds.has(id))
+    .forEach(revokeObjectUrls);
+};
+
+// overwritePhotos = เขียนรูป Base64 ทับรูปเดิมที่ id ซ้ำ (ใช้ตอนกู้คืนจากไฟล์สำรอง)
+export const saveHistory = (history: DeliveryRecord[], overwritePhotos = false) =>
+  serialized(() => writeHistory(history, overwritePhotos));
+
+// ประวัติที่กลับมาด้วย "เลิกทำ"/"ทำซ้ำ" หลังถูกลบ: Object URL เดิมถูกคืนไปแล้ว อ่านรูปจาก photos ใหม่
+// คืนเฉพาะรายการที่ได้ URL ใหม่ (รอการบันทึกที่ค้างอยู่ก่อน เพราะการบันทึกเป็นจังหวะที่คืน URL)
+export const reloadPhotoUrls = (history: DeliveryRecord[]): Promise<DeliveryRecord[]> => serialized(async () => {
+  const stale = history.filter(record => !objectUrlsById.has(record.id) && hasObjectUrls(record));
+  if (stale.length === 0) return [];
+  const db = await openDb();
+  const store = db.transaction('photos').objectStore('photos');
+  const values = await Promise.all(stale.map(record => requestToPromise(store.get(record.id))));
+  return stale.map((record, i) => attachPhotoUrls(record, values[i] ? normalizeStoredPhotos(values[i]) : undefined));
+});
+
+// เรียงตามเวลาที่เข้าคิว (ส่งตามลำดับที่เกิดขึ้นจริง)
+export const loadOutbox = async (): Promise<OutboxItem[]> => {
+  const db = await openDb();
+  const items: OutboxItem[] = await requestToPromise(db.transaction('outbox').objectStore('outbox').getAll());
+  return items.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const saveOutbox = (items: OutboxItem[]) => replaceAll('outbox', items);
+
+// พื้นที่ที่ใช้ไป / พื้นที่ทั้งหมดที่ Browser อนุญาต (bytes)
+export const getStorageUsage = async (): Promise<{ usage: number, quota: number } | null> => {
+  if (!navigator.storage || !navigator.storage.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+};
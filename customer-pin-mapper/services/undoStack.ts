@@ -0,0 +1,51 @@
+// ==================================================================================
+// ประวัติการแก้ไขสำหรับ "เลิกทำ" / "ทำซ้ำ" (เก็บเฉพาะในรอบการใช้งานนี้ ปิดแอปแล้วหายไป)
+// เก็บภาพรวมของข้อมูลก่อนแก้ไขทั้งก้อน (Array เดิมไม่ถูกแก้ไขอยู่แล้ว จึงไม่เปลืองหน่วยความจำมาก)
+// ==================================================================================
+
+// ผลที่เกิดนอกข้อมูลในเครื่อง (เช่น สถานะที่ส่งไป Google Sheet) ต้องย้อน/ทำซ้ำเองด้วย
+export interface UndoEffects {
+  undo: () => void;
+  redo: () => void;
+}
+
+export interface UndoEntry<T> {
+  label: string; // สิ่งที่ทำ เช่น "ลบหมุด คุณต้น" ไว้แสดงใน Toast
+  snapshot: T;
+  effects?: UndoEffects;
+}
+
+const MAX_ENTRIES = 50;
+
+export const createUndoStack = <T>() => {
+  let past: UndoEntry<T>[] = [];
+  let future: UndoEntry<T>[] = [];
+
+  return {
+    // เรียกก่อนแก้ไขทุกครั้ง พร้อมข้อมูลก่อนแก้ไข
+    record: (label: string, before: T, effects?: UndoEffects) => {
+      past.push({ label, snapshot: before, effects });
+      if (past.length > MAX_ENTRIES) past.shift();
+      future = [];
+    },
+    // คืนข้อมูลก่อนแก้ไขล่าสุด (current ถูกเก็บไว้ให้ทำซ้ำได้)
+    undo: (current: T): UndoEntry<T> | null => {
+      const entry = past.pop();
+      if (!entry) return null;
+      future.push({ ...entry, snapshot: current });
+      return entry;
+    },
+    redo: (current: T): UndoEntry<T> | null => {
+      const entry = future.pop();
+      if (!entry) return null;
+      past.push({ ...entry, snapshot: current });
+      return entry;
+    },
+    canUndo: () => past.length > 0,
+    canRedo: () => future.length > 0,
+    clear: () => {
+      past = [];
+      future = [];
+    },
+  };
+};
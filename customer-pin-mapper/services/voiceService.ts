@@ -0,0 +1,39 @@
+import { VoiceSettings } from './settingsService';
+
+// เสียงนำทางภาษาไทยผ่าน Web Speech API (speechSynthesis)
+
+export const isVoiceSupported = () => 'speechSynthesis' in window;
+
+// รายชื่อเสียงที่ใช้ได้ โดยเอาเสียงภาษาไทยขึ้นก่อน
+// หมายเหตุ: บาง Browser โหลดรายชื่อเสียงแบบ Async ต้องรอ event 'voiceschanged'
+export const getAvailableVoices = (): SpeechSynthesisVoice[] => {
+  if (!isVoiceSupported()) return [];
+  const voices = window.speechSynthesis.getVoices();
+  const thai = voices.filter(v => v.lang.toLowerCase().startsWith('th'));
+  const others = voices.filter(v => !v.lang.toLowerCase().startsWith('th'));
+  return [...thai, ...others];
+};
+
+export const speak = (text: string, settings: VoiceSettings) => {
+  if (!isVoiceSupported() || settings.muted) return;
+
+  const synth = window.speechSynthesis;
+  // ตัดประโยคเก่าที่ยังพูดไม่จบ เพื่อให้คำสั่งล่าสุดได้ยินทันที
+  synth.cancel();
+
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = 'th-TH';
+  utterance.volume = Math.max(0, Math.min(1, settings.volume));
+  utterance.rate = 1;
+
+  const voices = synth.getVoices();
+  const voice = voices.find(v => v.voiceURI === settings.voiceURI)
+    || voices.find(v => v.lang.toLowerCase().startsWith('th'));
+  if (voice) utterance.voice = voice;
+
+  synth.speak(utterance);
+};
+
+export const stopSpeaking = () => {
+  if (isVoiceSupported()) window.speechSynthesis.cancel();
+};
@@ -1,18 +1,100 @@
-export interface CustomerPoint {
+export type PaymentMethod = 'cash' | 'transfer' | 'paid';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'เก็บเงินสด',
+  transfer: 'โอนปลายทาง',
+  paid: 'จ่ายแล้ว',
+};
+
+// รายละเอียดออเดอร์ (ทุกช่องไม่บังคับ เพราะ Sheet แต่ละแบบมีข้อมูลไม่เท่ากัน)
+export interface OrderDetails {
+  orderNo?: string;        // เช่น "#01"
+  phone?: string;
+  orderTime?: string;      // ISO String (เวลาที่ลูกค้าสั่ง)
+  amountDue?: number;      // ยอดที่ต้องเก็บ (บาท)
+  paymentMethod?: PaymentMethod;
+  deliveryWindow?: { start: string, end: string }; // "HH:mm"
+  note?: string;
+}
+
+// ผลการส่งแต่ละครั้ง (ส่งไม่สำเร็จ หมุดจะยังอยู่บนแผนที่และเข้าคิวส่งซ้ำ)
+export type DeliveryOutcome = 'delivered' | 'left_with_guard' | 'partial' | 'not_reachable' | 'wrong_address' | 'refused';
+
+export const DELIVERY_OUTCOME_LABELS: Record<DeliveryOutcome, string> = {
+  delivered: 'ส่งสำเร็จ',
+  left_with_guard: 'ฝากไว้กับ รปภ./นิติ',
+  partial: 'ส่งได้บางส่วน',
+  not_reachable: 'ติดต่อลูกค้าไม่ได้',
+  wrong_address: 'ที่อยู่ผิด',
+  refused: 'ลูกค้าปฏิเสธรับ',
+};
+
+// สถานะที่ส่งไปอัปเดตใน Google Sheet
+export const DELIVERY_OUTCOME_SHEET_STATUS: Record<DeliveryOutcome, string> = {
+  delivered: 'DELIVERED',
+  left_with_guard: 'DELIVERED_GUARD',
+  partial: 'PARTIAL',
+  not_reachable: 'FAILED_NOT_REACHABLE',
+  wrong_address: 'FAILED_WRONG_ADDRESS',
+  refused: 'REFUSED',
+};
+
+export const isFailedOutcome = (outcome: DeliveryOutcome) =>
+  outcome === 'not_reachable' || outcome === 'wrong_address' || outcome === 'refused';
+
+// ความพยายามส่งครั้งล่าสุดที่ไม่สำเร็จ (ใช้แสดงหมุดสีต่าง และคิวส่งซ้ำ)
+export interface FailedAttempt {
+  outcome: DeliveryOutcome;
+  reason: string;
+  at: string; // ISO String
+}
+
+export interface CustomerPoint extends OrderDetails {
   id: string;
   name: string;
   lat: number;
   lng: number;
-  orderValue?: number; // Value of the order
-  note?: string;
+  lastAttempt?: FailedAttempt;
+  attemptCount?: number; // จำนวนครั้งที่ไปส่งแล้วไม่สำเร็จ
+}
+
+// ตำแหน่งที่เลือกจากหน้าปักหมุดเอง (address = ชื่อสถานที่จากการค้นหา ถ้ามี)
+export interface LocationState {
+  lat: number;
+  lng: number;
+  address?: string;
+}
+
+// ข้อมูลที่ประทับลงรูปหลักฐานตอนถ่าย + SHA-256 ไว้ตรวจว่ารูปหรือข้อมูลถูกแก้ภายหลังหรือไม่
+export interface PhotoStamp {
+  capturedAt: string; // ISO String (เวลาที่ถ่าย)
+  position?: { lat: number, lng: number, accuracy: number }; // GPS ของเครื่องตอนถ่าย (ไม่มี = หาตำแหน่งไม่ได้)
+  originalHash: string; // SHA-256 ของไฟล์ต้นฉบับจากกล้อง
+  photoHash: string;    // SHA-256 ของรูปที่บันทึก (ย่อ + ประทับข้อมูลแล้ว)
+  seal: string;         // SHA-256 ของข้อมูลด้านบนรวมกับชื่อลูกค้า/เลขออเดอร์
+}
+
+// รูปหลักฐาน 1 รูป (ส่งงาน 1 ครั้งถ่ายได้หลายรูป)
+export interface DeliveryPhoto {
+  url: string; // Base64 (รูปใหม่) หรือ Object URL ของรูปที่เก็บใน IndexedDB
+  stamp?: PhotoStamp;
 }
 
 export interface DeliveryRecord {
   id: string;
   customerName: string;
-  timestamp: string; // ISO String
-  photoUrl: string; // Base64 image
-  location: { lat: number, lng: number };
+  timestamp: string; // ISO String (เวลาส่งสำเร็จ)
+  arrivedAt?: string; // ISO String (เวลาที่ระบบตรวจพบว่าถึงจุดส่ง)
+  photos: DeliveryPhoto[]; // ว่าง = ไม่มีรูป (เช่น ส่งไม่สำเร็จ)
+  signatureUrl?: string;   // ลายเซ็นผู้รับ (PNG) Base64 หรือ Object URL เหมือนรูป
+  recipientName?: string;  // ชื่อผู้รับของ
+  location: { lat: number, lng: number }; // พิกัดหมุดลูกค้า
+  deviceLocation?: { lat: number, lng: number, accuracy: number }; // GPS ของเครื่องตอนกดยืนยันส่งงาน
+  distanceFromPin?: number; // ระยะระหว่างเครื่องกับหมุดตอนส่ง (เมตร)
+  order?: OrderDetails; // รายละเอียดออเดอร์ ณ เวลาที่ส่ง
+  outcome?: DeliveryOutcome; // ไม่มี = ส่งสำเร็จ (ประวัติก่อนมีผลการส่ง)
+  reason?: string;           // เหตุผล (บังคับเมื่อไม่ใช่ส่งสำเร็จปกติ)
+  note?: string;             // หมายเหตุจากผู้ส่ง
 }
 
 export interface AnalysisResult {
@@ -25,4 +107,16 @@ export interface AnalysisResult {
 export interface MapViewerHandle {
   toggleTracking: () => void;
   resetToShop: () => void;
+  planTrip: (returnToShop: boolean) => void; // จัดลำดับส่งทุกหมุดโดยเริ่มจากร้าน
+  getPlannedRoute: () => PlannedRoute | null; // ทริปที่วางแผนไว้ล่าสุด (ไว้ส่งออกไฟล์)
+  getUserPosition: () => { lat: number, lng: number } | null; // ตำแหน่งผู้ขับล่าสุด (null = ยังไม่ได้เปิด GPS)
+  focusPoint: (id: string) => void;      // เลื่อนแผนที่ไปที่หมุดและเปิด Popup
+  navigateToPoint: (id: string) => void; // นำทางในแอปไปที่หมุด
+  resetArrival: (id: string) => void;    // ล้างสถานะ "ถึงแล้ว" ของหมุด (ไปส่งซ้ำจะจับเวลาถึงใหม่)
+}
+
+// ทริปที่จัดลำดับแล้ว: จุดส่งตามลำดับ และเส้นทาง (ถนนจริง หรือเส้นตรงถ้าออฟไลน์)
+export interface PlannedRoute {
+  stops: CustomerPoint[];
+  line: { lat: number, lng: number }[];
 }
\ No newline at end of file